@@ -9,6 +9,7 @@ import bodyParser from 'body-parser';
 import { execSync } from 'child_process';
 import path from 'path';
 import apiRoutes from "./routes/apiRoutes";
+import { getStorage } from "./services/storage";
 
 // Load environment variables
 dotenv.config();
@@ -23,8 +24,8 @@ function checkDependencies() {
       const javaVersion = execSync('java -version 2>&1').toString();
       console.log(`Java detected: ${javaVersion.split('\n')[0]}`);
     } catch (error) {
-      console.error('❌ Java not found! Please install Java 11 or higher');
-      console.error('   sudo apt update && sudo apt install openjdk-11-jdk');
+      console.error('❌ Java not found! Please install Java 21 (targets compile for Java 16 to 21)');
+      console.error('   sudo apt update && sudo apt install openjdk-21-jdk');
     }
     
     // Check Maven version
@@ -36,12 +37,20 @@ function checkDependencies() {
       console.error('   sudo apt update && sudo apt install maven');
     }
     
-    // Check if bash exists
+    // Gradle is optional: Gradle builds can also use the project's wrapper
     try {
-      execSync('which bash');
-      console.log('Bash detected ✓');
+      const gradleVersion = execSync(`${process.env.GRADLE_COMMAND || 'gradle'} --version`).toString();
+      console.log(`Gradle detected: ${gradleVersion.trim().split('\n')[0]}`);
     } catch (error) {
-      console.error('❌ Bash not found! This is very unusual for Linux');
+      console.warn('⚠️ Gradle not found. Gradle builds will only work for projects with a Gradle wrapper');
+    }
+    
+    // git keeps the revision history of build directories; builds work without it
+    try {
+      const gitVersion = execSync(`${process.env.GIT_COMMAND || 'git'} --version`).toString();
+      console.log(`Git detected: ${gitVersion.trim()}`);
+    } catch (error) {
+      console.warn('⚠️ Git not found. Build history will not be recorded');
     }
     
     console.log('Dependency check completed');
@@ -53,6 +62,9 @@ function checkDependencies() {
 // Run dependency check
 checkDependencies();
 
+// Select the storage backend now, so a misconfigured one stops the server at startup
+getStorage();
+
 // Create Express app
 const app: Application = express();
 const port = parseInt(process.env.PORT || "5000", 10);
@@ -69,7 +81,8 @@ app.use(cors({
   origin: process.env.CORS_ORIGINS ? 
     process.env.CORS_ORIGINS.split(',') : 
     ['http://localhost:3000', 'http://127.0.0.1:3000'],
-  methods: ['GET', 'POST', 'OPTIONS'],
+  methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+  exposedHeaders: ['Retry-After', 'X-RateLimit-Limit', 'X-RateLimit-Remaining'],
   credentials: true
 }));
 app.use(helmet());
@@ -93,6 +106,12 @@ app.use("/api/fix", apiRoutes.fixRoutes);
 app.use("/api/create", apiRoutes.createRoutes);
 app.use("/api/build", apiRoutes.buildRoutes);  // Make sure this line exists!
 app.use('/api/plugins', apiRoutes.pluginsRoutes);
+app.use('/api/targets', apiRoutes.targetRoutes);
+app.use('/api/scaffolds', apiRoutes.scaffoldRoutes);
+app.use('/api/prompts', apiRoutes.promptRoutes);
+app.use('/api/admin/keys', apiRoutes.keyRoutes);
+app.use('/api/admin/cache', apiRoutes.cacheRoutes);
+app.use('/api/usage', apiRoutes.usageRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
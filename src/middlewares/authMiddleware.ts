@@ -1,8 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
 import dotenv from 'dotenv';
+import { ApiKeyIdentity, ApiKeyScope, authenticateKey, hasScope } from '../services/apiKeys';
 
 dotenv.config();
 
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKeyIdentity;
+    }
+  }
+}
+
 export const verifyToken = (req: Request, res: Response, next: NextFunction): void => {
   // Get auth header
   const authHeader = req.headers.authorization;
@@ -19,11 +28,9 @@ export const verifyToken = (req: Request, res: Response, next: NextFunction): vo
   // Extract token (remove "Bearer " prefix)
   const token = authHeader.split(' ')[1];
   
-  // Get API token from environment variables
-  const API_TOKEN = process.env.API_TOKEN;
-  
-  // Verify token
-  if (!API_TOKEN || token !== API_TOKEN) {
+  // Look the token up in the key store (API_TOKEN still works as an admin key)
+  const identity = token ? authenticateKey(token) : null;
+  if (!identity) {
     res.status(401).json({
       status: "fail",
       message: "Invalid token"
@@ -31,6 +38,20 @@ export const verifyToken = (req: Request, res: Response, next: NextFunction): vo
     return; // Return without a value after sending response
   }
   
-  // If token is valid, proceed
+  // If token is valid, attach the key identity and proceed
+  req.apiKey = identity;
+  next();
+};
+
+// Must run after verifyToken
+export const requireScope = (scope: ApiKeyScope) => (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.apiKey || !hasScope(req.apiKey, scope)) {
+    res.status(403).json({
+      status: "fail",
+      message: `API key is missing the "${scope}" scope`
+    });
+    return;
+  }
+
   next();
-};
\ No newline at end of file
+};
@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from 'express';
+import { checkRequestRate, checkTokenBudget, resolveLimits, runWithUsageKey } from '../services/usage';
+
+export const sendTooManyRequests = (res: Response, message: string, retryAfter: number): void => {
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(429).json({
+    status: "fail",
+    message,
+    retryAfter
+  });
+};
+
+// Must run after verifyToken. Counts the request against the key's per-minute limit
+// and runs the rest of the request with LLM usage counted against the key.
+export const rateLimit = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.apiKey) {
+    next();
+    return;
+  }
+
+  const limits = resolveLimits(req.apiKey.limits);
+  const check = checkRequestRate(req.apiKey.id, limits);
+
+  if (limits.requestsPerMinute > 0) {
+    res.setHeader('X-RateLimit-Limit', String(limits.requestsPerMinute));
+    res.setHeader('X-RateLimit-Remaining', String(Math.max(check.remaining, 0)));
+  }
+
+  if (!check.allowed) {
+    console.log(`[USAGE] Rate limit hit for key ${req.apiKey.id}`);
+    sendTooManyRequests(res, check.message, check.retryAfter);
+    return;
+  }
+
+  runWithUsageKey(req.apiKey.id, () => next());
+};
+
+// For routes that call the LLM: refuse them once the key's token budget is used up
+export const enforceTokenBudget = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.apiKey) {
+    next();
+    return;
+  }
+
+  const check = checkTokenBudget(req.apiKey.id, resolveLimits(req.apiKey.limits));
+  if (!check.allowed) {
+    console.log(`[USAGE] Token budget used up for key ${req.apiKey.id}`);
+    sendTooManyRequests(res, check.message, check.retryAfter);
+    return;
+  }
+
+  next();
+};
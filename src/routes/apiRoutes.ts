@@ -1,23 +1,150 @@
-import express, { Router, Request, Response } from "express";
-import { verifyToken } from "../middlewares/authMiddleware";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import express, { Router, Request, Response, NextFunction } from "express";
+import { requireScope, verifyToken } from "../middlewares/authMiddleware";
+import { enforceTokenBudget, rateLimit, sendTooManyRequests } from "../middlewares/rateLimitMiddleware";
+import { ApiFinding, checkApiUsage, formatApiFinding } from "../services/apiIndex";
+import { API_KEY_SCOPES, ApiKeyScope, issueKey, listKeys, revokeKey } from "../services/apiKeys";
 import dotenv from "dotenv";
 import crypto from "crypto";
-import NodeCache from "node-cache";
 import path from "path";
-import { spawn } from 'child_process';
 import fs from 'fs';
+import {
+  BuildCancellation,
+  cancelBuild,
+  cancellationStatus,
+  currentBuildSignal,
+  isBuildCancellation,
+  isBuildRunning,
+  runCancellable,
+  withCancellation
+} from "../services/buildControl";
+import { commitBuild, diffCommits, hasHistory, isHistoryError, readHistory, resolveCommit, rollbackBuild } from "../services/buildHistory";
+import { cancelJob, enqueueJob, isJobActive } from "../services/buildJobs";
+import { BuildOptions, FixAttempt, orchestrateBuild } from "../services/buildOrchestrator";
+import { openBuildArtifact, restoreBuild, restoreMissingBuilds, storeBuild } from "../services/buildStorage";
+import {
+  BUILD_SYSTEMS,
+  BuildSystem,
+  createGradleBuildFiles,
+  DEFAULT_BUILD_SYSTEM,
+  detectBuildSystem,
+  expectedJarPath,
+  isBuildFile
+} from "../services/buildSystems";
+import {
+  BuildManifest,
+  BuildSource,
+  createManifest,
+  FINAL_STATUSES,
+  loadManifest,
+  readManifest,
+  updateManifest
+} from "../services/buildStore";
+import {
+  checkConsistency,
+  describeReferencedTypes,
+  formatConsistencyIssue,
+  resolveConsistency
+} from "../services/consistency";
+import {
+  annotateSnippet,
+  Diagnostic,
+  findReferencedFiles,
+  formatDiagnostic,
+  parseDiagnostics,
+  resolveDiagnosticFile
+} from "../services/diagnostics";
+import {
+  CacheNamespace,
+  createCacheKey,
+  deleteCacheEntry,
+  flushCache,
+  getCached,
+  getCacheStats,
+  isCacheKey,
+  isCacheNamespace,
+  listCacheEntries,
+  readCacheEntry,
+  setCached
+} from "../services/generationCache";
+import { formatTypeDeclarations } from "../services/javaSymbols";
+import { getProvider, GenerationConfig } from "../services/llm";
+import { checkPluginYml, emptyPluginYml, parsePluginYml, serializePluginYml, updatePluginYml } from "../services/pluginYml";
+import { checkPom, normalizePom } from "../services/pom";
+import { prepareImport, readZipProject } from "../services/projectImport";
+import {
+  DEFAULT_REUSE_MODE,
+  findSimilarBuilds,
+  isReuseMode,
+  REUSE_MODES,
+  ReuseMode,
+  SimilarBuild
+} from "../services/promptIndex";
+import {
+  currentPromptVersions,
+  listPromptTemplates,
+  renderPrompt,
+  trackPromptVersions,
+  usedPromptVersions
+} from "../services/prompts";
+import {
+  createScaffold,
+  describeScaffoldChoices,
+  formatFeatureFile,
+  isScaffoldId,
+  listScaffolds,
+  parseScaffoldChoice,
+  SCAFFOLD_IDS,
+  ScaffoldId
+} from "../services/scaffolds";
+import { createSourceArchive } from "../services/sourceArchive";
+import {
+  applyTargetToGradleBuild,
+  applyTargetToPluginYml,
+  DEFAULT_TARGET,
+  describeTarget,
+  getTargetError,
+  Platform,
+  PLATFORMS,
+  PluginTarget,
+  ResolvedTarget,
+  resolveTarget,
+  SUPPORTED_VERSIONS
+} from "../services/targets";
+import {
+  emitBuildEvent,
+  finishBuildEvents,
+  hasBuildEvents,
+  isBuildFinished,
+  subscribeBuildEvents,
+  trackStage
+} from "../services/buildEvents";
+import {
+  acquireBuildSlot,
+  DEFAULT_LIMITS,
+  getUsageSummary,
+  listUsageKeyIds,
+  resolveLimits,
+  runWithUsageKey,
+  UsageLimits,
+  withUsageTracking
+} from "../services/usage";
+import {
+  buildExists,
+  filterProjectFiles,
+  getBuildDir,
+  isValidBuildId,
+  listBuildIds,
+  PLUGINS_BASE_DIR,
+  readInternalFile,
+  readProjectFiles,
+  RejectedFile,
+  resolveBuildPath,
+  writeInternalFile,
+  writeProjectFiles
+} from "../services/workspace";
 
 dotenv.config();
 
-// Initialize the Gemini API client
-const API_KEY = process.env.GEMINI_API_KEY || "";
-const genAI = new GoogleGenerativeAI(API_KEY);
-
-// Initialize cache with configurable TTL (default: 1 hour)
-const CACHE_TTL = parseInt(process.env.CACHE_TTL || "3600");
-const pluginCache = new NodeCache({ stdTTL: CACHE_TTL });
-
 // Precompile frequently used regex patterns for better performance
 const FILE_PATTERN = /---FILE_START:(.*?)---([\s\S]*?)---FILE_END---/g;
 const PLUGIN_NAME_PATTERN = /Plugin name:?\s*([A-Za-z0-9_]+)/i;
@@ -41,54 +168,123 @@ const MODEL_CONFIG = {
 };
 
 // Interfaces
-interface InconsistencyIssue {
-  fileA: string;
-  fileB: string;
-  issue: string;
-  fix: string;
-}
-
-interface InconsistencyResponse {
-  status?: string;
-  issues?: InconsistencyIssue[];
-}
-
 interface CompileResult {
   success: boolean;
   jarPath: string | null;
   buildOutput: string;
   buildId: string; // Add this
+  attempts: FixAttempt[];
+  noShade: boolean;
+  rejectedFiles: RejectedFile[];
+  pluginYmlErrors: string[];
+  pomDiagnostics: Diagnostic[];
 }
 
-// Create separate routers
-const fixRoutes: Router = express.Router();
-const createRoutes: Router = express.Router();
+interface CompileFileOptions {
+  source?: BuildSource;  // Imported projects are built as they are, without validation or pom normalization
+  validated?: boolean;   // The files have just been validated; a generated build's fix attempts still normalize poms
+}
+
+interface FileChangeSummary {
+  path: string;
+  action: 'added' | 'modified';
+  linesAdded: number;
+  linesRemoved: number;
+}
 
-// Base directory for plugins
-const PLUGINS_BASE_DIR = path.join(__dirname, '../../generated-plugins');
-if (!fs.existsSync(PLUGINS_BASE_DIR)) {
-  fs.mkdirSync(PLUGINS_BASE_DIR, { recursive: true });
+interface RevisionRecord {
+  revision: number;
+  instruction: string;
+  createdAt: string;
+  changes: FileChangeSummary[];
+  promptVersions: Record<string, string>;
 }
 
-// Path to bash script
-const BASH_SCRIPT_PATH = path.join(__dirname, '../../bash.sh');
+interface FixResult {
+  files: Record<string, string>;
+  cached: boolean;
+  diagnostics: Diagnostic[];
+  addressed: Record<string, string[]>; // Fixed file -> IDs of the diagnostics reported against it
+  apiFindings: ApiFinding[];
+}
+
+// Where the files of a new build came from when they weren't generated for it
+interface GenerationOrigin {
+  cachedFrom: string | null; // Build the cached generation was first made for
+  reusedFrom: string | null; // Earlier build with a similar prompt whose files were reused
+}
 
-// Make bash script executable on Linux
-try {
-  fs.chmodSync(BASH_SCRIPT_PATH, '755');
-  console.log(`Made ${BASH_SCRIPT_PATH} executable`);
-} catch (error) {
-  console.warn(`Warning: Could not set executable permissions on ${BASH_SCRIPT_PATH}`, error);
+interface GeneratedPlugin {
+  pluginName: string;
+  scaffold: ScaffoldId | null; // Skeleton the plugin was built on
+  files: Record<string, string>;
+  rejectedFiles: RejectedFile[]; // Files the model returned that may not be written
+  promptVersions: Record<string, string>; // Template versions the generation used
 }
 
+// Create separate routers
+const fixRoutes: Router = express.Router();
+const createRoutes: Router = express.Router();
+
 // Helper functions for code reuse and optimized processing
-const getModel = (modelConfig: any, config: any) => {
-  return genAI.getGenerativeModel({
-    model: modelConfig.name,
-    generationConfig: config
+const getModel = (modelConfig: { name: string }, config: GenerationConfig) => {
+  return withUsageTracking(withCancellation(getProvider().getModel(modelConfig.name, config)));
+};
+
+/**
+ * Takes a concurrent build slot for the request's API key, answering 429 when they are all in use
+ */
+const acquireKeyBuildSlot = (req: Request, res: Response): (() => void) | null => {
+  const limits = resolveLimits(req.apiKey?.limits);
+  const release = acquireBuildSlot(req.apiKey?.id || 'anonymous', limits);
+  if (!release) {
+    sendTooManyRequests(res, `Only ${limits.concurrentBuilds} concurrent builds are allowed per API key`, 30);
+  }
+  return release;
+};
+
+// Reject build IDs that could point outside generated-plugins before any handler uses them, then
+// fetch the build from the shared storage if another replica produced or updated it
+const validateBuildIdParam = (req: Request, res: Response, next: NextFunction, buildId: string): void => {
+  if (!isValidBuildId(buildId)) {
+    res.status(400).json(formatApiResponse(false, `Invalid build ID "${buildId}"`));
+    return;
+  }
+  restoreBuild(buildId).then(() => next(), next);
+};
+
+// Stop a synchronous build when its client goes away before the response is sent
+const cancelOnDisconnect = (res: Response, buildId: string): void => {
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      cancelBuild(buildId, 'disconnected');
+    }
   });
 };
 
+// Record a cancelled or timed-out build and tell the client, if it is still there
+const respondBuildCancelled = (res: Response, buildId: string, cancellation: BuildCancellation): void => {
+  const status = cancellationStatus(cancellation);
+  if (readManifest(buildId)) {
+    updateManifest(buildId, { status, error: cancellation.message });
+  }
+  finishBuildEvents(buildId, false, cancellation.message);
+
+  if (!res.headersSent) {
+    res.status(cancellation.reason === 'timeout' ? 504 : 409).json(formatApiResponse(
+      false,
+      cancellation.message,
+      { buildId, status }
+    ));
+  }
+};
+
+// Provider and model names recorded in the build manifest
+const getModelDetails = (): Pick<BuildManifest, 'provider' | 'models'> => ({
+  provider: getProvider().name,
+  models: [MODEL_CONFIG.flash.name, MODEL_CONFIG.pro.name]
+});
+
 const cleanContent = (content: string): string => {
   return content.replace(MARKDOWN_CODE_PATTERN, "");
 };
@@ -107,121 +303,189 @@ const formatApiResponse = (success: boolean, message: string, data?: any) => {
   };
 };
 
-// Function to compile the plugin using bash.sh
+// Function to compile the plugin with the build orchestrator (Maven + in-process AI fixes)
 async function compilePlugin(
   prompt: string, 
-  token: string, 
   files: Record<string, string>,
-  providedBuildId?: string
+  providedBuildId?: string,
+  buildOptions: BuildOptions = {},
+  target: ResolvedTarget = resolveTarget(),
+  { source = 'generated', validated = false }: CompileFileOptions = {}
 ): Promise<CompileResult> {
-  return new Promise(async (resolve) => {
-    // Generate unique ID for this build or use provided one
-    const buildId = providedBuildId || `plugin-${Date.now()}`;
-    const outputDir = path.join(PLUGINS_BASE_DIR, buildId);
-    
-    // Create output directory
-    fs.mkdirSync(outputDir, { recursive: true });
-    
-    // Save the original prompt to help with identification
-    if (prompt) {
-      fs.writeFileSync(path.join(outputDir, 'prompt.txt'), prompt);
-    }
-    
-    // Extract plugin name from files
-    const pluginYmlPath = Object.keys(files).find(path => path.endsWith('plugin.yml'));
-    let pluginName = "CustomPlugin";
-    if (pluginYmlPath) {
-      const nameMatch = files[pluginYmlPath].match(/name: *([A-Za-z0-9_]+)/);
-      if (nameMatch) {
-        pluginName = nameMatch[1];
-      }
-    }
-    
-    // Validate files before writing to disk
-    console.log("Validating plugin files before compilation...");
-    const validatedFiles = await validatePluginFiles(files, pluginName);
-    
-    // Write validated files to disk
-    for (const [filePath, content] of Object.entries(validatedFiles)) {
-      const fullPath = path.join(outputDir, filePath);
-      const fileDir = path.dirname(fullPath);
-      
-      // Create directory if it doesn't exist
-      if (!fs.existsSync(fileDir)) {
-        fs.mkdirSync(fileDir, { recursive: true });
-      }
-      
-      // Write file
-      fs.writeFileSync(fullPath, content);
-      console.log(`Created file: ${fullPath}`);
-    }
-    
-    console.log(`Compiling plugin at: ${outputDir}`);
-    
-    // Call the bash script to compile the plugin
-    const bashProcess = spawn('bash', [
-      BASH_SCRIPT_PATH, 
-      outputDir,         // Plugin directory
-      token,             // Authentication token
-      process.env.API_HOST || 'http://localhost:5000' // API host
-    ]);
-    
-    let stdoutData = '';
-    let stderrData = '';
-    
-    bashProcess.stdout.on('data', (data: Buffer) => {
-      const output = data.toString();
-      stdoutData += output;
-      console.log(`[BASH] ${output.trim()}`);
-    });
-    
-    bashProcess.stderr.on('data', (data: Buffer) => {
-      const output = data.toString();
-      stderrData += output;
-      console.error(`[BASH-ERR] ${output.trim()}`);
+  // Generate unique ID for this build or use provided one
+  const buildId = providedBuildId || `plugin-${Date.now()}`;
+  const outputDir = getBuildDir(buildId);
+  
+  // Create output directory
+  fs.mkdirSync(outputDir, { recursive: true });
+  
+  // Builds compiled outside the create pipeline may not have a manifest yet
+  if (readManifest(buildId)) {
+    updateManifest(buildId, { status: 'compiling', fixAttempts: 0, attempts: [] });
+  } else {
+    createManifest(buildId, {
+      status: 'compiling',
+      prompt,
+      target: { platform: target.platform, mcVersion: target.mcVersion },
+      buildSystem: buildOptions.buildSystem || detectBuildSystem(Object.keys(files)) || 'maven'
     });
-    
-    bashProcess.on('close', (code: number | null) => {
-      console.log(`Bash script exited with code ${code}`);
-      
-      // Check for build result JSON file
-      let success = false;
-      let jarPath: string | null = null;
-      let buildOutput = stdoutData + stderrData;
-      
-      try {
-        const resultFile = path.join(outputDir, 'build_result.json');
-        if (fs.existsSync(resultFile)) {
-          const buildResult = JSON.parse(fs.readFileSync(resultFile, 'utf8'));
-          success = buildResult.success;
-          
-          if (buildResult.jarPath) {
-            jarPath = path.join(outputDir, buildResult.jarPath);
-          }
-        } else {
-          // Fallback to checking for JAR manually
-          const targetDir = path.join(outputDir, 'target');
-          if (fs.existsSync(targetDir)) {
-            const files = fs.readdirSync(targetDir);
-            const jarFile = files.find(file => file.endsWith('.jar') && !file.includes('original'));
-            if (jarFile) {
-              jarPath = path.join(targetDir, jarFile);
-              success = true;
-            }
-          }
-        }
-      } catch (error) {
-        console.error("Error processing build results:", error);
+  }
+  
+  // Save the original prompt to help with identification
+  if (prompt) {
+    writeInternalFile(buildId, 'prompt.txt', prompt);
+  }
+  
+  // Extract plugin name from files
+  const pluginYmlPath = Object.keys(files).find(path => path.endsWith('plugin.yml'));
+  const pluginName = (pluginYmlPath && parsePluginYml(files[pluginYmlPath]).plugin?.name) || "CustomPlugin";
+  
+  // Validate files before writing to disk; imported projects are built as they are
+  const validate = source === 'generated' && !validated;
+  console.log(validate ? "Validating plugin files before compilation..." : "Compiling the project without validation...");
+  const validatedFiles = validate ? await validatePluginFiles(files, pluginName, target) : files;
+  
+  // Check the sources against the server API; findings also go into the fix prompt if the build fails
+  const apiFindings = checkApiUsage(validatedFiles, target);
+  if (apiFindings.length > 0) {
+    console.log(`Found ${apiFindings.length} server API problems:\n${apiFindings.map(formatApiFinding).join('\n')}`);
+    emitBuildEvent(buildId, { type: 'api:findings', findings: apiFindings });
+  }
+  
+  const pluginYmlErrors = checkPluginYml(validatedFiles);
+  if (pluginYmlErrors.length > 0) {
+    console.warn(`plugin.yml problems:\n${pluginYmlErrors.join('\n')}`);
+  }
+  
+  // Malformed XML is reported from here rather than from Maven's first failed run
+  const pomDiagnostics = checkPom(validatedFiles);
+  if (pomDiagnostics.length > 0) {
+    console.warn(`pom.xml problems:\n${pomDiagnostics.map(formatDiagnostic).join('\n')}`);
+    emitBuildEvent(buildId, { type: 'pom:diagnostics', diagnostics: pomDiagnostics });
+  }
+  
+  // Write validated files to disk; anything outside the allowed locations is reported instead
+  const rejectedFiles = writeProjectFiles(buildId, validatedFiles);
+  await commitBuild(buildId, "Validate plugin files before compiling");
+  
+  console.log(`Compiling plugin at: ${outputDir}`);
+  
+  // Record each fix attempt as soon as it finishes so status checks can follow along
+  const attempts: FixAttempt[] = [];
+  
+  const result = await orchestrateBuild(outputDir, { ...buildOptions, signal: buildOptions.signal || currentBuildSignal() }, {
+    readFiles: () => readProjectFiles(buildId),
+    writeFiles: (changedFiles) => {
+      rejectedFiles.push(...writeProjectFiles(buildId, changedFiles));
+    },
+    fixFiles: async (buildErrors, currentFiles) => {
+      const fixedFiles = (await fixBuildErrors(buildErrors, currentFiles, target)).files;
+      // A pom the model rewrote for a generated build still has to meet the house standard
+      if (source === 'generated' && fixedFiles["pom.xml"] !== undefined) {
+        fixedFiles["pom.xml"] = normalizePom(fixedFiles["pom.xml"], pluginName, target).content;
       }
-      
-      resolve({
-        success,
-        jarPath,
-        buildOutput,
-        buildId
+      return fixedFiles;
+    },
+    onOutput: (stream, line) => emitBuildEvent(buildId, { type: 'build:output', stream, line }),
+    onAttempt: async (attempt) => {
+      attempts.push(attempt);
+      emitBuildEvent(buildId, {
+        type: 'fix:attempt',
+        attempt: attempt.attempt,
+        outcome: attempt.outcome,
+        filesChanged: attempt.filesChanged
       });
-    });
+      updateManifest(buildId, { fixAttempts: attempts.length, attempts });
+      await commitBuild(buildId, `Fix attempt ${attempt.attempt} (${attempt.outcome})\n\n${attempt.errors}`);
+    }
+  });
+  
+  const manifest = readManifest(buildId);
+  updateManifest(buildId, {
+    status: result.success ? 'completed' : 'failed',
+    pluginName: manifest?.pluginName || pluginName,
+    jarPath: result.jarPath,
+    noShade: result.noShade,
+    fixAttempts: result.attempts.length,
+    attempts: result.attempts,
+    rejectedFiles,
+    pluginYmlErrors,
+    pomDiagnostics,
+    promptVersions: { ...manifest?.promptVersions, ...usedPromptVersions() },
+    error: result.success ? null : summarizeBuildErrors(result.buildOutput)
+  });
+  writeInternalFile(buildId, 'build.log', result.buildOutput);
+  await storeBuild(buildId);
+  
+  return {
+    success: result.success,
+    jarPath: result.jarPath ? path.join(outputDir, result.jarPath) : null,
+    buildOutput: result.buildOutput,
+    buildId,
+    attempts: result.attempts,
+    noShade: result.noShade,
+    rejectedFiles,
+    pluginYmlErrors,
+    pomDiagnostics
+  };
+}
+
+// Short error summary for the manifest: the distinct Maven [ERROR] lines, else any line mentioning an error
+const summarizeBuildErrors = (buildOutput: string): string => {
+  const errorLines = Array.from(new Set(
+    buildOutput
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.startsWith('[ERROR]') && line.length > '[ERROR]'.length)
+  ));
+
+  if (errorLines.length === 0) {
+    const failureLines = buildOutput
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => /error/i.test(line));
+    return failureLines.slice(-3).join('\n') || "Build failed";
+  }
+  return errorLines.slice(0, 10).join('\n');
+};
+
+// Count added and removed lines between two versions of a file
+const summarizeFileChange = (filePath: string, before: string | undefined, after: string): FileChangeSummary => {
+  const beforeLines = before === undefined ? [] : before.split('\n');
+  const afterLines = after.split('\n');
+
+  const remaining = new Map<string, number>();
+  beforeLines.forEach(line => remaining.set(line, (remaining.get(line) || 0) + 1));
+
+  let linesAdded = 0;
+  afterLines.forEach(line => {
+    const count = remaining.get(line) || 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+    } else {
+      linesAdded++;
+    }
   });
+  const linesRemoved = Array.from(remaining.values()).reduce((sum, count) => sum + count, 0);
+
+  return {
+    path: filePath,
+    action: before === undefined ? 'added' : 'modified',
+    linesAdded,
+    linesRemoved
+  };
+};
+
+// Append a revision entry to revisions.json and return its number
+function recordRevision(buildId: string, instruction: string, changes: FileChangeSummary[]): number {
+  const revisionsContent = readInternalFile(buildId, 'revisions.json');
+  const revisions: RevisionRecord[] = revisionsContent ? JSON.parse(revisionsContent) : [];
+
+  const revision = revisions.length + 1;
+  revisions.push({ revision, instruction, createdAt: new Date().toISOString(), changes, promptVersions: usedPromptVersions() });
+  writeInternalFile(buildId, 'revisions.json', JSON.stringify(revisions, null, 2));
+
+  return revision;
 }
 
 // Process Java file content with optimized batch replacements
@@ -232,9 +496,6 @@ const processJavaFile = (filePath: string, content: string, pluginName: string):
 
   // Apply all transformations in one pass for efficiency
   let result = content
-    // Fix invalid API calls
-    .replace(/pig\.setAngry\(([^)]+)\)/g, 
-      '// Pig.setAngry() doesn\'t exist in Bukkit API \n    pig.setPersistent(true);\n    pig.setCustomName("Angry Pig");\n    pig.setMetadata("angry", new FixedMetadataValue(plugin, true));')
     // Remove JetBrains annotations
     .replace(/import org\.jetbrains\.annotations\.[^;]*;(\r?\n|\r)?/g, "")
     .replace(/@NotNull |@Nullable /g, "")
@@ -243,14 +504,6 @@ const processJavaFile = (filePath: string, content: string, pluginName: string):
     .replace(/com\.pegasus\.plugin/g, `com.pegasus.${pluginName.toLowerCase()}`)
     .replace(/yourusername/g, "pegasus");
 
-  // Add metadata import if needed
-  if (result.includes("setMetadata") && !result.includes("import org.bukkit.metadata.FixedMetadataValue")) {
-    const importSection = result.match(/(import .+;\n\n)/);
-    if (importSection) {
-      result = result.replace(importSection[0], importSection[0] + "import org.bukkit.metadata.FixedMetadataValue;\n");
-    }
-  }
-
   // Fix package if needed
   if (packageName && !result.trim().startsWith("package")) {
     result = `package ${packageName};\n\n${result}`;
@@ -261,7 +514,11 @@ const processJavaFile = (filePath: string, content: string, pluginName: string):
 
 // Add this function after the processJavaFile function
 
-async function validatePluginFiles(files: Record<string, string>, pluginName: string): Promise<Record<string, string>> {
+async function validatePluginFiles(
+  files: Record<string, string>,
+  pluginName: string,
+  target: ResolvedTarget
+): Promise<Record<string, string>> {
   console.log("Validating plugin files before compilation...");
   
   // Create a copy of files to avoid modifying the original
@@ -317,39 +574,22 @@ async function validatePluginFiles(files: Record<string, string>, pluginName: st
   // Fix plugin.yml
   const pluginYmlPath = Object.keys(files).find(path => path.endsWith('plugin.yml'));
   if (pluginYmlPath && mainClassPath && packageName) {
-    const pluginYml = files[pluginYmlPath];
     const fullMainClass = `${packageName}.${mainClassPath}`;
     
-    // Build a properly formatted plugin.yml with the correct main class
-    let updatedPluginYml = pluginYml;
+    // Correct name and main class, a default version and the target's API version (for Minecraft 1.13+)
+    const { content, errors } = updatePluginYml(files[pluginYmlPath], plugin => ({
+      ...plugin,
+      name: pluginName,
+      main: fullMainClass,
+      version: plugin.version || "1.0",
+      apiVersion: target.apiVersion
+    }));
     
-    // Ensure name is correct
-    if (!updatedPluginYml.includes(`name: ${pluginName}`)) {
-      updatedPluginYml = updatedPluginYml.replace(/name: .*/, `name: ${pluginName}`);
-      if (!updatedPluginYml.includes("name:")) {
-        updatedPluginYml = `name: ${pluginName}\n${updatedPluginYml}`;
-      }
-    }
-    
-    // Replace or add main class
-    if (updatedPluginYml.includes("main:")) {
-      updatedPluginYml = updatedPluginYml.replace(/main: .*/, `main: ${fullMainClass}`);
-    } else {
-      updatedPluginYml = `${updatedPluginYml}\nmain: ${fullMainClass}`;
-    }
-    
-    // Add basic version if missing
-    if (!updatedPluginYml.includes("version:")) {
-      updatedPluginYml = `${updatedPluginYml}\nversion: 1.0`;
-    }
-    
-    // Add API version if missing (for Minecraft 1.13+)
-    if (!updatedPluginYml.includes("api-version:")) {
-      updatedPluginYml = `${updatedPluginYml}\napi-version: 1.19`;
-    }
-    
-    validatedFiles[pluginYmlPath] = updatedPluginYml;
+    validatedFiles[pluginYmlPath] = content;
     console.log(`Updated plugin.yml with main class: ${fullMainClass}`);
+    if (errors.length > 0) {
+      console.warn(`plugin.yml problems:\n${errors.join('\n')}`);
+    }
   } else if (pluginYmlPath) {
     // If we couldn't find the main class, create a generic warning in plugin.yml
     console.warn("Could not determine main class from Java files!");
@@ -358,11 +598,14 @@ async function validatePluginFiles(files: Record<string, string>, pluginName: st
     const pluginLower = pluginName.toLowerCase();
     const fallbackMainClass = `com.pegasus.${pluginLower}.${pluginName}`;
     
-    validatedFiles[pluginYmlPath] = `name: ${pluginName}
-version: 1.0
-main: ${fallbackMainClass}
-api-version: 1.19
-description: A custom Minecraft plugin`;
+    validatedFiles[pluginYmlPath] = serializePluginYml({
+      ...emptyPluginYml(),
+      name: pluginName,
+      version: "1.0",
+      main: fallbackMainClass,
+      apiVersion: target.apiVersion,
+      description: "A custom Minecraft plugin"
+    });
     
     console.log(`Created fallback plugin.yml with main class: ${fallbackMainClass}`);
   }
@@ -387,33 +630,17 @@ description: A custom Minecraft plugin`;
   
   // Only run validation if we have critical files
   if (Object.keys(criticalFiles).length > 0) {
-    const validationPrompt = `
-      You are a Minecraft plugin validator. Check these critical plugin files for errors that would prevent compilation or loading:
-      
-      ${Object.entries(criticalFiles)
+    const validationPrompt = renderPrompt('validation', {
+      files: Object.entries(criticalFiles)
         .map(([path, content]) => `FILE: ${path}\n${content.substring(0, 1000)}${content.length > 1000 ? '...' : ''}`)
-        .join('\n\n===\n\n')
-      }
-      
-      Focus ONLY on critical errors:
-      1. Ensure the main class in plugin.yml exists and extends JavaPlugin
-      2. Check for syntax errors in Java files
-      3. Verify package names match file paths
-      4. Confirm all required imports exist
-      5. Make sure pom.xml has valid dependencies
-      
-      If you find any errors, return ONLY:
-      ---FILE_START:filepath---
-      [corrected content]
-      ---FILE_END---
-      
-      If no errors, respond with "NO_ERRORS_FOUND".
-    `;
+        .join('\n\n===\n\n'),
+      target: describeTarget(target)
+    });
     
     try {
       console.log("Running AI validation check on critical files...");
       const validationResult = await model.generateContent(validationPrompt);
-      const validationText = await validationResult.response.text();
+      const validationText = validationResult.text;
       
       if (validationText.includes("NO_ERRORS_FOUND")) {
         console.log("AI validation: No critical errors found.");
@@ -440,6 +667,17 @@ description: A custom Minecraft plugin`;
     }
   }
   
+  // The target decides the server API and Java release, whatever the model wrote
+  if (pomPath) {
+    validatedFiles[pomPath] = normalizePom(validatedFiles[pomPath], pluginName, target).content;
+  }
+  if (validatedFiles["build.gradle.kts"]) {
+    validatedFiles["build.gradle.kts"] = applyTargetToGradleBuild(validatedFiles["build.gradle.kts"], target);
+  }
+  if (pluginYmlPath) {
+    validatedFiles[pluginYmlPath] = applyTargetToPluginYml(validatedFiles[pluginYmlPath], target);
+  }
+  
   return validatedFiles;
 }
 
@@ -489,16 +727,7 @@ public class ${pluginName} extends JavaPlugin {
     const pluginYmlPath = Object.keys(files).find(path => path.endsWith('plugin.yml'));
     if (pluginYmlPath) {
       const fullMainClass = `com.pegasus.${pluginLower}.${pluginName}`;
-      let pluginYml = files[pluginYmlPath];
-      
-      // Replace or add main class
-      if (pluginYml.includes("main:")) {
-        pluginYml = pluginYml.replace(/main: .*/, `main: ${fullMainClass}`);
-      } else {
-        pluginYml = `${pluginYml}\nmain: ${fullMainClass}`;
-      }
-      
-      updatedFiles[pluginYmlPath] = pluginYml;
+      updatedFiles[pluginYmlPath] = updatePluginYml(files[pluginYmlPath], plugin => ({ ...plugin, main: fullMainClass })).content;
     }
     
     console.log(`Created main class: ${mainClassPath}`);
@@ -518,20 +747,10 @@ async function extractPluginName(prompt: string): Promise<string> {
   try {
     const model = getModel(MODEL_CONFIG.flash, MODEL_CONFIG.flash.precision);
     
-    const namePrompt = `
-      Based on this Minecraft plugin request, determine the BEST, MOST SPECIFIC name for the plugin.
-      The name should be a single word or compound words in PascalCase format (like "WorldGuard" or "EssentialsX").
-      It must contain only letters and numbers, and be descriptive of the plugin's main functionality.
-      
-      USER REQUEST:
-      "${prompt}"
-      
-      Return ONLY the plugin name without any explanation, quotes, or additional text.
-      Example responses: "TeleportPlus", "ChestProtector", "ServerEssentials"
-    `;
+    const namePrompt = renderPrompt('name', { request: prompt });
     
     const nameResult = await model.generateContent(namePrompt);
-    const suggestedName = await nameResult.response.text();
+    const suggestedName = nameResult.text;
     
     // Clean up the response
     const cleanName = suggestedName
@@ -552,10 +771,177 @@ async function extractPluginName(prompt: string): Promise<string> {
   }
 }
 
+// Diagnostics that are usually fixed in the build file rather than where they are reported
+const needsBuildFileFix = (diagnostic: Diagnostic): boolean =>
+  ['pom', 'gradle', 'dependency'].includes(diagnostic.kind) || /package [\w.]+ does not exist/.test(diagnostic.message);
+
+// The file declaring dependencies: pom.xml or the Gradle build script
+const findMainBuildFile = (files: Record<string, string>): string | null =>
+  ["pom.xml", "build.gradle.kts", "build.gradle"].find(filePath => files[filePath] !== undefined) || null;
+
+/**
+ * Parses the build errors and picks the files the model needs to see:
+ * the files with errors (the build file for dependency problems) plus the project classes they reference
+ */
+const selectFixContext = (buildErrors: string, files: Record<string, string>) => {
+  const projectFiles = Object.keys(files);
+  const buildFile = findMainBuildFile(files);
+  const diagnostics = parseDiagnostics(buildErrors).map(diagnostic => ({
+    ...diagnostic,
+    file: resolveDiagnosticFile(diagnostic.file, projectFiles) ||
+      diagnostic.file ||
+      (diagnostic.kind === 'dependency' ? buildFile : null)
+  }));
+  const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+
+  const affectedFiles = [...new Set(errors
+    .map(diagnostic => diagnostic.file)
+    .filter((file): file is string => !!file && files[file] !== undefined))];
+  if (buildFile && !affectedFiles.includes(buildFile) && errors.some(needsBuildFileFix)) {
+    affectedFiles.push(buildFile);
+  }
+
+  const referencedFiles = findReferencedFiles(files, affectedFiles, errors);
+  return { diagnostics, errors, affectedFiles, referencedFiles, buildFile };
+};
+
+// Map each fixed file to the diagnostics reported against it
+const matchAddressedDiagnostics = (
+  fixedFiles: string[],
+  diagnostics: Diagnostic[],
+  buildFile: string | null
+): Record<string, string[]> =>
+  Object.fromEntries(fixedFiles.map(filePath => [
+    filePath,
+    diagnostics
+      .filter(diagnostic => diagnostic.file === filePath || (filePath === buildFile && needsBuildFileFix(diagnostic)))
+      .map(diagnostic => diagnostic.id)
+  ]));
+
+/**
+ * Asks the model to fix build errors and returns only the files it changed.
+ * Server API findings for the target are included so invented API calls get replaced.
+ */
+async function fixBuildErrors(
+  buildErrors: string,
+  files: Record<string, string>,
+  target: ResolvedTarget = resolveTarget()
+): Promise<FixResult> {
+  const { diagnostics, errors, affectedFiles, referencedFiles, buildFile } = selectFixContext(buildErrors, files);
+  const apiFindings = checkApiUsage(files, target);
+  const withDiagnostics = (updatedFiles: Record<string, string>, cached: boolean): FixResult => ({
+    files: updatedFiles,
+    cached,
+    diagnostics,
+    addressed: matchAddressedDiagnostics(Object.keys(updatedFiles), diagnostics, buildFile),
+    apiFindings
+  });
+
+  // The same errors in the same sources for the same target, models and fix template
+  const cacheParts = {
+    buildErrors: hashString(buildErrors),
+    files: hashString(JSON.stringify(Object.entries(files).sort(([a], [b]) => a.localeCompare(b)))),
+    platform: target.platform,
+    mcVersion: target.mcVersion,
+    ...getModelDetails(),
+    promptVersions: currentPromptVersions(['fix'])
+  };
+  const cacheKey = createCacheKey('fix', cacheParts);
+  const cachedResult = getCached<Record<string, string>>('fix', cacheKey);
+  if (cachedResult) {
+    console.log("Returning cached fix result");
+    return withDiagnostics(cachedResult.value, true);
+  }
+
+  // Without diagnostics that point at project files, fall back to sending every file and the raw log
+  const targeted = affectedFiles.length > 0;
+  const relevantFiles = targeted
+    ? [...new Set([...affectedFiles, ...apiFindings.map(finding => finding.file)])]
+    : Object.keys(files);
+  console.log(`Parsed ${diagnostics.length} diagnostics; sending ${relevantFiles.length} files and ${referencedFiles.length} referenced classes`);
+
+  // Model selection based on error complexity
+  const isComplexError = targeted
+    ? errors.length > 3 || relevantFiles.length + referencedFiles.length > 5
+    : buildErrors.length > 500 || relevantFiles.length > 5;
+  const modelConfig = isComplexError ? MODEL_CONFIG.pro : MODEL_CONFIG.flash;
+  const model = getModel(modelConfig, modelConfig.precision);
+
+  const diagnosticSection = diagnostics.length > 0
+    ? diagnostics.map(formatDiagnostic).join("\n")
+    : buildErrors;
+
+  // Line-annotated snippets around every reported location
+  const snippetSection = relevantFiles
+    .map(filePath => {
+      const lineNumbers = errors
+        .filter(diagnostic => diagnostic.file === filePath && diagnostic.line)
+        .map(diagnostic => diagnostic.line!);
+      return lineNumbers.length > 0 ? `FILE: ${filePath}\n${annotateSnippet(files[filePath], lineNumbers)}` : "";
+    })
+    .filter(Boolean)
+    .join("\n\n");
+
+  const fileListSection = relevantFiles
+    .map(filePath => `FILE: ${filePath}\n${files[filePath]}\n\n`)
+    .join("---\n");
+
+  const referencedSection = referencedFiles
+    .map(filePath => `FILE: ${filePath}\n${files[filePath]}\n\n`)
+    .join("---\n");
+
+  const fixPrompt = renderPrompt('fix', {
+    diagnostics: diagnosticSection,
+    rawOutput: !targeted && diagnostics.length > 0 ? `\nRAW BUILD OUTPUT:\n${buildErrors}\n` : "",
+    snippets: snippetSection ? `\nERROR LOCATIONS (lines marked with >> are the reported lines):\n${snippetSection}\n` : "",
+    apiFindings: apiFindings.length > 0
+      ? `\nSERVER API CHECK (${describeTarget(target)}). These classes, methods and constants do not exist ` +
+        `as written; use the suggestions or other real API calls instead:\n${apiFindings.map(formatApiFinding).join("\n")}\n`
+      : "",
+    files: fileListSection,
+    referencedFiles: referencedSection
+      ? `\nClasses referenced by these files, for context. Only change them if the fix requires it:\n\n${referencedSection}\n`
+      : ""
+  });
+
+  console.log("Sending fix request to Gemini API");
+  const fixResult = await model.generateContent(fixPrompt);
+  const fixedContent = fixResult.text;
+  console.log("Received fix response from Gemini API");
+
+  // Extract fixed files efficiently
+  const updatedFiles: Record<string, string> = {};
+  let fileMatch;
+  
+  // Reset RegExp state for reuse
+  FILE_PATTERN.lastIndex = 0;
+  while ((fileMatch = FILE_PATTERN.exec(fixedContent)) !== null) {
+    const filePath = fileMatch[1].trim();
+    let content = cleanContent(fileMatch[2].trim());
+
+    // Process Java files specially
+    if (filePath.endsWith(".java")) {
+      content = content
+        .replace(/^package\s+(.+?)\s*;\s*```/gm, "package $1;")
+        .replace(/```\s*package/g, "package");
+    }
+
+    updatedFiles[filePath] = content;
+    console.log(`🔧 Fixed file: ${filePath}`);
+  }
+
+  setCached('fix', cacheKey, cacheParts, updatedFiles);
+
+  return withDiagnostics(updatedFiles, false);
+}
+
 // Fix routes - optimized for build error resolution
 fixRoutes.post(
   "/",
   verifyToken,
+  requireScope('fix'),
+  rateLimit,
+  enforceTokenBudget,
   async (req: Request, res: Response): Promise<void> => {
     try {
       // Validate request
@@ -569,117 +955,57 @@ fixRoutes.post(
         return;
       }
 
+      // Server API the files are checked against
+      const requestedTarget: Partial<PluginTarget> = req.body.target || {};
+      const targetError = getTargetError(requestedTarget);
+      if (targetError) {
+        res.status(400).json({
+          status: "fail",
+          success: false,
+          message: targetError,
+        });
+        return;
+      }
+
       console.log("Received build errors for fixing");
 
-      // Check cache with efficient hashing
-      const cacheKey = hashString(buildErrors + Object.keys(files).join());
-      const cachedResult = pluginCache.get(cacheKey);
-      if (cachedResult) {
-        console.log("Returning cached fix result");
+      const { files: updatedFiles, cached, diagnostics, addressed, apiFindings } = await fixBuildErrors(
+        buildErrors,
+        files,
+        resolveTarget(requestedTarget)
+      );
+
+      // Diagnostics that none of the returned files account for
+      const addressedIds = new Set(Object.values(addressed).flat());
+      const unaddressed = diagnostics
+        .filter(diagnostic => diagnostic.severity === 'error' && !addressedIds.has(diagnostic.id))
+        .map(diagnostic => diagnostic.id);
+
+      if (cached) {
         res.status(200).json({
           status: "success",
           success: true,
           message: "Files fixed successfully (cached)",
-          data: cachedResult
+          data: updatedFiles,
+          diagnostics,
+          addressed,
+          unaddressed,
+          apiFindings
         });
         return;
       }
 
-      // Model selection based on error complexity
-      const isComplexError = buildErrors.length > 500 || Object.keys(files).length > 5;
-      const modelConfig = isComplexError ? MODEL_CONFIG.pro : MODEL_CONFIG.flash;
-      const model = getModel(modelConfig, modelConfig.precision);
-
-      // Optimize file selection for analysis
-      const relevantFiles: Record<string, string> = {};
-      const errorMentionsFile = (error: string, fileName: string) => 
-        error.includes(fileName) || error.toLowerCase().includes(fileName.toLowerCase());
-      
-      // First pass: include files directly mentioned in errors
-      Object.entries(files).forEach(([path, content]) => {
-        const fileName = path.split('/').pop() || path;
-        if (errorMentionsFile(buildErrors, fileName)) {
-          relevantFiles[path] = content as string;
-        }
-      });
-      
-      // Second pass: if no directly mentioned files, include all
-      if (Object.keys(relevantFiles).length === 0) {
-        Object.entries(files).forEach(([path, content]) => {
-          relevantFiles[path] = content as string;
-        });
-      }
-      
-      // Always include pom.xml if it exists
-      if (files["pom.xml"] && !relevantFiles["pom.xml"]) {
-        relevantFiles["pom.xml"] = files["pom.xml"] as string;
-      }
-
-      // Optimized prompt construction
-      const fileListSection = Object.entries(relevantFiles)
-        .map(([path, content]) => `FILE: ${path}\n${content}\n\n`)
-        .join("---\n");
-
-      const fixPrompt = `
-      You are a Minecraft plugin build error expert. A plugin build has failed with the following errors:
-      
-      BUILD ERRORS:
-      ${buildErrors}
-      
-      Relevant project files are provided below. Analyze the build errors and fix ALL problematic files.
-      Pay special attention to XML/POM parsing errors, which often indicate malformed XML.
-      
-      ${fileListSection}
-      
-      Return ONLY the files that need fixing in this format:
-      ---FILE_START:filepath---
-      [corrected content here]
-      ---FILE_END---
-      
-      IMPORTANT: Do NOT include backticks or markdown formatting in your response.
-      DO NOT wrap code in \`\`\` blocks - the content should be raw code only.
-      
-      Return MULTIPLE file fixes if needed, with each file's content between its own start/end markers.
-      Focus on fixing the ROOT CAUSE of the build failure first (like XML syntax errors in pom.xml).
-    `;
-
-      console.log("Sending fix request to Gemini API");
-      const fixResult = await model.generateContent(fixPrompt);
-      const fixedContent = await fixResult.response.text();
-      console.log("Received fix response from Gemini API");
-
-      // Extract fixed files efficiently
-      const updatedFiles: Record<string, string> = {};
-      let fileMatch;
-      
-      // Reset RegExp state for reuse
-      FILE_PATTERN.lastIndex = 0;
-      while ((fileMatch = FILE_PATTERN.exec(fixedContent)) !== null) {
-        const filePath = fileMatch[1].trim();
-        let content = cleanContent(fileMatch[2].trim());
-
-        // Process Java files specially
-        if (filePath.endsWith(".java")) {
-          content = content
-            .replace(/pig\.setAngry\(([^)]+)\)/g, "// TODO: Pig.setAngry() doesn't exist in Bukkit API - implement custom behavior\n    // pig.setAngry($1)")
-            .replace(/^package\s+(.+?)\s*;\s*```/gm, "package $1;")
-            .replace(/```\s*package/g, "package");
-        }
-
-        updatedFiles[filePath] = content;
-        console.log(`🔧 Fixed file: ${filePath}`);
-      }
-
-      // Cache the result
-      pluginCache.set(cacheKey, updatedFiles);
-
       // Send response
       res.status(200).json({
         status: "success",
         success: true,
         message: "Files fixed successfully",
         data: updatedFiles,
-        changedFiles: Object.keys(updatedFiles).length
+        changedFiles: Object.keys(updatedFiles).length,
+        diagnostics,
+        addressed,
+        unaddressed,
+        apiFindings
       });
     } catch (error) {
       console.error("Error fixing build issues:", error);
@@ -693,492 +1019,732 @@ fixRoutes.post(
   }
 );
 
-// Create routes - optimized for plugin generation
-createRoutes.post(
-  "/",
-  verifyToken,
-  async (req: Request, res: Response): Promise<void> => {
-    // Get and validate prompt and buildId
-    const { prompt, buildId: requestBuildId } = req.body;
-    if (!prompt) {
-      res.status(400).json(formatApiResponse(
-        false,
-        "Request must contain a prompt field"
-      ));
-      return;
-    }
+/**
+ * Runs the generation stages (name extraction, refine + blueprint, file list,
+ * multi-file generation and consistency check) for a prompt. With a scaffold, requested
+ * or picked by the blueprint, the model only writes the feature classes.
+ */
+async function generatePluginFiles(
+  prompt: string,
+  buildId: string,
+  target: ResolvedTarget,
+  buildSystem: BuildSystem,
+  requestedScaffold?: ScaffoldId | 'none'
+): Promise<GeneratedPlugin> {
+  // Get models using precompiled configurations
+  const proModel = getModel(MODEL_CONFIG.pro, MODEL_CONFIG.pro.creative);
+  const flashModel = getModel(MODEL_CONFIG.flash, MODEL_CONFIG.flash.creative);
+
+  // First extract a proper plugin name using AI
+  const pluginName = await trackStage(buildId, 'name', () => extractPluginName(prompt));
+  const pluginLower = pluginName.toLowerCase();
 
-    // Declare these variables at the start of the function
-    let compilationResult: CompileResult | null = null;
-    let buildId: string = requestBuildId || `plugin-${Date.now()}`;
+  console.log(`Using plugin name: ${pluginName}`);
+  emitBuildEvent(buildId, { type: 'plugin:name', pluginName });
+
+  const requestedScaffoldProject = isScaffoldId(requestedScaffold) ? createScaffold(requestedScaffold, pluginName, target, buildSystem) : null;
+
+  // Both prompts use the extracted plugin name so the stages agree on it
+  const refiningPrompt = renderPrompt('refine', { request: prompt, pluginName, target: describeTarget(target) });
+
+  // The blueprint is designed from the refined specification, so the specification comes first
+  console.log("Refining the request and designing the blueprint...");
+  const pluginBlueprint = await trackStage(buildId, 'blueprint', async () => {
+    const refinedPrompt = (await flashModel.generateContent(refiningPrompt)).text;
+    const blueprintPrompt = renderPrompt('blueprint', {
+      request: prompt,
+      specification: refinedPrompt,
+      pluginName,
+      pluginLower,
+      target: describeTarget(target),
+      buildSystem: buildSystem === 'gradle' ? "Gradle (Kotlin DSL) with the shadow plugin" : "Maven",
+      platform: target.platform,
+      mcVersion: target.mcVersion,
+      scaffold: requestedScaffoldProject
+        ? `Fixed: ${requestedScaffoldProject.id}. The build file, plugin.yml and main class already exist; design the feature classes below and any helpers they need.\n` +
+          requestedScaffoldProject.features.map(formatFeatureFile).join('\n')
+        : requestedScaffold === 'none'
+          ? "None. Design every file, including the build file, plugin.yml and main class."
+          : `Start the blueprint with a line "SCAFFOLD: <id>" naming the skeleton that fits the request best, ` +
+            `or "SCAFFOLD: none" if none fits. A skeleton provides the build file, plugin.yml and main class:\n${describeScaffoldChoices()}`
+    });
+    return (await flashModel.generateContent(blueprintPrompt)).text;
+  });
+  console.log("Blueprint complete");
 
-    // Add this to your createRoutes.post handler right after checking the prompt
-    if (req.query.async === 'true' || req.body.async === true) {
-      // Send an immediate response with the build ID
-      res.status(202).json(formatApiResponse(
-        true,
-        "Plugin generation started",
-        {
-          buildId,
-          status: "pending",
-          statusCheckUrl: `/api/build/status/${buildId}`
-        }
-      ));
-      
-      // Continue processing in the background
-      (async () => {
-        try {
-          // Your existing plugin generation code...
-          // Just don't send any more responses
-          console.log(`Background processing for build ${buildId} completed`);
-        } catch (error) {
-          console.error(`Background processing error for ${buildId}:`, error);
-        }
-      })().catch(error => console.error("Unhandled background error:", error));
-      
-      return; // Return early - response already sent
-    }
+  // Without a requested scaffold the blueprint picks one, or none
+  const pickedScaffold = requestedScaffold === undefined ? parseScaffoldChoice(pluginBlueprint) : null;
+  const scaffold = requestedScaffoldProject || (pickedScaffold && createScaffold(pickedScaffold, pluginName, target, buildSystem));
+  if (scaffold) {
+    console.log(`Using the ${scaffold.id} scaffold`);
+  }
 
-    try {
-      // Check cache
-      const cacheKey = hashString(prompt);
-      const cachedResult = pluginCache.get(cacheKey);
+  // Get file list with optimized prompt
+  console.log("Extracting file list...");
+  const fileListPrompt = renderPrompt('fileList', {
+    blueprint: pluginBlueprint.substring(0, 4000),
+    exampleFiles: `${buildSystem === 'maven' ? '"pom.xml", ' : ''}"src/main/resources/plugin.yml", "src/main/java/com/pegasus/pluginname/Main.java"`,
+    requiredFiles: `${buildSystem === 'maven' ? 'pom.xml, ' : ''}plugin.yml`
+  });
+
+  const fileListResult = await trackStage(buildId, 'fileList', () => flashModel.generateContent(fileListPrompt));
+  const fileListText = fileListResult.text;
 
-      if (cachedResult) {
-        console.log("Returning cached plugin result");
-        const pluginName = Object.keys(cachedResult).find(file => file.endsWith('.java'))?.split('/').pop()?.replace('.java', '') || 'Plugin';
+  // Extract file structure with optimized algorithm
+  let fileStructure: string[] = [];
+  try {
+    // Try multiple extraction methods in order of reliability
+    let jsonArray: string | null = null;
+    
+    // Method 1: Standard JSON pattern
+    const standardMatch = JSON_ARRAY_PATTERN.exec(fileListText);
+    if (standardMatch) {
+      jsonArray = standardMatch[0];
+    } 
+    // Method 2: Bracketed content
+    else {
+      const openBracketIndex = fileListText.indexOf('[');
+      const closeBracketIndex = fileListText.lastIndexOf(']');
+      
+      if (openBracketIndex !== -1 && closeBracketIndex !== -1 && openBracketIndex < closeBracketIndex) {
+        jsonArray = fileListText.substring(openBracketIndex, closeBracketIndex + 1);
+      }
+    }
+    
+    // Parse JSON if found
+    if (jsonArray) {
+      try {
+        fileStructure = JSON.parse(jsonArray);
         
-        res.status(200).json({
-          status: "success",
-          success: true,
-          message: "Minecraft plugin generated successfully (cached)",
-          data: cachedResult,
-          pluginName: pluginName,
-          files: Object.keys(cachedResult)
+        // Validate array content
+        if (!Array.isArray(fileStructure) || fileStructure.some(item => typeof item !== 'string')) {
+          throw new Error("Invalid array structure");
+        }
+        
+        // Fix paths if needed
+        const pluginLower = pluginName.toLowerCase();
+        fileStructure = fileStructure.map(path => {
+          if (path.endsWith(".java") && !path.includes("/")) {
+            return `src/main/java/com/pegasus/${pluginLower}/${path}`;
+          }
+          if ((path === "plugin.yml" || path === "config.yml") && !path.includes("/")) {
+            return `src/main/resources/${path}`;
+          }
+          return path;
         });
-        return;
+      } catch (parseError) {
+        console.warn("JSON parse error:", parseError);
+        throw parseError;
       }
+    } 
+    // Method 3: Extract by file extension
+    else {
+      FILE_EXTENSION_PATTERN.lastIndex = 0;
+      const fileMatches = fileListText.match(FILE_EXTENSION_PATTERN);
+      
+      if (fileMatches && fileMatches.length > 0) {
+        fileStructure = [...new Set(fileMatches)]; // Remove duplicates
+      } else {
+        throw new Error("No file references found");
+      }
+    }
+    
+    // Ensure we have files
+    if (fileStructure.length === 0) {
+      throw new Error("Empty file list");
+    }
+  } catch (e) {
+    // Fallback to default structure
+    const pluginLower = pluginName.toLowerCase();
+    fileStructure = [
+      "pom.xml",
+      "src/main/resources/plugin.yml",
+      `src/main/java/com/pegasus/${pluginLower}/Main.java`,
+    ];
+    console.log("Using default file structure due to error:", e);
+  }
 
-      const startTime = Date.now();
+  // Gradle build files come from a template rather than the model
+  if (buildSystem === 'gradle') {
+    fileStructure = fileStructure.filter(filePath => !isBuildFile(filePath));
+  }
 
-      // Get models using precompiled configurations
-      const proModel = getModel(MODEL_CONFIG.pro, MODEL_CONFIG.pro.creative);
-      const flashModel = getModel(MODEL_CONFIG.flash, MODEL_CONFIG.flash.creative);
+  // The scaffold's files are fixed; its feature files are always generated
+  if (scaffold) {
+    fileStructure = [...new Set([
+      ...scaffold.features.map(feature => feature.path),
+      ...fileStructure.filter(filePath => scaffold.files[filePath] === undefined && !isBuildFile(filePath) && !filePath.endsWith("plugin.yml"))
+    ])];
+  }
 
-      // First extract a proper plugin name using AI
-      const pluginName = await extractPluginName(prompt);
-      const pluginLower = pluginName.toLowerCase();
+  console.log("Files to generate:", fileStructure);
+  emitBuildEvent(buildId, { type: 'files:planned', fileStructure });
+
+  // Generate all files with optimized prompt
+  const multiFileGenPrompt = scaffold ? renderPrompt('generateFeatures', {
+    blueprint: pluginBlueprint,
+    pluginName,
+    pluginLower,
+    skeleton: Object.entries(scaffold.files).map(([filePath, content]) => `FILE: ${filePath}\n${content}`).join("\n\n"),
+    features: scaffold.features.map(formatFeatureFile).join("\n"),
+    files: fileStructure.join("\n"),
+    platform: target.platform,
+    mcVersion: target.mcVersion
+  }) : renderPrompt('generate', {
+    blueprint: pluginBlueprint,
+    pluginName,
+    pluginLower,
+    files: fileStructure.join("\n"),
+    buildGuidelines: buildSystem === 'gradle'
+      ? `- Do NOT create pom.xml or Gradle build files, they are generated separately\n- Server API: ${describeTarget(target)}`
+      : `- For pom.xml: ${describeTarget(target)}, Maven Shade Plugin 3.5.1\n- Repository for the API: ${target.repository.url}`,
+    apiVersion: target.apiVersion,
+    platform: target.platform,
+    mcVersion: target.mcVersion
+  });
 
-      console.log(`Using plugin name: ${pluginName}`);
+  const multiFileResult = await trackStage(buildId, 'generate', () => proModel.generateContent(multiFileGenPrompt));
+  const multiFileResponse = multiFileResult.text;
 
-      // Optimized prompts with consistent plugin name
-      const refiningPrompt = `
-        You are a Minecraft plugin requirements analyst. The user has provided this plugin request:
-        
-        "${prompt}"
-        
-        We've determined the plugin name will be: ${pluginName}
-        
-        Your task is to refine and expand this request into a clear, detailed specification.
-        
-        // rest of your prompt...
-      `;
+  // Extract and process files efficiently
+  const files: Record<string, string> = {};
+  let fileMatch;
+  
+  // Reset RegExp lastIndex for reuse
+  FILE_PATTERN.lastIndex = 0;
+  while ((fileMatch = FILE_PATTERN.exec(multiFileResponse)) !== null) {
+    const filePath = fileMatch[1].trim();
+    let fileContent = cleanContent(fileMatch[2].trim());
+
+    // Apply type-specific processing
+    if (filePath.endsWith(".java")) {
+      fileContent = processJavaFile(filePath, fileContent, pluginName);
+    } else if (filePath === "pom.xml") {
+      // Coordinates, target and shade plugin follow the house standard; malformed XML is reported before compiling
+      const normalized = normalizePom(fileContent, pluginName, target);
+      fileContent = normalized.content;
+      normalized.diagnostics.forEach(diagnostic => console.warn(`pom.xml: ${formatDiagnostic(diagnostic)}`));
+    } else if (filePath.endsWith(".xml")) {
+      fileContent = fileContent.replace(/^[^<]*(<\?xml|<[A-Za-z])/, "$1");
+      if (!fileContent.startsWith("<?xml")) {
+        fileContent = '<?xml version="1.0" encoding="UTF-8"?>\n' + fileContent;
+      }
+    } else if (filePath.endsWith("plugin.yml")) {
+      // Fix plugin.yml; the main class is validated later, once the Java files exist
+      fileContent = updatePluginYml(fileContent, plugin => ({
+        ...plugin,
+        name: pluginName,
+        version: plugin.version || "1.0",
+        apiVersion: target.apiVersion
+      })).content;
+    }
+
+    // General fixes for any file type
+    fileContent = fileContent
+      .replace(/com\.yourusername/g, `com.pegasus.${pluginLower}`)
+      .replace(/com\.pegasus\.plugin/g, `com.pegasus.${pluginLower}`)
+      .replace(/yourusername/g, "pegasus");
+
+    files[filePath] = fileContent;
+    console.log(`Generated: ${filePath}`);
+    emitBuildEvent(buildId, { type: 'file:generated', filePath, size: fileContent.length });
+  }
+
+  // Fallback to individual generation if needed
+  if (Object.keys(files).length === 0) {
+    console.warn("Falling back to individual file generation");
+    
+    // Generate each file separately in parallel for speed
+    const filePromises = fileStructure.map(async (filePath) => {
+      const singleFilePrompt = renderPrompt('singleFile', {
+        blueprint: pluginBlueprint.substring(0, 3000),
+        pluginName,
+        pluginLower,
+        filePath,
+        target: describeTarget(target)
+      });
       
-      const blueprintPrompt = `
-        You are a Minecraft plugin architect tasked with creating a complete, cohesive plugin blueprint.
-        
-        PLUGIN REQUIREMENTS:
-        ${prompt}
-        
-        PLUGIN NAME: ${pluginName}
-        
-        Your task is to create a COMPLETE PLUGIN BLUEPRINT that ensures all files work together consistently.
-        
-        PART 1: ARCHITECTURE
-        - Use "${pluginName}" as the plugin name and main class name
-        - Package structure (always use com.pegasus.${pluginLower} format)
-        
-        // rest of your prompt...
-      `;
-
-      // Run in parallel for speed
-      console.log("Starting parallel generation...");
-      const [refinedPromptResult, blueprintResult] = await Promise.all([
-        flashModel.generateContent(refiningPrompt),
-        flashModel.generateContent(blueprintPrompt)
-      ]);
-
-      const refinedPrompt = await refinedPromptResult.response.text();
-      const pluginBlueprint = await blueprintResult.response.text();
-      console.log("Parallel generation complete");
-
-      // Get file list with optimized prompt
-      console.log("Extracting file list...");
-      const fileListPrompt = `
-        Based on this plugin blueprint, extract all files that need to be created.
-        
-        BLUEPRINT EXCERPT:
-        ${pluginBlueprint.substring(0, 4000)}
-        
-        I need your response in a valid JSON array format ONLY, like this exact format:
-        ["pom.xml", "src/main/resources/plugin.yml", "src/main/java/com/pegasus/pluginname/Main.java"]
-        
-        Include all necessary files: pom.xml, plugin.yml, config.yml (if needed), and ALL Java class files.
-        Return ONLY the JSON array with no additional text, explanations, or formatting.
-      `;
+      const singleFileResult = await flashModel.generateContent(singleFilePrompt);
+      const singleFileContent = singleFileResult.text;
+      const cleanedContent = cleanContent(singleFileContent);
+      
+      // Build files still follow the target
+      if (filePath.endsWith("pom.xml")) {
+        return { filePath, content: normalizePom(cleanedContent, pluginName, target).content };
+      }
+      if (filePath.endsWith("plugin.yml")) {
+        return { filePath, content: applyTargetToPluginYml(cleanedContent, target) };
+      }
+      return { filePath, content: cleanedContent };
+    });
+    
+    // Wait for all files to be generated
+    const fileResults = await trackStage(buildId, 'generate', () => Promise.all(filePromises));
+    fileResults.forEach(({ filePath, content }) => {
+      files[filePath] = content;
+      emitBuildEvent(buildId, { type: 'file:generated', filePath, size: content.length });
+    });
+  }
+
+  // Whatever the model wrote at the scaffold's paths, the skeleton wins
+  if (scaffold) {
+    Object.entries(scaffold.files).forEach(([filePath, content]) => {
+      files[filePath] = content;
+      emitBuildEvent(buildId, { type: 'file:generated', filePath, size: content.length });
+    });
+  }
 
-      const fileListResult = await flashModel.generateContent(fileListPrompt);
-      const fileListText = await fileListResult.response.text();
+  // Check references between the files; what can't be fixed deterministically goes to the model
+  if (Object.keys(files).length > 1) {
+    try {
+      await trackStage(buildId, 'consistency', async () => {
+        const { files: checkedFiles, fixed, remaining } = resolveConsistency(files);
+        Object.assign(files, checkedFiles);
+        fixed.forEach(issue => console.log(`Consistency fixed: ${formatConsistencyIssue(issue)}`));
 
-      // Extract file structure with optimized algorithm
-      let fileStructure: string[] = [];
-      try {
-        // Try multiple extraction methods in order of reliability
-        let jsonArray: string | null = null;
-        
-        // Method 1: Standard JSON pattern
-        const standardMatch = JSON_ARRAY_PATTERN.exec(fileListText);
-        if (standardMatch) {
-          jsonArray = standardMatch[0];
-        } 
-        // Method 2: Bracketed content
-        else {
-          const openBracketIndex = fileListText.indexOf('[');
-          const closeBracketIndex = fileListText.lastIndexOf(']');
-          
-          if (openBracketIndex !== -1 && closeBracketIndex !== -1 && openBracketIndex < closeBracketIndex) {
-            jsonArray = fileListText.substring(openBracketIndex, closeBracketIndex + 1);
-          }
+        if (fixed.length === 0 && remaining.length === 0) {
+          console.log("Consistency check: no issues found");
+          return;
         }
-        
-        // Parse JSON if found
-        if (jsonArray) {
-          try {
-            fileStructure = JSON.parse(jsonArray);
-            
-            // Validate array content
-            if (!Array.isArray(fileStructure) || fileStructure.some(item => typeof item !== 'string')) {
-              throw new Error("Invalid array structure");
-            }
-            
-            // Fix paths if needed
-            const pluginLower = pluginName.toLowerCase();
-            fileStructure = fileStructure.map(path => {
-              if (path.endsWith(".java") && !path.includes("/")) {
-                return `src/main/java/com/pegasus/${pluginLower}/${path}`;
-              }
-              if ((path === "plugin.yml" || path === "config.yml") && !path.includes("/")) {
-                return `src/main/resources/${path}`;
-              }
-              return path;
-            });
-          } catch (parseError) {
-            console.warn("JSON parse error:", parseError);
-            throw parseError;
-          }
-        } 
-        // Method 3: Extract by file extension
-        else {
-          FILE_EXTENSION_PATTERN.lastIndex = 0;
-          const fileMatches = fileListText.match(FILE_EXTENSION_PATTERN);
-          
-          if (fileMatches && fileMatches.length > 0) {
-            fileStructure = [...new Set(fileMatches)]; // Remove duplicates
-          } else {
-            throw new Error("No file references found");
+        emitBuildEvent(buildId, { type: 'consistency:issues', fixed, remaining });
+        if (remaining.length === 0) return;
+
+        console.log(`Fixing ${remaining.length} consistency issues with the model...`);
+        const issueFiles = [...new Set(remaining.map(issue => issue.file))].filter(filePath => files[filePath] !== undefined);
+        const snippets = issueFiles
+          .map(filePath => {
+            const lineNumbers = remaining
+              .filter(issue => issue.file === filePath && issue.line)
+              .map(issue => issue.line!);
+            return lineNumbers.length > 0 ? `FILE: ${filePath}\n${annotateSnippet(files[filePath], lineNumbers)}` : "";
+          })
+          .filter(Boolean)
+          .join("\n\n");
+
+        const consistencyPrompt = renderPrompt('consistency', {
+          issues: remaining.map(formatConsistencyIssue).join("\n"),
+          snippets: snippets || "(none)",
+          declarations: describeReferencedTypes(files, remaining).map(formatTypeDeclarations).join("\n\n") || "(none)",
+          files: issueFiles.map(filePath => `FILE: ${filePath}\n${files[filePath]}`).join("\n\n---\n\n")
+        });
+        const consistencyResult = await flashModel.generateContent(consistencyPrompt);
+
+        let fileMatch;
+        FILE_PATTERN.lastIndex = 0;
+        while ((fileMatch = FILE_PATTERN.exec(consistencyResult.text)) !== null) {
+          const filePath = fileMatch[1].trim();
+          let content = cleanContent(fileMatch[2].trim());
+          if (filePath.endsWith(".java")) {
+            content = processJavaFile(filePath, content, pluginName);
           }
+          files[filePath] = content;
+          console.log(`Consistency fix: ${filePath}`);
         }
-        
-        // Ensure we have files
-        if (fileStructure.length === 0) {
-          throw new Error("Empty file list");
+
+        const unresolved = checkConsistency(files);
+        if (unresolved.length > 0) {
+          console.warn(`${unresolved.length} consistency issues remain; the build will report them:\n${unresolved.map(formatConsistencyIssue).join("\n")}`);
         }
-      } catch (e) {
-        // Fallback to default structure
-        const pluginLower = pluginName.toLowerCase();
-        fileStructure = [
-          "pom.xml",
-          "src/main/resources/plugin.yml",
-          `src/main/java/com/pegasus/${pluginLower}/Main.java`,
-        ];
-        console.log("Using default file structure due to error:", e);
-      }
+      });
+    } catch (e) {
+      console.warn("Consistency check error, continuing with generation:", e);
+    }
+  }
 
-      console.log("Files to generate:", fileStructure);
+  // Replace any build files the model wrote anyway with the Gradle template
+  if (buildSystem === 'gradle') {
+    Object.keys(files).filter(isBuildFile).forEach(filePath => delete files[filePath]);
+    Object.entries(createGradleBuildFiles(pluginName, target)).forEach(([filePath, content]) => {
+      files[filePath] = content;
+      emitBuildEvent(buildId, { type: 'file:generated', filePath, size: content.length });
+    });
+  }
 
-      // Generate all files with optimized prompt
-      const multiFileGenPrompt = `
-        Implement a complete Minecraft plugin based on:
-        
-        BLUEPRINT:
-        ${pluginBlueprint}
-        
-        PLUGIN NAME: ${pluginName}
-        
-        FILES TO CREATE:
-        ${fileStructure.join("\n")}
-        
-        GUIDELINES:
-        - Always use "com.pegasus.${pluginLower}" as root package
-        - Follow blueprint class relationships exactly
-        - No JetBrains annotations
-        - For pom.xml: Spigot 1.19.3 API, Java 11, Maven Shade Plugin 3.4.1
-        - Ensure consistent package names across imports
-        - Make sure all classes compile without errors
-        
-        For EACH file use format:
-        ---FILE_START:filepath---
-        [content]
-        ---FILE_END---
-      `;
-
-      const multiFileResult = await proModel.generateContent(multiFileGenPrompt);
-      const multiFileResponse = await multiFileResult.response.text();
-
-      // Extract and process files efficiently
-      const files: Record<string, string> = {};
-      let fileMatch;
-      
-      // Reset RegExp lastIndex for reuse
-      FILE_PATTERN.lastIndex = 0;
-      while ((fileMatch = FILE_PATTERN.exec(multiFileResponse)) !== null) {
-        const filePath = fileMatch[1].trim();
-        let fileContent = cleanContent(fileMatch[2].trim());
-
-        // Apply type-specific processing
-        if (filePath.endsWith(".java")) {
-          fileContent = processJavaFile(filePath, fileContent, pluginName);
-        } else if (filePath === "pom.xml" || filePath.endsWith(".xml")) {
-          fileContent = fileContent.replace(/^[^<]*(<\?xml|<project)/, "$1");
-          if (!fileContent.startsWith("<?xml")) {
-            fileContent = '<?xml version="1.0" encoding="UTF-8"?>\n' + fileContent;
-          }
-          
-          if (!fileContent.includes(`<artifactId>${pluginLower}</artifactId>`)) {
-            fileContent = fileContent.replace(
-              /<artifactId>(.*?)<\/artifactId>/,
-              `<artifactId>${pluginLower}</artifactId>`
-            );
-          }
-        } else if (filePath.endsWith("plugin.yml")) {
-          // Fix plugin.yml
-          if (!fileContent.includes(`name: ${pluginName}`)) {
-            fileContent = fileContent.replace(/name: .*/, `name: ${pluginName}`);
-            if (!fileContent.includes("name:")) {
-              fileContent = `name: ${pluginName}\n${fileContent}`;
-            }
-          }
-          
-          // Don't set main class here - it will be validated properly later
-          // Just ensure basic format is correct
-          if (!fileContent.includes("version:")) {
-            fileContent += "\nversion: 1.0";
-          }
-          
-          if (!fileContent.includes("api-version:")) {
-            fileContent += "\napi-version: 1.19";
-          }
-        }
+  // Drop anything the model put outside the project's allowed locations
+  const { files: projectFiles, rejected: rejectedFiles } = filterProjectFiles(files);
+  return { pluginName, scaffold: scaffold ? scaffold.id : null, files: projectFiles, rejectedFiles, promptVersions: usedPromptVersions() };
+}
 
-        // General fixes for any file type
-        fileContent = fileContent
-          .replace(/com\.yourusername/g, `com.pegasus.${pluginLower}`)
-          .replace(/com\.pegasus\.plugin/g, `com.pegasus.${pluginLower}`)
-          .replace(/yourusername/g, "pegasus");
+// Validates the generated files against the main class and runs the Maven/Gradle build
+async function compileGeneratedPlugin(
+  prompt: string,
+  files: Record<string, string>,
+  pluginName: string,
+  buildId: string,
+  buildOptions: BuildOptions,
+  target: ResolvedTarget
+): Promise<{ validatedFiles: Record<string, string>; compilationResult: CompileResult }> {
+  console.log(`Compiling plugin with ${buildOptions.buildSystem === 'gradle' ? "Gradle" : "Maven"}...`);
+
+  // First validate plugin.yml against main class before compiling; compilePlugin doesn't validate again
+  const validatedFiles = await trackStage(buildId, 'validate', () => validatePluginFiles(files, pluginName, target));
+  const compilationResult = await trackStage(buildId, 'compile', () =>
+    compilePlugin(prompt, validatedFiles, buildId, buildOptions, target, { validated: true }));
+
+  return { validatedFiles, compilationResult };
+}
 
-        files[filePath] = fileContent;
-        console.log(`Generated: ${filePath}`);
-      }
+// Store generated sources in the build directory and mark the build as generated
+async function saveGeneratedPlugin(buildId: string, prompt: string, generated: GeneratedPlugin, origin: Partial<GenerationOrigin> = {}): Promise<void> {
+  const { cachedFrom = null, reusedFrom = null } = origin;
+  const rejectedFiles = [...generated.rejectedFiles, ...writeProjectFiles(buildId, generated.files)];
+  writeInternalFile(buildId, 'prompt.txt', prompt);
+  const source = reusedFrom ? ` (reused from ${reusedFrom})` : cachedFrom ? ` (cached from ${cachedFrom})` : '';
+  await commitBuild(buildId, `Generate ${generated.pluginName}${source}\n\n${prompt}`);
+
+  updateManifest(buildId, {
+    status: 'generated',
+    pluginName: generated.pluginName,
+    scaffold: generated.scaffold,
+    cachedFrom,
+    reusedFrom,
+    rejectedFiles,
+    pluginYmlErrors: checkPluginYml(generated.files),
+    pomDiagnostics: checkPom(generated.files),
+    promptVersions: generated.promptVersions
+  });
+}
 
-      // Fallback to individual generation if needed
-      if (Object.keys(files).length === 0) {
-        console.warn("Falling back to individual file generation");
-        
-        // Generate each file separately in parallel for speed
-        const filePromises = fileStructure.map(async (filePath) => {
-          const singleFilePrompt = `
-            Create a single Minecraft plugin file based on this blueprint:
-            
-            BLUEPRINT EXCERPT:
-            ${pluginBlueprint.substring(0, 3000)}...
-            
-            PLUGIN NAME: ${pluginName}
-            Generate ONLY this file: ${filePath}
-            Use package: com.pegasus.${pluginLower}
-            
-            Return the complete implementation without explanations or markdown formatting.
-          `;
-          
-          const singleFileResult = await flashModel.generateContent(singleFilePrompt);
-          const singleFileContent = await singleFileResult.response.text();
-          const cleanedContent = cleanContent(singleFileContent);
-          
-          return { filePath, content: cleanedContent };
-        });
-        
-        // Wait for all files to be generated
-        const fileResults = await Promise.all(filePromises);
-        fileResults.forEach(({ filePath, content }) => {
-          files[filePath] = content;
-        });
-      }
+// The final files of an earlier successful build, to save into a new build instead of generating
+function loadReusedPlugin(buildId: string): GeneratedPlugin {
+  const manifest = loadManifest(buildId);
+  const files = readProjectFiles(buildId);
+  const pluginYmlPath = Object.keys(files).find(filePath => filePath.endsWith('plugin.yml'));
 
-      // Perform cross-file validation and cleanup if needed
-      if (Object.keys(files).length > 1) {
-        // Simplified validation - focus on just the first 200 chars of each file
-        const validationSamples = Object.entries(files)
-          .map(([path, content]) => `${path}:\n${content.substring(0, 200)}...[truncated]`)
-          .join("\n\n");
-        
-        const validationPrompt = `
-          Check these Minecraft plugin files for consistency issues:
-          
-          ${validationSamples}
-          
-          Focus ONLY on critical issues: method signature mismatches, inconsistent package names,
-          and missing class imports.
-          
-          Return ONLY JSON: {"status": "consistent"} or {"issues": [{
-            "fileA": "path1",
-            "fileB": "path2", 
-            "issue": "description", 
-            "fix": "solution"
-          }]}
-        `;
-
-        try {
-          const validationResult = await flashModel.generateContent(validationPrompt);
-          const validationText = await validationResult.response.text();
-          
-          // Extract and parse JSON response
-          const match = validationText.match(/\{[\s\S]*\}/);
-          if (match) {
-            const inconsistencies: InconsistencyResponse = JSON.parse(match[0]);
-            
-            // Fix inconsistencies if needed
-            if (inconsistencies.issues && inconsistencies.issues.length > 0) {
-              console.log("Fixing inconsistencies...");
-              
-              // Process each issue
-              for (const issue of inconsistencies.issues) {
-                const { fileA, fileB, issue: issueDesc, fix } = issue;
-                
-                if (issueDesc.toLowerCase().includes("package")) {
-                  // Fix package inconsistencies
-                  const correctPackageMatch = fix.match(/should be ['"]([^'"]+)['"]/);
-                  if (correctPackageMatch && files[fileA] && files[fileB]) {
-                    const correctPackage = correctPackageMatch[1];
-                    
-                    // Apply fixes to both files
-                    files[fileA] = files[fileA].replace(/package\s+[^;]+;/, `package ${correctPackage};`);
-                    files[fileB] = files[fileB].replace(/package\s+[^;]+;/, `package ${correctPackage};`);
-                    
-                    // Fix imports in all files
-                    const wrongPackageMatch = issueDesc.match(/['"]([^'"]+)['"]\s+vs\s+['"]([^'"]+)['"]/);
-                    if (wrongPackageMatch) {
-                      const wrongPackage = issueDesc.includes(fileA) ? wrongPackageMatch[1] : wrongPackageMatch[2];
-                      
-                      Object.keys(files).forEach(file => {
-                        files[file] = files[file].replace(
-                          new RegExp(`import\\s+${wrongPackage}\\.`, 'g'), 
-                          `import ${correctPackage}.`
-                        );
-                      });
-                    }
-                  }
-                }
-              }
-            }
+  return {
+    pluginName: manifest?.pluginName || (pluginYmlPath && parsePluginYml(files[pluginYmlPath]).plugin?.name) || "CustomPlugin",
+    scaffold: isScaffoldId(manifest?.scaffold) ? manifest!.scaffold as ScaffoldId : null,
+    files,
+    rejectedFiles: [],
+    promptVersions: manifest?.promptVersions || {}
+  };
+}
+
+/**
+ * The plugin files for a create request: the files of a similar earlier build when one is reused,
+ * else the cached generation for the same inputs, else a new generation, which is cached
+ */
+async function obtainGeneratedPlugin(
+  buildId: string,
+  prompt: string,
+  target: ResolvedTarget,
+  buildSystem: BuildSystem,
+  scaffold: ScaffoldId | 'none' | undefined,
+  cache: { key: string; parts: Record<string, unknown> },
+  reusedBuild: SimilarBuild | null
+): Promise<{ generated: GeneratedPlugin; origin: GenerationOrigin }> {
+  if (reusedBuild) {
+    console.log(`Reusing build ${reusedBuild.buildId} (similarity ${reusedBuild.similarity})`);
+    return { generated: loadReusedPlugin(reusedBuild.buildId), origin: { cachedFrom: null, reusedFrom: reusedBuild.buildId } };
+  }
+
+  const cached = getCached<GeneratedPlugin>('create', cache.key);
+  if (cached) {
+    console.log(`Using cached plugin files from build ${cached.buildId}`);
+    return { generated: cached.value, origin: { cachedFrom: cached.buildId, reusedFrom: null } };
+  }
+
+  const generated = await generatePluginFiles(prompt, buildId, target, buildSystem, scaffold);
+  setCached('create', cache.key, cache.parts, generated, buildId);
+  return { generated, origin: { cachedFrom: null, reusedFrom: null } };
+}
+
+// Create routes - optimized for plugin generation
+createRoutes.post(
+  "/",
+  verifyToken,
+  requireScope('create'),
+  rateLimit,
+  enforceTokenBudget,
+  async (req: Request, res: Response): Promise<void> => {
+    // Get and validate prompt and buildId
+    const { prompt, buildId: requestBuildId } = req.body;
+    if (!prompt) {
+      res.status(400).json(formatApiResponse(
+        false,
+        "Request must contain a prompt field"
+      ));
+      return;
+    }
+
+    // Declare these variables at the start of the function
+    let compilationResult: CompileResult | null = null;
+    let buildId: string = requestBuildId || `plugin-${Date.now()}`;
+    if (!isValidBuildId(buildId)) {
+      res.status(400).json(formatApiResponse(
+        false,
+        "buildId may only contain letters, digits, dashes and underscores"
+      ));
+      return;
+    }
+    const shouldCompile = req.body.compile === true;
+    const buildSystem: BuildSystem = req.body.buildSystem || DEFAULT_BUILD_SYSTEM;
+    if (!BUILD_SYSTEMS.includes(buildSystem)) {
+      res.status(400).json(formatApiResponse(
+        false,
+        `Unsupported build system "${buildSystem}". Supported build systems: ${BUILD_SYSTEMS.join(', ')}`
+      ));
+      return;
+    }
+    const buildOptions: BuildOptions = {
+      maxFixAttempts: req.body.maxFixAttempts,
+      shadeFallback: req.body.shadeFallback,
+      buildSystem
+    };
+
+    // Server platform and Minecraft version to build for
+    const requestedTarget: Partial<PluginTarget> = req.body.target || {};
+    const targetError = getTargetError(requestedTarget);
+    if (targetError) {
+      res.status(400).json(formatApiResponse(false, targetError));
+      return;
+    }
+    const target = resolveTarget(requestedTarget);
+    const manifestTarget: PluginTarget = { platform: target.platform, mcVersion: target.mcVersion };
+
+    // Project skeleton; without one the blueprint stage picks it, "none" generates every file
+    const scaffold: ScaffoldId | 'none' | undefined = req.body.scaffold;
+    if (scaffold !== undefined && scaffold !== 'none' && !isScaffoldId(scaffold)) {
+      res.status(400).json(formatApiResponse(
+        false,
+        `Unknown scaffold "${scaffold}". Available scaffolds: ${SCAFFOLD_IDS.join(', ')}, none`
+      ));
+      return;
+    }
+
+    // Generated files are reused for the same request to the same models and templates. Compile
+    // options aren't part of the key: a cached generation is still compiled when asked to.
+    const cacheParts = {
+      prompt,
+      platform: target.platform,
+      mcVersion: target.mcVersion,
+      buildSystem,
+      scaffold: scaffold || null,
+      ...getModelDetails(),
+      promptVersions: currentPromptVersions()
+    };
+    const cacheKey = createCacheKey('create', cacheParts);
+
+    // An earlier successful build whose prompt only words this one differently
+    const reuse: ReuseMode = req.body.reuse ?? DEFAULT_REUSE_MODE;
+    if (!isReuseMode(reuse)) {
+      res.status(400).json(formatApiResponse(
+        false,
+        `reuse must be one of: ${REUSE_MODES.join(', ')}`
+      ));
+      return;
+    }
+    const [similarBuild] = reuse === 'never' ? [] : findSimilarBuilds(prompt, {
+      target: manifestTarget,
+      buildSystem,
+      ...(scaffold !== undefined && { scaffold: scaffold === 'none' ? null : scaffold }),
+      excludeBuildId: buildId
+    });
+    if (similarBuild && reuse === 'suggest') {
+      res.status(200).json(formatApiResponse(
+        true,
+        `A similar plugin was built before. Send reuse: "auto" to reuse it or reuse: "never" to generate a new one`,
+        {
+          reused: false,
+          suggestion: {
+            ...similarBuild,
+            detailsUrl: `/api/plugins/${similarBuild.buildId}`,
+            downloadUrl: `/api/build/download/${similarBuild.buildId}`
           }
-        } catch (e) {
-          console.warn("Validation error, continuing with generation:", e);
         }
+      ));
+      return;
+    }
+    const reusedBuild = reuse === 'auto' && similarBuild ? similarBuild : null;
+
+    // Run the whole pipeline as a background job and return its build ID immediately
+    if (req.query.async === 'true' || req.body.async === true) {
+      if (isJobActive(buildId) || isBuildRunning(buildId)) {
+        res.status(409).json(formatApiResponse(
+          false,
+          `Build ${buildId} is already in progress`
+        ));
+        return;
       }
 
-      // Prepare response data
-      const jarPath = `target/${pluginLower}-1.0-SNAPSHOT.jar`;
-      const processingTime = ((Date.now() - startTime) / 1000).toFixed(2);
+      // The key's build slot is held until the background job finishes
+      const releaseBuildSlot = acquireKeyBuildSlot(req, res);
+      if (!releaseBuildSlot) return;
 
-      // Cache the result
-      pluginCache.set(cacheKey, files);
+      const manifest = createManifest(buildId, { status: 'queued', prompt, target: manifestTarget, buildSystem, ...getModelDetails() });
+      const keyId = req.apiKey!.id;
 
-      // Check if compilation is requested before sending response
-      if (req.body.compile === true) {
-        console.log("Compiling plugin with bash.sh...");
-        try {
-          // First validate plugin.yml against main class before compiling
-          const validatedFiles = await validatePluginFiles(files, pluginName);
-          
-          compilationResult = await compilePlugin(
-            prompt, 
-            req.headers.authorization?.split(' ')[1] || '', 
-            validatedFiles,
-            buildId
-          );
-          buildId = compilationResult.buildId;
+      enqueueJob(buildId, prompt, () => runWithUsageKey(keyId, () => trackPromptVersions(async () => {
+        const { generated, origin } = await obtainGeneratedPlugin(
+          buildId, prompt, target, buildSystem, scaffold, { key: cacheKey, parts: cacheParts }, reusedBuild);
+        await saveGeneratedPlugin(buildId, prompt, generated, origin);
+
+        if (shouldCompile) {
+          await compileGeneratedPlugin(prompt, generated.files, generated.pluginName, buildId, buildOptions, target);
+        }
+      })), releaseBuildSlot);
+
+      res.status(202).json(formatApiResponse(
+        true,
+        "Plugin generation started",
+        {
+          buildId,
+          status: manifest.status,
+          target: manifestTarget,
+          buildSystem,
+          reusedFrom: reusedBuild?.buildId || null,
+          statusCheckUrl: `/api/build/status/${buildId}`
+        }
+      ));
+      return;
+    }
+
+    if (isBuildRunning(buildId)) {
+      res.status(409).json(formatApiResponse(
+        false,
+        `Build ${buildId} is already in progress`
+      ));
+      return;
+    }
+
+    const releaseBuildSlot = acquireKeyBuildSlot(req, res);
+    if (!releaseBuildSlot) return;
+    cancelOnDisconnect(res, buildId);
+
+    try {
+      await runCancellable(buildId, () => trackPromptVersions(async () => {
+        const startTime = Date.now();
+        createManifest(buildId, { status: 'generating', prompt, target: manifestTarget, buildSystem, ...getModelDetails() });
+
+        // Cached and reused files are written to this build like fresh ones, and can still be compiled
+        const { generated, origin } = await obtainGeneratedPlugin(
+          buildId, prompt, target, buildSystem, scaffold, { key: cacheKey, parts: cacheParts }, reusedBuild);
+        const { pluginName, files } = generated;
+        const pluginLower = pluginName.toLowerCase();
+        await saveGeneratedPlugin(buildId, prompt, generated, origin);
+        const cacheDetails = {
+          cached: origin.cachedFrom !== null,
+          cachedFrom: origin.cachedFrom,
+          reused: origin.reusedFrom !== null,
+          reusedFrom: origin.reusedFrom,
+          similarity: reusedBuild?.similarity ?? null
+        };
+
+        // Prepare response data
+        const jarPath = expectedJarPath(buildSystem, pluginLower);
+        const processingTime = ((Date.now() - startTime) / 1000).toFixed(2);
+
+        // Check if compilation is requested before sending response
+        let compileError: string | null = null;
+        if (shouldCompile) {
+          try {
+            const compiled = await compileGeneratedPlugin(prompt, files, pluginName, buildId, buildOptions, target);
+            const validatedFiles = compiled.validatedFiles;
+            compilationResult = compiled.compilationResult;
+            buildId = compilationResult.buildId;
           
-          // Send response with compilation results
-          res.status(200).json({
-            status: "success",
-            success: true,
-            message: compilationResult.success ? "Plugin generated and compiled successfully" : "Plugin generated but compilation failed",
-            data: validatedFiles, // Return the validated files
-            files: Object.keys(validatedFiles),
-            pluginName: pluginName,
-            buildId: buildId,
-            buildOutput: compilationResult.buildOutput,
-            jarPath: compilationResult.jarPath,
-            processingTime: `${processingTime}s`,
-          });
-          return;
-        } catch (error) {
-          console.error("Error compiling plugin:", error);
-          // If compilation fails, we'll still send the generated files below
+            // Send response with compilation results
+            res.status(200).json({
+              status: "success",
+              success: true,
+              message: compilationResult.success ? "Plugin generated and compiled successfully" : "Plugin generated but compilation failed",
+              data: validatedFiles, // Return the validated files
+              files: Object.keys(validatedFiles),
+              pluginName: pluginName,
+              scaffold: generated.scaffold,
+              target: manifestTarget,
+              buildSystem,
+              buildId: buildId,
+              buildOutput: compilationResult.buildOutput,
+              jarPath: compilationResult.jarPath,
+              fixAttempts: compilationResult.attempts,
+              noShade: compilationResult.noShade,
+              rejectedFiles: [...generated.rejectedFiles, ...compilationResult.rejectedFiles],
+              pluginYmlErrors: compilationResult.pluginYmlErrors,
+              pomDiagnostics: compilationResult.pomDiagnostics,
+              ...cacheDetails,
+              processingTime: `${processingTime}s`,
+            });
+            finishBuildEvents(buildId, compilationResult.success);
+            return;
+          } catch (error) {
+            // A cancelled build stops here instead of sending the uncompiled files
+            currentBuildSignal()?.throwIfAborted();
+            console.error("Error compiling plugin:", error);
+            compileError = (error as Error).message;
+            updateManifest(buildId, { status: 'failed', error: compileError });
+            // If compilation fails, we'll still send the generated files below, as a failed build
+          }
         }
-      }
 
-      // Send response without compilation results if compilation wasn't requested or failed
-      res.status(200).json({
-        status: "success",
-        success: true,
-        message: "Minecraft plugin generated successfully",
-        data: files,
-        files: Object.keys(files),
-        pluginName: pluginName,
-        buildId: buildId || `plugin-${Date.now()}`, // Add buildId even without compilation
-        jarPath: jarPath,
-        processingTime: `${processingTime}s`,
-        outputDir: "",
-        log: `Processed plugin generation in ${processingTime} seconds. Generated ${Object.keys(files).length} files.`,
-      });
+        // Send response without compilation results if compilation wasn't requested or failed
+        res.status(200).json({
+          status: compileError ? "error" : "success",
+          success: !compileError,
+          message: compileError
+            ? "Plugin generated but compilation failed"
+            : cacheDetails.reused
+              ? `Minecraft plugin reused from build ${origin.reusedFrom}`
+              : cacheDetails.cached ? "Minecraft plugin generated successfully (cached)" : "Minecraft plugin generated successfully",
+          ...(compileError && { error: compileError }),
+          data: files,
+          files: Object.keys(files),
+          rejectedFiles: generated.rejectedFiles,
+          pluginYmlErrors: checkPluginYml(files),
+          pomDiagnostics: checkPom(files),
+          pluginName: pluginName,
+          scaffold: generated.scaffold,
+          target: manifestTarget,
+          buildSystem,
+          buildId: buildId || `plugin-${Date.now()}`, // Add buildId even without compilation
+          ...cacheDetails,
+          jarPath: compileError ? null : jarPath,
+          processingTime: `${processingTime}s`,
+          outputDir: "",
+          log: `Processed plugin generation in ${processingTime} seconds. Generated ${Object.keys(files).length} files.`,
+        });
+        finishBuildEvents(buildId, !compileError, compileError || undefined);
+      }));
 
     } catch (error) {
+      if (isBuildCancellation(error)) {
+        respondBuildCancelled(res, buildId, error);
+        return;
+      }
       console.error("Error generating Minecraft plugin:", error);
+      if (readManifest(buildId)) {
+        updateManifest(buildId, { status: 'failed', error: (error as Error).message });
+      }
       res.status(500).json({
         status: "error",
         success: false,
         message: "Failed to generate Minecraft plugin",
         error: (error as Error).message,
       });
+      finishBuildEvents(buildId, false, (error as Error).message);
+    } finally {
+      releaseBuildSlot();
     }
   }
 );
 
 // Additional routes for build management
 const buildRoutes: Router = express.Router();
+buildRoutes.param('buildId', validateBuildIdParam);
 
 // Endpoint to get build status
 buildRoutes.get(
   "/status/:buildId",
   verifyToken,
+  requireScope('build:read'),
+  rateLimit,
   (req: Request, res: Response): void => {
     try {
       const { buildId } = req.params;
       console.log(`Checking status for buildId: ${buildId}`);
       
-      const pluginDir = path.join(PLUGINS_BASE_DIR, buildId);
-      
-      if (!fs.existsSync(pluginDir)) {
+      const manifest = loadManifest(buildId);
+      if (!manifest) {
         res.status(404).json(formatApiResponse(
           false,
           `Build ${buildId} not found`
@@ -1186,72 +1752,37 @@ buildRoutes.get(
         return;
       }
       
-      // Check if target directory exists (build has been attempted)
-      const targetExists = fs.existsSync(path.join(pluginDir, 'target'));
-      
-      // Check if JAR file exists (build was successful)
-      let jarFile: string | null = null;
-      if (targetExists) {
-        const targetDir = path.join(pluginDir, 'target');
-        const files = fs.readdirSync(targetDir);
-        const jarFileFound = files.find(file => file.endsWith('.jar') && !file.includes('original'));
-        if (jarFileFound) {
-          jarFile = jarFileFound;
-        }
-      }
-      
-      // Get plugin name for better response
-      let pluginName = "Unknown";
-      try {
-        const possiblePaths = [
-          path.join(pluginDir, 'src', 'main', 'resources', 'plugin.yml'),
-          path.join(pluginDir, 'plugin.yml')
-        ];
-        
-        for (const ymlPath of possiblePaths) {
-          if (fs.existsSync(ymlPath)) {
-            const pluginYml = fs.readFileSync(ymlPath, 'utf8');
-            const nameMatch = pluginYml.match(/name: *([A-Za-z0-9_]+)/);
-            if (nameMatch) {
-              pluginName = nameMatch[1];
-              break;
-            }
-          }
-        }
-      } catch (error) {
-        console.warn(`Could not read plugin.yml:`, error);
-      }
+      const jarFile = manifest.jarPath ? path.basename(manifest.jarPath) : null;
       
       // Only get files if requested to speed up response
-      const allFiles: string[] | null = req.query.includeFiles === 'true' ? [] : null;
-      if (allFiles !== null) {
-        function walkDir(dir: string, baseDir: string): void {
-          const files = fs.readdirSync(dir);
-          for (const file of files) {
-            const filePath = path.join(dir, file);
-            const stat = fs.statSync(filePath);
-            if (stat.isDirectory() && file !== 'target') {
-              walkDir(filePath, baseDir);
-            } else if (stat.isFile()) {
-              // Use non-null assertion since we already checked outside the function
-              allFiles!.push(path.relative(baseDir, filePath));
-            }
-          }
-        }
-        
-        walkDir(pluginDir, pluginDir);
-      }
+      const includeFiles = req.query.includeFiles === 'true';
+      const projectFiles = includeFiles ? readProjectFiles(buildId) : null;
       
       res.json(formatApiResponse(
         true, 
         `Build status retrieved for ${buildId}`,
         {
           buildId,
-          status: jarFile ? 'completed' : targetExists ? 'failed' : 'pending',
+          status: manifest.status,
           jarFile,
-          pluginName,
-          files: allFiles,
-          downloadUrl: jarFile ? `/api/build/download/${buildId}` : null
+          pluginName: manifest.pluginName || "Unknown",
+          scaffold: manifest.scaffold || null,
+          cachedFrom: manifest.cachedFrom || null,
+          reusedFrom: manifest.reusedFrom || null,
+          target: manifest.target,
+          buildSystem: manifest.buildSystem,
+          files: projectFiles ? Object.keys(projectFiles) : null,
+          data: projectFiles || undefined,
+          downloadUrl: jarFile ? `/api/build/download/${buildId}` : null,
+          error: manifest.error,
+          rejectedFiles: manifest.rejectedFiles || [],
+          pluginYmlErrors: manifest.pluginYmlErrors || [],
+          pomDiagnostics: manifest.pomDiagnostics || [],
+          fixAttempts: manifest.fixAttempts,
+          createdAt: manifest.createdAt,
+          updatedAt: manifest.updatedAt,
+          promptVersions: manifest.promptVersions || {},
+          history: manifest.history
         }
       ));
       
@@ -1266,77 +1797,165 @@ buildRoutes.get(
   }
 );
 
-// Endpoint to download the JAR file
-buildRoutes.get(
-  "/download/:buildId",
+// Endpoint to cancel a queued or running build
+buildRoutes.delete(
+  "/:buildId",
   verifyToken,
+  requireScope('create'),
+  rateLimit,
   (req: Request, res: Response): void => {
+    const { buildId } = req.params;
+
     try {
-      const { buildId } = req.params;
-      const pluginDir = path.join(PLUGINS_BASE_DIR, buildId);
-      
-      if (!fs.existsSync(pluginDir)) {
+      const manifest = loadManifest(buildId);
+      if (!manifest && !isBuildRunning(buildId)) {
         res.status(404).json(formatApiResponse(
           false,
           `Build ${buildId} not found`
         ));
         return;
       }
-      
-      // Find JAR file in the target directory
-      const targetDir = path.join(pluginDir, 'target');
-      if (!fs.existsSync(targetDir)) {
-        res.status(404).json(formatApiResponse(
-          false,
-          `No target directory found for build ${buildId}`
-        ));
-        return;
-      }
-      
-      // Find the first JAR file (excluding original-*.jar)
-      const files = fs.readdirSync(targetDir);
-      const jarFile = files.find(file => file.endsWith('.jar') && !file.includes('original'));
-      
-      if (!jarFile) {
-        res.status(404).json(formatApiResponse(
+
+      // Background jobs go through the queue, synchronous builds are stopped directly
+      if (!cancelJob(buildId) && !cancelBuild(buildId)) {
+        res.status(409).json(formatApiResponse(
           false,
-          `No JAR file found for build ${buildId}`
+          `Build ${buildId} is not running`,
+          { buildId, status: manifest?.status }
         ));
         return;
       }
-      
-      const jarPath = path.join(targetDir, jarFile);
-      
-      // Get plugin name for better filename
-      let pluginName = "";
-      try {
-        const possiblePaths = [
-          path.join(pluginDir, 'src', 'main', 'resources', 'plugin.yml'),
-          path.join(pluginDir, 'plugin.yml')
-        ];
-        
-        for (const ymlPath of possiblePaths) {
-          if (fs.existsSync(ymlPath)) {
-            const pluginYml = fs.readFileSync(ymlPath, 'utf8');
-            const nameMatch = pluginYml.match(/name: *([A-Za-z0-9_]+)/);
-            if (nameMatch) {
-              pluginName = nameMatch[1].toLowerCase();
-              break;
-            }
-          }
-        }
-      } catch (error) {
-        console.warn(`Could not read plugin.yml:`, error);
-      }
-      
+
+      res.status(202).json(formatApiResponse(
+        true,
+        `Cancelling build ${buildId}`,
+        { buildId, status: readManifest(buildId)?.status, statusCheckUrl: `/api/build/status/${buildId}` }
+      ));
+    } catch (error) {
+      console.error(`Error cancelling build ${buildId}:`, error);
+      res.status(500).json(formatApiResponse(
+        false,
+        "Failed to cancel build",
+        { error: (error as Error).message }
+      ));
+    }
+  }
+);
+
+// Endpoint to stream build progress as Server-Sent Events
+buildRoutes.get(
+  "/events/:buildId",
+  verifyToken,
+  requireScope('build:read'),
+  rateLimit,
+  (req: Request, res: Response): void => {
+    const { buildId } = req.params;
+    const lastEventId = parseInt(String(req.headers['last-event-id'] || req.query.lastEventId || "0")) || 0;
+
+    const manifest = loadManifest(buildId);
+    if (!manifest) {
+      res.status(404).json(formatApiResponse(
+        false,
+        `Build ${buildId} not found`
+      ));
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    // The events of a build that finished before the retention window are gone; its manifest has the outcome
+    if (!hasBuildEvents(buildId) && FINAL_STATUSES.includes(manifest.status)) {
+      const done = {
+        type: 'done',
+        success: manifest.status === 'completed' || manifest.status === 'generated',
+        message: manifest.error || manifest.status,
+        buildId,
+        timestamp: manifest.updatedAt
+      };
+      res.end(`event: done\ndata: ${JSON.stringify(done)}\n\n`);
+      return;
+    }
+
+    let closed = false;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+
+    // Keep proxies from timing out idle connections
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+
+    // Events that arrive before the replay finishes are still delivered in order
+    const unsubscribe = subscribeBuildEvents(buildId, (event) => {
+      if (closed) return;
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (event.type === 'done') {
+        setImmediate(close);
+      }
+    }, lastEventId);
+
+    // A build that already finished has nothing more to send after the replay
+    if (isBuildFinished(buildId)) {
+      setImmediate(close);
+    }
+
+    req.on('close', close);
+  }
+);
+
+// Endpoint to download the JAR file
+buildRoutes.get(
+  "/download/:buildId",
+  verifyToken,
+  requireScope('build:download'),
+  rateLimit,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { buildId } = req.params;
+      const manifest = loadManifest(buildId);
+      
+      if (!manifest) {
+        res.status(404).json(formatApiResponse(
+          false,
+          `Build ${buildId} not found`
+        ));
+        return;
+      }
+      
+      // From the build directory, or the storage backend when only that has the JAR
+      const jar = manifest.jarPath ? await openBuildArtifact(buildId, manifest.jarPath) : null;
+      
+      if (!manifest.jarPath || !jar) {
+        res.status(404).json(formatApiResponse(
+          false,
+          `No JAR file found for build ${buildId}`,
+          { status: manifest.status }
+        ));
+        return;
+      }
+      
+      const jarFile = path.basename(manifest.jarPath);
+      
+      // Use the plugin name for a better filename
+      const pluginName = (manifest.pluginName || "").toLowerCase();
+      
       // Set proper headers for file download
       res.setHeader('Content-Disposition', `attachment; filename="${pluginName ? pluginName + '.jar' : jarFile}"`);
       res.setHeader('Content-Type', 'application/java-archive');
-      res.setHeader('Content-Length', fs.statSync(jarPath).size);
+      if (jar.size !== null) {
+        res.setHeader('Content-Length', jar.size);
+      }
       res.setHeader('Cache-Control', 'no-store, max-age=0');
       
       // Stream the file
-      const fileStream = fs.createReadStream(jarPath);
+      const fileStream = jar.stream;
       fileStream.on('error', (error) => {
         console.error(`Error streaming JAR file:`, error);
         if (!res.headersSent) {
@@ -1364,13 +1983,17 @@ buildRoutes.get(
 
 // Route for listing all generated plugins
 const pluginsRoutes: Router = express.Router();
+pluginsRoutes.param('buildId', validateBuildIdParam);
 
 pluginsRoutes.get(
   "/",
   verifyToken,
-  (req: Request, res: Response): void => {
+  requireScope('build:read'),
+  rateLimit,
+  async (req: Request, res: Response): Promise<void> => {
     try {
       console.log("Listing all generated plugins");
+      await restoreMissingBuilds();
       
       // Check if plugins directory exists
       if (!fs.existsSync(PLUGINS_BASE_DIR)) {
@@ -1381,138 +2004,41 @@ pluginsRoutes.get(
         return;
       }
       
-      // Get all subdirectories in the plugins base directory (each is a build)
-      const pluginDirs = fs.readdirSync(PLUGINS_BASE_DIR, { withFileTypes: true })
-        .filter(dirent => dirent.isDirectory())
-        .map(dirent => dirent.name);
-      
-      // For each directory, gather information about the plugin
-      const plugins = pluginDirs.map(dirName => {
-        const pluginDir = path.join(PLUGINS_BASE_DIR, dirName);
-        
-        // Extract plugin information
-        let pluginName = "Unknown";
-        let jarFile = null;
-        let status = "unknown";
-        let fileCount = 0;
-        
-        // Check if plugin.yml exists to extract the plugin name
-        try {
-          // Look for plugin.yml in src/main/resources or directly in the plugin directory
-          const possiblePaths = [
-            path.join(pluginDir, 'src', 'main', 'resources', 'plugin.yml'),
-            path.join(pluginDir, 'plugin.yml')
-          ];
+      // Each subdirectory of the plugins base directory is a build
+      const plugins = listBuildIds()
+        .map(dirName => {
+          const manifest = loadManifest(dirName);
+          if (!manifest) return null;
           
-          for (const ymlPath of possiblePaths) {
-            if (fs.existsSync(ymlPath)) {
-              const pluginYml = fs.readFileSync(ymlPath, 'utf8');
-              const nameMatch = pluginYml.match(/name: *([A-Za-z0-9_]+)/);
-              if (nameMatch) {
-                pluginName = nameMatch[1];
-                break;
-              }
-            }
-          }
-        } catch (error) {
-          console.warn(`Could not read plugin.yml for ${dirName}:`, error);
-        }
-        
-        // Check for JAR file to determine build status
-        const targetDir = path.join(pluginDir, 'target');
-        if (fs.existsSync(targetDir)) {
+          // Count files (excluding target directory for efficiency)
+          let fileCount = 0;
           try {
-            const targetFiles = fs.readdirSync(targetDir);
-            const jarFileFound = targetFiles.find(file => file.endsWith('.jar') && !file.includes('original'));
-            if (jarFileFound) {
-              jarFile = jarFileFound;
-              status = "completed";
-            } else {
-              status = "failed";
-            }
+            fileCount = Object.keys(readProjectFiles(dirName)).length;
           } catch (error) {
-            console.warn(`Could not read target directory for ${dirName}:`, error);
-            status = "error";
-          }
-        } else {
-          status = "pending";
-        }
-        
-        // Count files (excluding target directory for efficiency)
-        try {
-          const allFiles: string[] = [];
-          function countFiles(dir: string): void {
-            if (!fs.existsSync(dir)) return;
-            
-            const dirFiles = fs.readdirSync(dir);
-            for (const file of dirFiles) {
-              if (file === 'target') continue;
-              
-              const filePath = path.join(dir, file);
-              const stat = fs.statSync(filePath);
-              if (stat.isDirectory()) {
-                countFiles(filePath);
-              } else if (stat.isFile()) {
-                fileCount++;
-              }
-            }
+            console.warn(`Could not count files for ${dirName}:`, error);
           }
           
-          countFiles(pluginDir);
-        } catch (error) {
-          console.warn(`Could not count files for ${dirName}:`, error);
-        }
-        
-        // Get creation timestamp from the directory name (if in format plugin-timestamp)
-        let createdAt = null;
-        const timestampMatch = dirName.match(/plugin-(\d+)/);
-        if (timestampMatch) {
-          const timestamp = parseInt(timestampMatch[1]);
-          if (!isNaN(timestamp)) {
-            createdAt = new Date(timestamp).toISOString();
-          }
-        }
-        
-        // If we couldn't get timestamp from the name, use directory stats
-        if (!createdAt) {
-          try {
-            const stats = fs.statSync(pluginDir);
-            createdAt = stats.birthtime.toISOString();
-          } catch (error) {
-            console.warn(`Could not get creation time for ${dirName}:`, error);
-            createdAt = new Date().toISOString(); // Use current time as fallback
-          }
-        }
-        
-        // Extract prompt if available
-        let prompt = "";
-        try {
-          const promptPath = path.join(pluginDir, 'prompt.txt');
-          if (fs.existsSync(promptPath)) {
-            prompt = fs.readFileSync(promptPath, 'utf8').substring(0, 100) + "...";
-          }
-        } catch (error) {
-          console.warn(`Could not read prompt for ${dirName}:`, error);
-        }
-        
-        return {
-          id: dirName,
-          name: pluginName,
-          status,
-          createdAt,
-          jarFile,
-          fileCount,
-          buildId: dirName,
-          prompt
-        };
-      });
+          return {
+            id: dirName,
+            name: manifest.pluginName || "Unknown",
+            status: manifest.status,
+            target: manifest.target,
+            buildSystem: manifest.buildSystem,
+            source: manifest.source || 'generated',
+            createdAt: manifest.createdAt,
+            updatedAt: manifest.updatedAt,
+            jarFile: manifest.jarPath ? path.basename(manifest.jarPath) : null,
+            fileCount,
+            fixAttempts: manifest.fixAttempts,
+            error: manifest.error,
+            buildId: dirName,
+            prompt: manifest.prompt.length > 100 ? manifest.prompt.substring(0, 100) + "..." : manifest.prompt
+          };
+        })
+        .filter((plugin): plugin is NonNullable<typeof plugin> => plugin !== null);
       
       // Sort plugins by creation date (newest first)
-      plugins.sort((a, b) => {
-        if (a.createdAt === null) return 1;
-        if (b.createdAt === null) return -1;
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-      });
+      plugins.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
       
       res.json(formatApiResponse(
         true,
@@ -1539,12 +2065,14 @@ pluginsRoutes.get(
 pluginsRoutes.get(
   "/:buildId",
   verifyToken,
+  requireScope('build:read'),
+  rateLimit,
   (req: Request, res: Response): void => {
     try {
       const { buildId } = req.params;
-      const pluginDir = path.join(PLUGINS_BASE_DIR, buildId);
+      const manifest = loadManifest(buildId);
       
-      if (!fs.existsSync(pluginDir)) {
+      if (!manifest) {
         res.status(404).json({
           success: false,
           message: `Plugin ${buildId} not found`
@@ -1552,116 +2080,9 @@ pluginsRoutes.get(
         return;
       }
       
-      // Extract plugin information (similar to the list route)
-      let pluginName = "Unknown";
-      let jarFile = null;
-      let status = "unknown";
-      let files: string[] = [];
-      
-      // Get plugin.yml info
-      try {
-        const possiblePaths = [
-          path.join(pluginDir, 'src', 'main', 'resources', 'plugin.yml'),
-          path.join(pluginDir, 'plugin.yml')
-        ];
-        
-        for (const ymlPath of possiblePaths) {
-          if (fs.existsSync(ymlPath)) {
-            const pluginYml = fs.readFileSync(ymlPath, 'utf8');
-            const nameMatch = pluginYml.match(/name: *([A-Za-z0-9_]+)/);
-            if (nameMatch) {
-              pluginName = nameMatch[1];
-              break;
-            }
-          }
-        }
-      } catch (error) {
-        console.warn(`Could not read plugin.yml for ${buildId}:`, error);
-      }
-      
-      // Check build status
-      const targetDir = path.join(pluginDir, 'target');
-      if (fs.existsSync(targetDir)) {
-        try {
-          const targetFiles = fs.readdirSync(targetDir);
-          const jarFileFound = targetFiles.find(file => file.endsWith('.jar') && !file.includes('original'));
-          if (jarFileFound) {
-            jarFile = jarFileFound;
-            status = "completed";
-          } else {
-            status = "failed";
-          }
-        } catch (error) {
-          console.warn(`Could not read target directory for ${buildId}:`, error);
-          status = "error";
-        }
-      } else {
-        status = "pending";
-      }
-      
-      // List all files with contents
-      const fileContents: Record<string, string> = {};
-      function walkDir(dir: string, baseDir: string): void {
-        if (!fs.existsSync(dir)) return;
-        
-        const dirFiles = fs.readdirSync(dir);
-        for (const file of dirFiles) {
-          if (file === 'target') continue;
-          
-          const filePath = path.join(dir, file);
-          const stat = fs.statSync(filePath);
-          if (stat.isDirectory()) {
-            walkDir(filePath, baseDir);
-          } else if (stat.isFile()) {
-            const relativePath = path.relative(baseDir, filePath);
-            files.push(relativePath);
-            
-            // Only include content for text files
-            const ext = path.extname(filePath).toLowerCase();
-            if (['.java', '.yml', '.xml', '.txt', '.md', '.properties'].includes(ext)) {
-              try {
-                fileContents[relativePath] = fs.readFileSync(filePath, 'utf8');
-              } catch (error) {
-                console.warn(`Could not read file ${filePath}:`, error);
-                fileContents[relativePath] = "Error reading file";
-              }
-            }
-          }
-        }
-      }
-      
-      walkDir(pluginDir, pluginDir);
-      
-      // Get creation timestamp
-      let createdAt = null;
-      const timestampMatch = buildId.match(/plugin-(\d+)/);
-      if (timestampMatch) {
-        const timestamp = parseInt(timestampMatch[1]);
-        if (!isNaN(timestamp)) {
-          createdAt = new Date(timestamp).toISOString();
-        }
-      }
-      
-      if (!createdAt) {
-        try {
-          const stats = fs.statSync(pluginDir);
-          createdAt = stats.birthtime.toISOString();
-        } catch (error) {
-          console.warn(`Could not get creation time for ${buildId}:`, error);
-          createdAt = new Date().toISOString();
-        }
-      }
-      
-      // Extract prompt if available
-      let prompt = "";
-      try {
-        const promptPath = path.join(pluginDir, 'prompt.txt');
-        if (fs.existsSync(promptPath)) {
-          prompt = fs.readFileSync(promptPath, 'utf8');
-        }
-      } catch (error) {
-        console.warn(`Could not read prompt for ${buildId}:`, error);
-      }
+      const fileContents = readProjectFiles(buildId);
+      const files = Object.keys(fileContents);
+      const jarFile = manifest.jarPath ? path.basename(manifest.jarPath) : null;
       
       res.json(formatApiResponse(
         true,
@@ -1669,15 +2090,28 @@ pluginsRoutes.get(
         {
           plugin: {
             id: buildId,
-            name: pluginName,
-            status,
-            createdAt,
+            name: manifest.pluginName || "Unknown",
+            source: manifest.source || 'generated',
+            cachedFrom: manifest.cachedFrom || null,
+            reusedFrom: manifest.reusedFrom || null,
+            status: manifest.status,
+            createdAt: manifest.createdAt,
+            updatedAt: manifest.updatedAt,
             jarFile,
             fileCount: files.length,
             files,
             fileContents,
-            prompt,
-            downloadUrl: jarFile ? `/api/build/download/${buildId}` : null
+            prompt: manifest.prompt,
+            target: manifest.target,
+            buildSystem: manifest.buildSystem,
+            provider: manifest.provider,
+            models: manifest.models,
+            fixAttempts: manifest.fixAttempts,
+            error: manifest.error,
+            history: manifest.history,
+            downloadUrl: jarFile ? `/api/build/download/${buildId}` : null,
+            sourceUrl: `/api/plugins/${buildId}/source.zip`,
+            historyUrl: `/api/plugins/${buildId}/history`
           }
         }
       ));
@@ -1693,9 +2127,931 @@ pluginsRoutes.get(
   }
 );
 
+// Download the project source as a ZIP archive, optionally with the built JAR
+pluginsRoutes.get(
+  "/:buildId/source.zip",
+  verifyToken,
+  requireScope('build:download'),
+  rateLimit,
+  (req: Request, res: Response): void => {
+    try {
+      const { buildId } = req.params;
+      const manifest = loadManifest(buildId);
+
+      if (!manifest) {
+        res.status(404).json(formatApiResponse(
+          false,
+          `Plugin ${buildId} not found`
+        ));
+        return;
+      }
+
+      const includeJar = req.query.includeJar === 'true';
+      if (includeJar && !(manifest.jarPath && fs.existsSync(resolveBuildPath(buildId, manifest.jarPath)))) {
+        res.status(404).json(formatApiResponse(
+          false,
+          `No JAR file found for build ${buildId}`,
+          { status: manifest.status }
+        ));
+        return;
+      }
+
+      const archive = createSourceArchive(manifest, { includeJar });
+      res.setHeader('Content-Disposition', `attachment; filename="${archive.fileName}"`);
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Cache-Control', 'no-store, max-age=0');
+
+      archive.stream.on('error', (error) => {
+        console.error(`Error streaming source archive for ${buildId}:`, error);
+        if (!res.headersSent) {
+          res.status(500).json(formatApiResponse(
+            false,
+            "Error creating source archive",
+            { error: (error as Error).message }
+          ));
+        } else {
+          res.destroy(error as Error);
+        }
+      });
+      archive.stream.pipe(res);
+
+    } catch (error) {
+      console.error(`Error downloading source of ${req.params.buildId}:`, error);
+      res.status(500).json(formatApiResponse(
+        false,
+        "Failed to download plugin source",
+        { error: (error as Error).message }
+      ));
+    }
+  }
+);
+
+// Revision history of a build: a commit for the generated files, validation, each fix attempt,
+// each revision and each rollback, newest first
+pluginsRoutes.get(
+  "/:buildId/history",
+  verifyToken,
+  requireScope('build:read'),
+  rateLimit,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { buildId } = req.params;
+      if (!buildExists(buildId)) {
+        res.status(404).json(formatApiResponse(
+          false,
+          `Plugin ${buildId} not found`
+        ));
+        return;
+      }
+
+      const commits = await readHistory(buildId);
+      res.json(formatApiResponse(
+        true,
+        `Found ${commits.length} commits for ${buildId}`,
+        { buildId, commits, count: commits.length }
+      ));
+
+    } catch (error) {
+      console.error(`Error reading history of ${req.params.buildId}:`, error);
+      res.status(500).json(formatApiResponse(
+        false,
+        "Failed to read plugin history",
+        { error: (error as Error).message }
+      ));
+    }
+  }
+);
+
+// Unified diff between two commits (?from=&to=); `to` defaults to the latest commit and `from` to
+// the commit before `to`
+pluginsRoutes.get(
+  "/:buildId/history/diff",
+  verifyToken,
+  requireScope('build:read'),
+  rateLimit,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { buildId } = req.params;
+      if (!buildExists(buildId) || !hasHistory(buildId)) {
+        res.status(404).json(formatApiResponse(
+          false,
+          `No history found for plugin ${buildId}`
+        ));
+        return;
+      }
+
+      const [latest] = await readHistory(buildId);
+      const toRef = typeof req.query.to === 'string' ? req.query.to : latest?.commit;
+      const fromRef = typeof req.query.from === 'string' ? req.query.from : undefined;
+      const to = toRef ? await resolveCommit(buildId, toRef) : null;
+      const from = fromRef !== undefined ? await resolveCommit(buildId, fromRef) : undefined;
+
+      if (!to || from === null) {
+        res.status(404).json(formatApiResponse(
+          false,
+          `Commit ${!to ? toRef : fromRef} not found in the history of ${buildId}`
+        ));
+        return;
+      }
+
+      res.json(formatApiResponse(
+        true,
+        "Diff created",
+        { buildId, ...(await diffCommits(buildId, to, from)) }
+      ));
+
+    } catch (error) {
+      console.error(`Error diffing history of ${req.params.buildId}:`, error);
+      res.status(500).json(formatApiResponse(
+        false,
+        "Failed to create diff",
+        { error: (error as Error).message }
+      ));
+    }
+  }
+);
+
+// Restore the project files of an earlier commit. The rollback is committed on top of the history,
+// so nothing is lost and it can be rolled back in turn.
+pluginsRoutes.post(
+  "/:buildId/history/rollback",
+  verifyToken,
+  requireScope('create'),
+  rateLimit,
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { buildId } = req.params;
+      const { commit: requestedCommit } = req.body;
+
+      if (!requestedCommit || typeof requestedCommit !== 'string') {
+        res.status(400).json(formatApiResponse(
+          false,
+          "Request must contain a commit field"
+        ));
+        return;
+      }
+
+      if (!buildExists(buildId) || !hasHistory(buildId)) {
+        res.status(404).json(formatApiResponse(
+          false,
+          `No history found for plugin ${buildId}`
+        ));
+        return;
+      }
+
+      if (isJobActive(buildId) || isBuildRunning(buildId)) {
+        res.status(409).json(formatApiResponse(
+          false,
+          `Build ${buildId} is still in progress`
+        ));
+        return;
+      }
+
+      const target = await resolveCommit(buildId, requestedCommit);
+      if (!target) {
+        res.status(404).json(formatApiResponse(
+          false,
+          `Commit ${requestedCommit} not found in the history of ${buildId}`
+        ));
+        return;
+      }
+
+      const commit = await rollbackBuild(buildId, target);
+      const files = readProjectFiles(buildId);
+
+      // Any existing JAR was built from other sources
+      if (commit && readManifest(buildId)) {
+        updateManifest(buildId, {
+          status: 'generated',
+          jarPath: null,
+          pluginYmlErrors: checkPluginYml(files),
+          pomDiagnostics: checkPom(files)
+        }, `Rolled back to ${target.slice(0, 7)}`);
+      }
+      // The restore rewrote and removed files without going through the workspace
+      await storeBuild(buildId);
+
+      res.json(formatApiResponse(
+        true,
+        commit ? `Rolled back to ${target.slice(0, 7)}` : `The project already matches ${target.slice(0, 7)}`,
+        { buildId, commit, rolledBackTo: target, files: Object.keys(files) }
+      ));
+
+    } catch (error) {
+      console.error(`Error rolling back ${req.params.buildId}:`, error);
+      if (isHistoryError(error)) {
+        res.status(error.gitMissing ? 503 : 500).json(formatApiResponse(
+          false,
+          error.gitMissing ? "Git is not available on the server" : "Git could not restore the commit",
+          { error: error.message }
+        ));
+        return;
+      }
+      res.status(500).json(formatApiResponse(
+        false,
+        "Failed to roll back plugin",
+        { error: (error as Error).message }
+      ));
+    }
+  }
+);
+
+// Import an existing plugin project, uploaded as a ZIP archive or sent as a JSON files map, into a
+// new build and run the compile-and-fix loop on it. ZIP uploads take their options from the query string.
+pluginsRoutes.post(
+  "/import",
+  verifyToken,
+  requireScope('create'),
+  rateLimit,
+  enforceTokenBudget,
+  express.raw({ type: ['application/zip', 'application/x-zip-compressed', 'application/octet-stream'], limit: '10mb' }),
+  async (req: Request, res: Response): Promise<void> => {
+    const upload = Buffer.isBuffer(req.body);
+    const queryValue = (name: string): string | undefined =>
+      typeof req.query[name] === 'string' ? req.query[name] as string : undefined;
+    const body = upload ? {} : req.body || {};
+
+    let uploadedFiles: Record<string, string>;
+    if (upload) {
+      try {
+        uploadedFiles = readZipProject(req.body);
+      } catch (error) {
+        res.status(400).json(formatApiResponse(
+          false,
+          `Could not read the ZIP archive: ${(error as Error).message}`
+        ));
+        return;
+      }
+    } else if (body.files && typeof body.files === 'object' && !Array.isArray(body.files)) {
+      uploadedFiles = body.files;
+    } else {
+      res.status(400).json(formatApiResponse(
+        false,
+        "Request must be a ZIP archive (Content-Type: application/zip) or contain a files map"
+      ));
+      return;
+    }
+
+    const imported = prepareImport(uploadedFiles);
+    if ('error' in imported) {
+      res.status(400).json(formatApiResponse(false, imported.error));
+      return;
+    }
+
+    const buildId: string = (upload ? queryValue('buildId') : body.buildId) || `plugin-${Date.now()}`;
+    if (!isValidBuildId(buildId)) {
+      res.status(400).json(formatApiResponse(
+        false,
+        "buildId may only contain letters, digits, dashes and underscores"
+      ));
+      return;
+    }
+    if (buildExists(buildId)) {
+      res.status(409).json(formatApiResponse(
+        false,
+        `Build ${buildId} already exists`
+      ));
+      return;
+    }
+
+    const requestedTarget: Partial<PluginTarget> = upload
+      ? { platform: queryValue('platform') as Platform | undefined, mcVersion: queryValue('mcVersion') }
+      : body.target || {};
+    const targetError = getTargetError(requestedTarget);
+    if (targetError) {
+      res.status(400).json(formatApiResponse(false, targetError));
+      return;
+    }
+    const target = resolveTarget(requestedTarget);
+
+    const shouldCompile = upload ? queryValue('compile') !== 'false' : body.compile !== false;
+    const buildOptions: BuildOptions = {
+      maxFixAttempts: upload ? parseInt(queryValue('maxFixAttempts') || "") || undefined : body.maxFixAttempts,
+      shadeFallback: upload ? queryValue('shadeFallback') !== 'false' : body.shadeFallback,
+      buildSystem: imported.buildSystem
+    };
+
+    // Take the build slot before the build directory is created, so a refused import leaves nothing behind
+    const releaseBuildSlot = shouldCompile ? acquireKeyBuildSlot(req, res) : () => undefined;
+    if (!releaseBuildSlot) return;
+
+    const { pluginName, files } = imported;
+    const prompt = `Imported project ${pluginName}`;
+    let rejectedFiles: RejectedFile[];
+    try {
+      createManifest(buildId, {
+        status: 'generated',
+        prompt,
+        pluginName,
+        source: 'imported',
+        target: { platform: target.platform, mcVersion: target.mcVersion },
+        buildSystem: imported.buildSystem
+      });
+      rejectedFiles = [...imported.rejectedFiles, ...writeProjectFiles(buildId, files)];
+      writeInternalFile(buildId, 'prompt.txt', prompt);
+      await commitBuild(buildId, `Import ${pluginName}`);
+    } catch (error) {
+      releaseBuildSlot();
+      throw error;
+    }
+    const pluginYmlErrors = checkPluginYml(files);
+    const pomDiagnostics = checkPom(files);
+    updateManifest(buildId, { rejectedFiles, pluginYmlErrors, pomDiagnostics }, "Imported");
+    console.log(`Imported ${Object.keys(files).length} files into ${buildId} (${rejectedFiles.length} rejected)`);
+
+    const importSummary = {
+      buildId,
+      pluginName,
+      source: 'imported',
+      buildSystem: imported.buildSystem,
+      target: { platform: target.platform, mcVersion: target.mcVersion },
+      files: Object.keys(files),
+      rejectedFiles,
+      pluginYmlErrors,
+      pomDiagnostics
+    };
+
+    if (!shouldCompile) {
+      res.status(201).json(formatApiResponse(true, "Project imported", importSummary));
+      return;
+    }
+
+    // The compile-and-fix loop can take a while; async imports return right away
+    if (req.query.async === 'true' || body.async === true) {
+      const keyId = req.apiKey!.id;
+      updateManifest(buildId, { status: 'queued' });
+      enqueueJob(buildId, prompt, () => runWithUsageKey(keyId, () => trackPromptVersions(async () => {
+        await trackStage(buildId, 'compile', () => compilePlugin(prompt, files, buildId, buildOptions, target, { source: 'imported' }));
+      })), releaseBuildSlot, 'compile');
+
+      res.status(202).json(formatApiResponse(
+        true,
+        "Project imported, build started",
+        { ...importSummary, statusCheckUrl: `/api/build/status/${buildId}` }
+      ));
+      return;
+    }
+
+    cancelOnDisconnect(res, buildId);
+
+    try {
+      await runCancellable(buildId, () => trackPromptVersions(async () => {
+        const compilationResult = await trackStage(buildId, 'compile', () =>
+          compilePlugin(prompt, files, buildId, buildOptions, target, { source: 'imported' }));
+
+        res.status(201).json(formatApiResponse(
+          true,
+          compilationResult.success ? "Project imported and compiled successfully" : "Project imported but compilation failed",
+          {
+            ...importSummary,
+            rejectedFiles: [...rejectedFiles, ...compilationResult.rejectedFiles],
+            compiled: compilationResult.success,
+            jarPath: compilationResult.jarPath,
+            buildOutput: compilationResult.buildOutput,
+            fixAttempts: compilationResult.attempts,
+            noShade: compilationResult.noShade,
+            pluginYmlErrors: compilationResult.pluginYmlErrors,
+            pomDiagnostics: compilationResult.pomDiagnostics,
+            downloadUrl: compilationResult.success ? `/api/build/download/${buildId}` : null
+          }
+        ));
+        finishBuildEvents(buildId, compilationResult.success);
+      }));
+
+    } catch (error) {
+      if (isBuildCancellation(error)) {
+        respondBuildCancelled(res, buildId, error);
+        return;
+      }
+      console.error(`Error compiling imported project ${buildId}:`, error);
+      updateManifest(buildId, { status: 'failed', error: (error as Error).message });
+      res.status(500).json(formatApiResponse(
+        false,
+        "Failed to compile the imported project",
+        { error: (error as Error).message }
+      ));
+      finishBuildEvents(buildId, false, (error as Error).message);
+    } finally {
+      releaseBuildSlot();
+    }
+  }
+);
+
+// Revise an existing plugin with a follow-up instruction
+pluginsRoutes.post(
+  "/:buildId/revise",
+  verifyToken,
+  requireScope('create'),
+  rateLimit,
+  enforceTokenBudget,
+  async (req: Request, res: Response): Promise<void> => {
+    const { buildId } = req.params;
+    const { instruction } = req.body;
+    const shouldCompile = req.body.compile !== false;
+
+    if (!instruction || typeof instruction !== 'string') {
+      res.status(400).json(formatApiResponse(
+        false,
+        "Request must contain an instruction field"
+      ));
+      return;
+    }
+
+    const pluginDir = getBuildDir(buildId);
+    if (!fs.existsSync(pluginDir)) {
+      res.status(404).json(formatApiResponse(
+        false,
+        `Plugin ${buildId} not found`
+      ));
+      return;
+    }
+
+    if (isJobActive(buildId) || isBuildRunning(buildId)) {
+      res.status(409).json(formatApiResponse(
+        false,
+        `Build ${buildId} is still in progress`
+      ));
+      return;
+    }
+
+    const releaseBuildSlot = acquireKeyBuildSlot(req, res);
+    if (!releaseBuildSlot) return;
+    cancelOnDisconnect(res, buildId);
+
+    try {
+      await runCancellable(buildId, () => trackPromptVersions(async () => {
+        const startTime = Date.now();
+        const currentFiles = readProjectFiles(buildId);
+        const originalPrompt = readInternalFile(buildId, 'prompt.txt') || "";
+      
+        // Revisions keep building for the target and with the build system the plugin was created with;
+        // imported projects are still built as they are
+        const createdWith = loadManifest(buildId);
+        const target = resolveTarget(createdWith?.target || {});
+
+        // Plugin name from plugin.yml keeps the package and main class stable
+        const pluginYmlPath = Object.keys(currentFiles).find(filePath => filePath.endsWith('plugin.yml'));
+        const pluginName = (pluginYmlPath && parsePluginYml(currentFiles[pluginYmlPath]).plugin?.name) || "CustomPlugin";
+
+        const revisionPrompt = renderPrompt('revision', {
+          pluginName,
+          target: describeTarget(target),
+          originalRequest: originalPrompt,
+          instruction,
+          files: Object.entries(currentFiles)
+            .map(([filePath, content]) => `FILE: ${filePath}\n${content}`)
+            .join('\n\n---\n\n'),
+          platform: target.platform,
+          mcVersion: target.mcVersion
+        });
+
+        const model = getModel(MODEL_CONFIG.pro, MODEL_CONFIG.pro.precision);
+        const revisionResult = await trackStage(buildId, 'revise', () => model.generateContent(revisionPrompt));
+
+        // Extract changed files
+        const revisedOutput: Record<string, string> = {};
+        let fileMatch;
+        FILE_PATTERN.lastIndex = 0;
+        while ((fileMatch = FILE_PATTERN.exec(revisionResult.text)) !== null) {
+          const filePath = fileMatch[1].trim();
+          let content = cleanContent(fileMatch[2].trim());
+
+          if (filePath.endsWith(".java")) {
+            content = processJavaFile(filePath, content, pluginName);
+          }
+
+          revisedOutput[filePath] = content;
+        }
+
+        // Only files in the allowed locations are applied; the rest are reported back
+        const { files: allowedFiles, rejected: rejectedFiles } = filterProjectFiles(revisedOutput, currentFiles);
+        const changedFiles: Record<string, string> = {};
+        Object.entries(allowedFiles)
+          .filter(([filePath, content]) => currentFiles[filePath] !== content)
+          .forEach(([filePath, content]) => {
+            changedFiles[filePath] = content;
+            emitBuildEvent(buildId, { type: 'file:generated', filePath, size: content.length });
+          });
+
+        const changes = Object.entries(changedFiles)
+          .map(([filePath, content]) => summarizeFileChange(filePath, currentFiles[filePath], content));
+
+        if (changes.length === 0) {
+          res.json(formatApiResponse(
+            true,
+            "The model did not change any files",
+            { buildId, revision: null, changes, rejectedFiles }
+          ));
+          finishBuildEvents(buildId, true, "No changes");
+          return;
+        }
+
+        const revision = recordRevision(buildId, instruction, changes);
+        const revisedFiles = { ...currentFiles, ...changedFiles };
+
+        // The revision gets its own commit, before any validation or fix attempts change it further
+        rejectedFiles.push(...writeProjectFiles(buildId, changedFiles));
+        const commit = await commitBuild(buildId, `Revision ${revision}: ${instruction}`);
+
+        let compilationResult: CompileResult | null = null;
+        if (shouldCompile) {
+          compilationResult = await trackStage(buildId, 'compile', () => compilePlugin(
+            originalPrompt,
+            revisedFiles,
+            buildId,
+            {
+              maxFixAttempts: req.body.maxFixAttempts,
+              shadeFallback: req.body.shadeFallback,
+              buildSystem: createdWith?.buildSystem
+            },
+            target,
+            { source: createdWith?.source }
+          ));
+        } else {
+          // Any existing JAR no longer matches the sources
+          const manifest = readManifest(buildId);
+          if (manifest) {
+            updateManifest(buildId, {
+              status: 'generated',
+              jarPath: null,
+              pluginYmlErrors: checkPluginYml(revisedFiles),
+              pomDiagnostics: checkPom(revisedFiles),
+              promptVersions: { ...manifest.promptVersions, ...usedPromptVersions() }
+            }, `Revision ${revision}`);
+          }
+        }
+
+        const processingTime = ((Date.now() - startTime) / 1000).toFixed(2);
+
+        res.json(formatApiResponse(
+          true,
+          compilationResult
+            ? compilationResult.success ? "Plugin revised and compiled successfully" : "Plugin revised but compilation failed"
+            : "Plugin revised successfully",
+          {
+            buildId,
+            revision,
+            commit,
+            changes,
+            data: changedFiles,
+            rejectedFiles: [...rejectedFiles, ...(compilationResult?.rejectedFiles || [])],
+            pluginYmlErrors: compilationResult ? compilationResult.pluginYmlErrors : checkPluginYml(revisedFiles),
+            pomDiagnostics: compilationResult ? compilationResult.pomDiagnostics : checkPom(revisedFiles),
+            ...(compilationResult && {
+              compiled: compilationResult.success,
+              jarPath: compilationResult.jarPath,
+              buildOutput: compilationResult.buildOutput,
+              fixAttempts: compilationResult.attempts,
+              downloadUrl: compilationResult.success ? `/api/build/download/${buildId}` : null
+            }),
+            processingTime: `${processingTime}s`
+          }
+        ));
+        finishBuildEvents(buildId, compilationResult ? compilationResult.success : true);
+      }));
+
+    } catch (error) {
+      if (isBuildCancellation(error)) {
+        respondBuildCancelled(res, buildId, error);
+        return;
+      }
+      console.error(`Error revising plugin ${buildId}:`, error);
+      res.status(500).json(formatApiResponse(
+        false,
+        "Failed to revise plugin",
+        { error: (error as Error).message }
+      ));
+      finishBuildEvents(buildId, false, (error as Error).message);
+    } finally {
+      releaseBuildSlot();
+    }
+  }
+);
+
+// Platforms and Minecraft versions that plugins can be generated for
+const targetRoutes: Router = express.Router();
+
+targetRoutes.get(
+  "/",
+  verifyToken,
+  rateLimit,
+  (req: Request, res: Response): void => {
+    res.json(formatApiResponse(
+      true,
+      "Supported targets retrieved successfully",
+      {
+        platforms: PLATFORMS,
+        default: DEFAULT_TARGET,
+        versions: SUPPORTED_VERSIONS.map(version => ({
+          mcVersion: version.mcVersion,
+          apiVersion: resolveTarget({ platform: version.platforms[0], mcVersion: version.mcVersion }).apiVersion,
+          javaRelease: version.javaRelease,
+          platforms: version.platforms.map(platform => ({
+            platform,
+            dependency: resolveTarget({ platform, mcVersion: version.mcVersion }).dependency
+          }))
+        }))
+      }
+    ));
+  }
+);
+
+// Project skeletons /api/create can build on
+const scaffoldRoutes: Router = express.Router();
+
+scaffoldRoutes.get(
+  "/",
+  verifyToken,
+  rateLimit,
+  (req: Request, res: Response): void => {
+    const scaffolds = listScaffolds();
+    res.json(formatApiResponse(
+      true,
+      "Scaffolds retrieved successfully",
+      { scaffolds, count: scaffolds.length }
+    ));
+  }
+);
+
+// Prompt templates and the versions currently in effect, including overrides
+const promptRoutes: Router = express.Router();
+
+promptRoutes.get(
+  "/",
+  verifyToken,
+  rateLimit,
+  (req: Request, res: Response): void => {
+    const templates = listPromptTemplates();
+    res.json(formatApiResponse(
+      true,
+      "Prompt templates retrieved successfully",
+      { templates, count: templates.length }
+    ));
+  }
+);
+
+// Admin routes for issuing, listing and revoking API keys
+const keyRoutes: Router = express.Router();
+
+keyRoutes.get(
+  "/",
+  verifyToken,
+  requireScope('admin'),
+  rateLimit,
+  (req: Request, res: Response): void => {
+    const keys = listKeys();
+    res.json(formatApiResponse(
+      true,
+      "API keys retrieved successfully",
+      { keys, count: keys.length }
+    ));
+  }
+);
+
+keyRoutes.post(
+  "/",
+  verifyToken,
+  requireScope('admin'),
+  rateLimit,
+  (req: Request, res: Response): void => {
+    const { name, scopes, expiresAt, expiresInDays } = req.body;
+
+    if (!name || typeof name !== 'string') {
+      res.status(400).json(formatApiResponse(false, "Request must contain a name field"));
+      return;
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || scopes.some(scope => !API_KEY_SCOPES.includes(scope))) {
+      res.status(400).json(formatApiResponse(
+        false,
+        `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`
+      ));
+      return;
+    }
+
+    // Expiry as an absolute date or a number of days from now
+    let expiry: string | null = null;
+    if (expiresAt !== undefined || expiresInDays !== undefined) {
+      const expiryDate = expiresAt !== undefined
+        ? new Date(expiresAt)
+        : new Date(Date.now() + Number(expiresInDays) * 24 * 60 * 60 * 1000);
+
+      if (isNaN(expiryDate.getTime()) || expiryDate.getTime() <= Date.now()) {
+        res.status(400).json(formatApiResponse(false, "Expiry must be a valid date in the future"));
+        return;
+      }
+      expiry = expiryDate.toISOString();
+    }
+
+    // Optional per-key overrides of the default rate limits and token budgets (0 means unlimited)
+    const limits: Partial<UsageLimits> = {};
+    if (req.body.limits !== undefined) {
+      const requested = req.body.limits;
+      const invalid = typeof requested !== 'object' || requested === null || Object.entries(requested).some(
+        ([name, value]) => !(name in DEFAULT_LIMITS) || !Number.isInteger(value) || (value as number) < 0
+      );
+      if (invalid) {
+        res.status(400).json(formatApiResponse(
+          false,
+          `limits must be an object of non-negative integers with any of: ${Object.keys(DEFAULT_LIMITS).join(', ')}`
+        ));
+        return;
+      }
+      Object.assign(limits, requested);
+    }
+
+    try {
+      const { key, record } = issueKey(name, scopes as ApiKeyScope[], expiry, limits);
+      res.status(201).json(formatApiResponse(
+        true,
+        "API key issued. Store the key now, it cannot be retrieved again",
+        { key, apiKey: record, issuedBy: req.apiKey?.id }
+      ));
+    } catch (error) {
+      console.error("Error issuing API key:", error);
+      res.status(500).json(formatApiResponse(
+        false,
+        "Failed to issue API key",
+        { error: (error as Error).message }
+      ));
+    }
+  }
+);
+
+keyRoutes.delete(
+  "/:keyId",
+  verifyToken,
+  requireScope('admin'),
+  rateLimit,
+  (req: Request, res: Response): void => {
+    try {
+      const revoked = revokeKey(req.params.keyId);
+      if (!revoked) {
+        res.status(404).json(formatApiResponse(false, `API key ${req.params.keyId} not found`));
+        return;
+      }
+
+      res.json(formatApiResponse(true, `API key ${revoked.id} revoked`, { apiKey: revoked }));
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json(formatApiResponse(
+        false,
+        "Failed to revoke API key",
+        { error: (error as Error).message }
+      ));
+    }
+  }
+);
+
+// Generation cache: statistics and entries, and purging single entries or everything
+const cacheRoutes: Router = express.Router();
+
+// Reads ?namespace=, answering 400 when it isn't one of the cache namespaces
+const readCacheNamespace = (req: Request, res: Response): CacheNamespace | undefined | null => {
+  const { namespace } = req.query;
+  if (namespace === undefined) return undefined;
+  if (!isCacheNamespace(namespace)) {
+    res.status(400).json(formatApiResponse(false, 'namespace must be "create" or "fix"'));
+    return null;
+  }
+  return namespace;
+};
+
+cacheRoutes.get(
+  "/",
+  verifyToken,
+  requireScope('admin'),
+  rateLimit,
+  (req: Request, res: Response): void => {
+    const namespace = readCacheNamespace(req, res);
+    if (namespace === null) return;
+
+    const entries = listCacheEntries(namespace);
+    res.json(formatApiResponse(
+      true,
+      "Cache retrieved successfully",
+      { stats: getCacheStats(), entries, count: entries.length }
+    ));
+  }
+);
+
+cacheRoutes.get(
+  "/:key",
+  verifyToken,
+  requireScope('admin'),
+  rateLimit,
+  (req: Request, res: Response): void => {
+    const entry = isCacheKey(req.params.key) ? readCacheEntry(req.params.key) : null;
+    if (!entry) {
+      res.status(404).json(formatApiResponse(false, `Cache entry ${req.params.key} not found`));
+      return;
+    }
+
+    res.json(formatApiResponse(true, "Cache entry retrieved successfully", { entry }));
+  }
+);
+
+cacheRoutes.delete(
+  "/:key",
+  verifyToken,
+  requireScope('admin'),
+  rateLimit,
+  (req: Request, res: Response): void => {
+    try {
+      if (!isCacheKey(req.params.key) || !deleteCacheEntry(req.params.key)) {
+        res.status(404).json(formatApiResponse(false, `Cache entry ${req.params.key} not found`));
+        return;
+      }
+
+      res.json(formatApiResponse(true, `Cache entry ${req.params.key} purged`, { key: req.params.key }));
+    } catch (error) {
+      console.error("Error purging cache entry:", error);
+      res.status(500).json(formatApiResponse(
+        false,
+        "Failed to purge cache entry",
+        { error: (error as Error).message }
+      ));
+    }
+  }
+);
+
+cacheRoutes.delete(
+  "/",
+  verifyToken,
+  requireScope('admin'),
+  rateLimit,
+  (req: Request, res: Response): void => {
+    const namespace = readCacheNamespace(req, res);
+    if (namespace === null) return;
+
+    try {
+      const removed = flushCache(namespace);
+      res.json(formatApiResponse(
+        true,
+        `Removed ${removed} cache entries`,
+        { removed, namespace: namespace || null }
+      ));
+    } catch (error) {
+      console.error("Error flushing cache:", error);
+      res.status(500).json(formatApiResponse(
+        false,
+        "Failed to flush cache",
+        { error: (error as Error).message }
+      ));
+    }
+  }
+);
+
+// Rate limits and LLM token usage per API key
+const usageRoutes: Router = express.Router();
+
+usageRoutes.get(
+  "/",
+  verifyToken,
+  rateLimit,
+  (req: Request, res: Response): void => {
+    const apiKey = req.apiKey!;
+    res.json(formatApiResponse(
+      true,
+      "Usage retrieved successfully",
+      { name: apiKey.name, ...getUsageSummary(apiKey.id, resolveLimits(apiKey.limits)) }
+    ));
+  }
+);
+
+usageRoutes.get(
+  "/keys",
+  verifyToken,
+  requireScope('admin'),
+  rateLimit,
+  (req: Request, res: Response): void => {
+    const keys = listKeys();
+
+    // Keys that have recorded usage but are no longer in the key store (like API_TOKEN) are listed too
+    const usage = [
+      ...keys.map(key => ({ name: key.name, status: key.status, ...getUsageSummary(key.id, resolveLimits(key.limits)) })),
+      ...listUsageKeyIds()
+        .filter(keyId => !keys.some(key => key.id === keyId))
+        .map(keyId => ({ name: keyId === 'env' ? 'API_TOKEN' : null, status: null, ...getUsageSummary(keyId, resolveLimits()) }))
+    ];
+
+    res.json(formatApiResponse(
+      true,
+      "Usage retrieved successfully",
+      { usage, count: usage.length }
+    ));
+  }
+);
+
 export default {
   fixRoutes,
   createRoutes,
   buildRoutes,
-  pluginsRoutes
+  pluginsRoutes,
+  targetRoutes,
+  scaffoldRoutes,
+  promptRoutes,
+  keyRoutes,
+  cacheRoutes,
+  usageRoutes
 };
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { execFileSync } from "child_process";
+import { buildApiIndex } from "../services/apiIndex";
+import { PLATFORMS, Platform, ResolvedTarget, resolveTarget, SUPPORTED_VERSIONS } from "../services/targets";
+
+// Prebuilds the server API indexes from the jars in the local Maven/Gradle cache.
+// Usage: npm run build:api-index -- [--download] [platform] [mcVersion]
+// With --download, Maven fetches each target's API jar and its dependencies first (the image build
+// does this); otherwise run a Maven build for a target first if its API jar hasn't been downloaded yet.
+
+const args = process.argv.slice(2);
+const download = args.includes('--download');
+const [platformArg, versionArg] = args.filter(arg => arg !== '--download');
+
+const targets = SUPPORTED_VERSIONS.flatMap(version =>
+  version.platforms
+    .filter(platform => !platformArg || platform === platformArg)
+    .filter(() => !versionArg || version.mcVersion === versionArg)
+    .map(platform => resolveTarget({ platform, mcVersion: version.mcVersion }))
+);
+
+if (platformArg && !PLATFORMS.includes(platformArg as Platform)) {
+  console.error(`Unknown platform "${platformArg}". Supported platforms: ${PLATFORMS.join(', ')}`);
+  process.exit(1);
+}
+
+const MAVEN_COMMAND = process.env.MAVEN_COMMAND || "mvn";
+
+// Resolves the API artifact into the local Maven repository the index is read from
+const downloadApiJar = (target: ResolvedTarget): void => {
+  const { groupId, artifactId, version } = target.dependency;
+  try {
+    execFileSync(MAVEN_COMMAND, [
+      '-B', '-q',
+      'dependency:get',
+      `-Dartifact=${groupId}:${artifactId}:${version}`,
+      `-DremoteRepositories=${target.repository.id}::default::${target.repository.url}`,
+      ...(process.env.MAVEN_REPOSITORY ? [`-Dmaven.repo.local=${process.env.MAVEN_REPOSITORY}`] : [])
+    ], { stdio: 'inherit', timeout: 10 * 60 * 1000 });
+  } catch (error) {
+    console.warn(`Could not download ${groupId}:${artifactId}:${version}:`, (error as Error).message);
+  }
+};
+
+let built = 0;
+targets.forEach(target => {
+  if (download) downloadApiJar(target);
+  const index = buildApiIndex(target);
+  if (!index) {
+    console.log(`- ${target.platform} ${target.mcVersion}: no local jar for ${target.dependency.artifactId}:${target.dependency.version}`);
+    return;
+  }
+  built++;
+  console.log(`✓ ${target.platform} ${target.mcVersion}: ${Object.keys(index.classes).length} classes from ${index.artifacts.join(', ')}`);
+});
+
+console.log(`Built ${built} of ${targets.length} API indexes`);
+process.exit(built > 0 ? 0 : 1);
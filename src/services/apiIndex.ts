@@ -0,0 +1,667 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import {
+  ACC_ANNOTATION,
+  ACC_BRIDGE,
+  ACC_ENUM,
+  ACC_INTERFACE,
+  ACC_PROTECTED,
+  ACC_PUBLIC,
+  ACC_SYNTHETIC,
+  ACC_VARARGS,
+  ClassFileInfo,
+  ClassMember,
+  parseClassFile,
+  parseMethodDescriptor,
+  readJarEntries,
+  sourceTypeName
+} from "./classFiles";
+import {
+  acceptsArity,
+  buildSymbolTable,
+  countArguments,
+  findQualifiedCalls,
+  JavaSourceFile,
+  lineAt,
+  resolveType,
+  SymbolTable
+} from "./javaSymbols";
+import { MavenDependency, PluginTarget, ResolvedTarget } from "./targets";
+
+// Offline index of the server API (classes, members, events, enum constants) for a target,
+// built from the API jars in the local Maven or Gradle cache. Generated code is checked
+// against it so invented API methods are caught before and during compilation.
+
+export type ApiClassKind = 'class' | 'interface' | 'enum' | 'annotation';
+
+export interface ApiClass {
+  kind: ApiClassKind;
+  superclass: string | null;
+  interfaces: string[];
+  fields: string[];                     // Public and protected fields, including enum constants
+  constructors: string[][];             // Parameter types; varargs are written as Type...
+  methods: Record<string, string[][]>;  // Method name -> parameter types of each overload
+}
+
+export interface ApiIndex {
+  target: PluginTarget;
+  artifacts: string[];               // groupId:artifactId:version of every jar read
+  builtAt: string;
+  packages: string[];                // Packages of the API jar itself; only these are checked
+  classes: Record<string, ApiClass>; // By source-style qualified name (a.B.C for nested classes)
+}
+
+export type ApiFindingKind = 'class' | 'method' | 'field' | 'constructor' | 'event';
+
+export interface ApiFinding {
+  id: string;
+  kind: ApiFindingKind;
+  file: string;
+  line: number | null;
+  message: string;
+  symbol: string;
+  suggestions: string[];
+}
+
+type FindingDraft = Omit<ApiFinding, 'id'>;
+
+// Prebuilt indexes ship in this directory; indexes built at runtime are written there too
+const API_INDEX_DIR = process.env.API_INDEX_DIR || path.join(__dirname, '../../api-index');
+
+const MAVEN_REPOSITORY = process.env.MAVEN_REPOSITORY || path.join(os.homedir(), '.m2', 'repository');
+const GRADLE_CACHE = path.join(os.homedir(), '.gradle', 'caches', 'modules-2', 'files-2.1');
+
+// How deep to follow the API jar's dependencies when looking for supertypes
+const MAX_DEPENDENCY_DEPTH = 3;
+
+const EVENT_CLASS = 'org.bukkit.event.Event';
+
+// The JDK types API classes commonly extend. Supertypes outside the index and this table
+// leave the hierarchy open, and unknown methods on it are not reported.
+const JDK_CLASSES: Record<string, ApiClass> = {
+  Object: {
+    kind: 'class',
+    superclass: null,
+    interfaces: [],
+    fields: [],
+    constructors: [[]],
+    methods: {
+      equals: [['Object']],
+      hashCode: [[]],
+      toString: [[]],
+      getClass: [[]],
+      notify: [[]],
+      notifyAll: [[]],
+      wait: [[], ['long'], ['long', 'int']]
+    }
+  },
+  Enum: {
+    kind: 'class',
+    superclass: 'Object',
+    interfaces: ['Comparable', 'java.io.Serializable'],
+    fields: [],
+    constructors: [],
+    methods: { name: [[]], ordinal: [[]], getDeclaringClass: [[]], describeConstable: [[]] }
+  },
+  Comparable: { kind: 'interface', superclass: null, interfaces: [], fields: [], constructors: [], methods: { compareTo: [['Object']] } },
+  Iterable: { kind: 'interface', superclass: null, interfaces: [], fields: [], constructors: [], methods: { iterator: [[]], forEach: [['java.util.function.Consumer']], spliterator: [[]] } },
+  Cloneable: { kind: 'interface', superclass: null, interfaces: [], fields: [], constructors: [], methods: {} },
+  'java.io.Serializable': { kind: 'interface', superclass: null, interfaces: [], fields: [], constructors: [], methods: {} }
+};
+
+const ENUM_CONSTANT_PATTERN = /\b([A-Z][\w$]*(?:\.[A-Z][\w$]*)*)\s*\.\s*([A-Z][A-Z0-9_]*)\b(?!\s*[\w$(])/g;
+const CONSTRUCTOR_CALL_PATTERN = /\bnew\s+([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*(?:<[^;(){}]*>)?\s*\(/g;
+const EVENT_HANDLER_PATTERN = /@EventHandler\b(?:\s*\([^()]*\))?\s+(?:(?:public|protected|private|final|synchronized)\s+)*void\s+[\w$]+\s*\(\s*(?:final\s+)?([\w$.]+)\s+[\w$]+\s*\)/g;
+
+const indexCache = new Map<string, ApiIndex>();
+const reportedMissing = new Set<string>();
+
+const indexKey = (target: PluginTarget): string => `${target.platform}-${target.mcVersion}`;
+
+const indexPath = (target: PluginTarget): string => path.join(API_INDEX_DIR, `${indexKey(target)}.json.gz`);
+
+const coordinates = (dependency: MavenDependency): string =>
+  `${dependency.groupId}:${dependency.artifactId}:${dependency.version}`;
+
+// Methods of a class by name; method names like "constructor" must not hit Object.prototype
+const ownMethods = (apiClass: ApiClass, name: string): string[][] =>
+  Object.prototype.hasOwnProperty.call(apiClass.methods, name) ? apiClass.methods[name] : [];
+
+/**
+ * Finds a jar in the local Maven repository or Gradle cache. Snapshots may only exist
+ * with timestamped names. With `anyVersion`, a missing version falls back to the newest one present.
+ */
+const findArtifactJar = (dependency: MavenDependency, anyVersion = false): { jarPath: string; version: string } | null => {
+  const { groupId, artifactId } = dependency;
+  const isJar = (file: string) =>
+    file.startsWith(`${artifactId}-`) && file.endsWith('.jar') && !/-(sources|javadoc|tests)\.jar$/.test(file);
+
+  const newestFirst = (dir: string, names: string[]): string[] =>
+    names.map(name => ({ name, time: fs.statSync(path.join(dir, name)).mtimeMs }))
+      .sort((a, b) => b.time - a.time)
+      .map(entry => entry.name);
+
+  const mavenDir = path.join(MAVEN_REPOSITORY, ...groupId.split('.'), artifactId);
+  const gradleDir = path.join(GRADLE_CACHE, groupId, artifactId);
+
+  for (const baseDir of [mavenDir, gradleDir]) {
+    if (!fs.existsSync(baseDir)) continue;
+    const versions = fs.existsSync(path.join(baseDir, dependency.version))
+      ? [dependency.version]
+      : !anyVersion ? [] : newestFirst(baseDir, fs.readdirSync(baseDir).filter(name => fs.statSync(path.join(baseDir, name)).isDirectory()));
+
+    for (const version of versions) {
+      const versionDir = path.join(baseDir, version);
+      // Gradle keeps each file in a directory named after its hash
+      const dirs = baseDir === gradleDir
+        ? fs.readdirSync(versionDir).map(hash => path.join(versionDir, hash))
+        : [versionDir];
+
+      for (const dir of dirs) {
+        if (!fs.statSync(dir).isDirectory()) continue;
+        const jars = fs.readdirSync(dir).filter(isJar);
+        const exact = jars.find(jar => jar === `${artifactId}-${version}.jar`);
+        const jar = exact || newestFirst(dir, jars)[0];
+        if (jar) return { jarPath: path.join(dir, jar), version };
+      }
+    }
+  }
+  return null;
+};
+
+const xmlValue = (xml: string, tag: string): string | null => {
+  const match = xml.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`));
+  return match ? match[1] : null;
+};
+
+/**
+ * Reads the compile and runtime dependencies from the pom next to a jar
+ */
+const readPomDependencies = (jarPath: string, version: string): MavenDependency[] => {
+  // Gradle keeps the pom in a sibling hash directory
+  const dirs = jarPath.startsWith(GRADLE_CACHE)
+    ? fs.readdirSync(path.dirname(path.dirname(jarPath))).map(hash => path.join(path.dirname(path.dirname(jarPath)), hash))
+    : [path.dirname(jarPath)];
+  const pomPath = dirs
+    .flatMap(dir => fs.readdirSync(dir).filter(file => file.endsWith('.pom')).map(file => path.join(dir, file)))[0];
+  if (!pomPath) return [];
+
+  const pom = fs.readFileSync(pomPath, 'utf8')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '');
+
+  const properties: Record<string, string> = { 'project.version': version };
+  const propertiesBlock = pom.match(/<properties>([\s\S]*?)<\/properties>/);
+  if (propertiesBlock) {
+    for (const match of propertiesBlock[1].matchAll(/<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g)) {
+      properties[match[1]] = match[2];
+    }
+  }
+  const substitute = (value: string | null): string | null =>
+    value && value.replace(/\$\{([^}]+)\}/g, (whole, name) => properties[name] ?? whole);
+
+  const dependenciesBlock = pom.match(/<dependencies>([\s\S]*?)<\/dependencies>/);
+  if (!dependenciesBlock) return [];
+
+  return [...dependenciesBlock[1].matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)]
+    .map(match => match[1])
+    .filter(xml => !['test', 'provided', 'system'].includes(xmlValue(xml, 'scope') || '') && xmlValue(xml, 'optional') !== 'true')
+    .map(xml => ({
+      groupId: substitute(xmlValue(xml, 'groupId')) || '',
+      artifactId: substitute(xmlValue(xml, 'artifactId')) || '',
+      version: substitute(xmlValue(xml, 'version')) || ''
+    }))
+    .filter(dependency => dependency.groupId && dependency.artifactId);
+};
+
+const isVisible = (member: ClassMember): boolean =>
+  (member.accessFlags & (ACC_PUBLIC | ACC_PROTECTED)) !== 0 && (member.accessFlags & (ACC_SYNTHETIC | ACC_BRIDGE)) === 0;
+
+const toApiClass = (info: ClassFileInfo): ApiClass => {
+  const kind: ApiClassKind = info.accessFlags & ACC_ANNOTATION ? 'annotation'
+    : info.accessFlags & ACC_INTERFACE ? 'interface'
+    : info.accessFlags & ACC_ENUM ? 'enum'
+    : 'class';
+
+  const parameterTypes = (member: ClassMember): string[] => {
+    const { parameters } = parseMethodDescriptor(member.descriptor);
+    if (member.accessFlags & ACC_VARARGS && parameters.length > 0) {
+      parameters[parameters.length - 1] = parameters[parameters.length - 1].replace(/\[\]$/, '...');
+    }
+    return parameters;
+  };
+
+  const methods: Record<string, string[][]> = Object.create(null);
+  const constructors: string[][] = [];
+  info.methods.filter(isVisible).forEach(method => {
+    if (method.name === '<init>') {
+      constructors.push(parameterTypes(method));
+    } else if (method.name !== '<clinit>') {
+      (methods[method.name] = methods[method.name] || []).push(parameterTypes(method));
+    }
+  });
+
+  return {
+    kind,
+    // Interfaces have Object as their superclass in the class file
+    superclass: info.superclass && kind !== 'interface' && kind !== 'annotation' ? sourceTypeName(info.superclass) : null,
+    interfaces: info.interfaces.map(sourceTypeName),
+    fields: info.fields.filter(isVisible).map(field => field.name),
+    constructors,
+    methods
+  };
+};
+
+// Public classes of a jar, skipping anonymous and local classes
+const readApiClasses = (jarPath: string, filter: (binaryName: string) => boolean = () => true): ClassFileInfo[] => {
+  const classes: ClassFileInfo[] = [];
+  readJarEntries(
+    jarPath,
+    entry => entry.endsWith('.class') && !/\$\d/.test(entry) && !entry.endsWith('module-info.class') &&
+      filter(entry.slice(0, -'.class'.length).replace(/\//g, '.')),
+    (entry, content) => {
+      const info = parseClassFile(content);
+      if (info.accessFlags & ACC_PUBLIC) classes.push(info);
+    }
+  );
+  return classes;
+};
+
+/**
+ * Builds the index for a target from the API jar and writes it to the index directory.
+ * Returns null when the API jar isn't in any local cache.
+ */
+export const buildApiIndex = (target: ResolvedTarget): ApiIndex | null => {
+  const main = findArtifactJar(target.dependency);
+  if (!main) return null;
+
+  const artifacts = [coordinates({ ...target.dependency, version: main.version })];
+  const classes: Record<string, ApiClass> = {};
+  const packages = new Set<string>();
+
+  const addClass = (info: ClassFileInfo) => {
+    classes[sourceTypeName(info.name)] = toApiClass(info);
+  };
+
+  readApiClasses(main.jarPath).forEach(info => {
+    addClass(info);
+    packages.add(info.name.slice(0, info.name.lastIndexOf('.')));
+  });
+
+  // Supertypes that live in dependency jars (Adventure for Paper, for example) are indexed
+  // too, so hierarchies through them stay closed. Their other classes are left out.
+  const missingSupertypes = (): Set<string> => {
+    const missing = new Set<string>();
+    Object.values(classes).forEach(apiClass => {
+      [apiClass.superclass, ...apiClass.interfaces].forEach(name => {
+        if (name && !classes[name] && !JDK_CLASSES[name] && !name.startsWith('java.')) missing.add(name);
+      });
+    });
+    return missing;
+  };
+
+  const visited = new Set<string>([`${target.dependency.groupId}:${target.dependency.artifactId}`]);
+  let level = readPomDependencies(main.jarPath, main.version);
+
+  for (let depth = 1; depth <= MAX_DEPENDENCY_DEPTH && level.length > 0; depth++) {
+    const next: MavenDependency[] = [];
+
+    level.forEach(dependency => {
+      const key = `${dependency.groupId}:${dependency.artifactId}`;
+      if (visited.has(key)) return;
+      visited.add(key);
+
+      // Supertypes rarely change between versions, so any local version of a dependency will do
+      const found = findArtifactJar(dependency, true);
+      if (!found) return;
+
+      let missing = missingSupertypes();
+      let added = 0;
+      while (missing.size > 0) {
+        const wanted = readApiClasses(found.jarPath, binaryName => missing.has(sourceTypeName(binaryName)));
+        if (wanted.length === 0) break;
+        wanted.forEach(addClass);
+        added += wanted.length;
+        missing = missingSupertypes();
+      }
+
+      if (added > 0) artifacts.push(coordinates({ ...dependency, version: found.version }));
+      next.push(...readPomDependencies(found.jarPath, found.version));
+    });
+
+    level = next;
+  }
+
+  const index: ApiIndex = {
+    target: { platform: target.platform, mcVersion: target.mcVersion },
+    artifacts,
+    builtAt: new Date().toISOString(),
+    packages: [...packages].sort(),
+    classes
+  };
+
+  try {
+    fs.mkdirSync(API_INDEX_DIR, { recursive: true });
+    fs.writeFileSync(indexPath(target), zlib.gzipSync(JSON.stringify(index)));
+  } catch (error) {
+    console.warn(`[API INDEX] Could not save the index for ${indexKey(target)}:`, (error as Error).message);
+  }
+  return index;
+};
+
+/**
+ * Returns the API index for a target: cached, bundled, or built from the local jars.
+ * Null when none of these exist; checks are skipped then.
+ */
+export const loadApiIndex = (target: ResolvedTarget): ApiIndex | null => {
+  const key = indexKey(target);
+  const cached = indexCache.get(key);
+  if (cached) return cached;
+
+  let index: ApiIndex | null = null;
+  try {
+    if (fs.existsSync(indexPath(target))) {
+      index = JSON.parse(zlib.gunzipSync(fs.readFileSync(indexPath(target))).toString('utf8'));
+    } else {
+      index = buildApiIndex(target);
+      if (index) {
+        console.log(`[API INDEX] Indexed ${Object.keys(index.classes).length} classes from ${index.artifacts.join(', ')}`);
+      }
+    }
+  } catch (error) {
+    console.warn(`[API INDEX] Could not load the index for ${key}:`, (error as Error).message);
+  }
+
+  if (!index) {
+    // Not cached, so the index is built once a Maven build has downloaded the jar
+    if (!reportedMissing.has(key)) {
+      reportedMissing.add(key);
+      console.log(`[API INDEX] No index or local jar for ${coordinates(target.dependency)}; API checks are skipped`);
+    }
+    return null;
+  }
+
+  indexCache.set(key, index);
+  return index;
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * The closest names to one that doesn't exist, for "did you mean" hints
+ */
+export const suggestNames = (name: string, candidates: Iterable<string>, limit = 3): string[] => {
+  const lower = name.toLowerCase();
+  const maxDistance = Math.max(2, Math.floor(name.length / 3));
+
+  return [...new Set(candidates)]
+    .map(candidate => {
+      const candidateLower = candidate.toLowerCase();
+      // Containment catches getPlayer -> getPlayerExact style near misses with longer names
+      const distance = candidateLower.includes(lower) || lower.includes(candidateLower)
+        ? Math.abs(candidate.length - name.length) / 2
+        : editDistance(lower, candidateLower);
+      return { candidate, distance };
+    })
+    .filter(entry => entry.distance <= maxDistance && entry.candidate !== name)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, limit)
+    .map(entry => entry.candidate);
+};
+
+/**
+ * Resolves a type name as written in a file to an indexed class, following the file's
+ * imports. Project types and unknown names resolve to null.
+ */
+const resolveApiClass = (index: ApiIndex, table: SymbolTable, source: JavaSourceFile, typeName: string): string | null => {
+  const name = typeName.replace(/<[\s\S]*$/, '').replace(/\[\]/g, '').trim();
+  if (!name || resolveType(table, source.path, name)) return null;
+  if (index.classes[name]) return name;
+
+  const [first, ...rest] = name.split('.');
+  const suffix = rest.length > 0 ? `.${rest.join('.')}` : '';
+  const candidates = [
+    ...source.imports.filter(item => !item.isStatic && !item.isWildcard && item.name.endsWith(`.${first}`)).map(item => item.name),
+    ...source.imports.filter(item => !item.isStatic && item.isWildcard).map(item => `${item.name}.${first}`)
+  ];
+
+  const found = candidates.map(candidate => candidate + suffix).find(candidate => index.classes[candidate]);
+  return found || null;
+};
+
+const lookupClass = (index: ApiIndex, name: string): ApiClass | null => index.classes[name] || JDK_CLASSES[name] || null;
+
+/**
+ * Walks a class and its supertypes. `open` is set when a supertype is not indexed,
+ * so more members may exist than the index knows about.
+ */
+const walkHierarchy = (index: ApiIndex, name: string): { classes: ApiClass[]; names: string[]; open: boolean } => {
+  const classes: ApiClass[] = [];
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let open = false;
+
+  const visit = (current: string) => {
+    if (seen.has(current)) return;
+    seen.add(current);
+    const apiClass = lookupClass(index, current);
+    if (!apiClass) {
+      open = true;
+      return;
+    }
+    classes.push(apiClass);
+    names.push(current);
+    [apiClass.superclass, ...apiClass.interfaces].forEach(parent => parent && visit(parent));
+    // Interfaces still have Object's methods
+    if (apiClass.kind === 'interface' && !apiClass.superclass) visit('Object');
+  };
+
+  visit(name);
+  return { classes, names, open };
+};
+
+const simpleName = (qualifiedName: string): string => qualifiedName.slice(qualifiedName.lastIndexOf('.') + 1);
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describeOverloads = (name: string, overloads: string[][]): string =>
+  overloads.map(parameters => `${name}(${parameters.map(simpleName).join(', ')})`).join(' or ');
+
+const checkImports = (index: ApiIndex, source: JavaSourceFile): FindingDraft[] =>
+  source.imports.flatMap(item => {
+    if (item.isWildcard && !item.isStatic) return [];
+    const className = item.isStatic ? item.name.slice(0, item.name.lastIndexOf('.')) : item.name;
+
+    // Nested classes are imported as package.Outer.Inner; find the package part
+    const segments = className.split('.');
+    const packageIndex = segments.findIndex(segment => /^[A-Z]/.test(segment));
+    const packageName = segments.slice(0, packageIndex === -1 ? -1 : packageIndex).join('.');
+    if (!index.packages.includes(packageName) || index.classes[className]) return [];
+
+    const siblings = Object.keys(index.classes)
+      .filter(name => name.startsWith(`${packageName}.`) && !name.slice(packageName.length + 1).includes('.'))
+      .map(simpleName);
+    const suggestions = suggestNames(simpleName(className), siblings).map(name => `${packageName}.${name}`);
+
+    return [{
+      kind: 'class' as const,
+      file: source.path,
+      line: item.line,
+      message: `Import of ${className}, which is not part of the ${index.target.platform} ${index.target.mcVersion} API`,
+      symbol: className,
+      suggestions
+    }];
+  });
+
+const checkConstants = (index: ApiIndex, table: SymbolTable, source: JavaSourceFile): FindingDraft[] => {
+  const findings: FindingDraft[] = [];
+  ENUM_CONSTANT_PATTERN.lastIndex = 0;
+  let match;
+  while ((match = ENUM_CONSTANT_PATTERN.exec(source.masked)) !== null) {
+    const [, typeName, constant] = match;
+    const before = source.masked.slice(0, match.index).trimEnd();
+    if (before.endsWith('.')) continue;
+
+    const className = resolveApiClass(index, table, source, typeName);
+    if (!className || index.classes[`${className}.${constant}`]) continue;
+
+    const { classes, open } = walkHierarchy(index, className);
+    const fields = classes.flatMap(apiClass => apiClass.fields);
+    if (open || fields.includes(constant)) continue;
+
+    findings.push({
+      kind: 'field',
+      file: source.path,
+      line: lineAt(source.masked, match.index),
+      message: `${typeName}.${constant} does not exist in ${className}`,
+      symbol: `${className}.${constant}`,
+      suggestions: suggestNames(constant, fields).map(name => `${typeName}.${name}`)
+    });
+  }
+  return findings;
+};
+
+const checkMethodCalls = (index: ApiIndex, table: SymbolTable, source: JavaSourceFile): FindingDraft[] =>
+  findQualifiedCalls(table, source.path).flatMap(call => {
+    const className = call.receiverType ? resolveApiClass(index, table, source, call.receiverType) : null;
+    if (!className) return [];
+
+    const { classes, open } = walkHierarchy(index, className);
+    const overloads = classes.flatMap(apiClass => ownMethods(apiClass, call.method));
+    const symbol = `${className}.${call.method}`;
+
+    if (overloads.length === 0) {
+      if (open) return [];
+      const methodNames = classes.flatMap(apiClass => Object.keys(apiClass.methods));
+      return [{
+        kind: 'method' as const,
+        file: source.path,
+        line: call.line,
+        message: `${call.receiver}.${call.method}(...) calls a method ${simpleName(className)} does not have`,
+        symbol,
+        suggestions: suggestNames(call.method, methodNames).map(name => `${call.receiver}.${name}(...)`)
+      }];
+    }
+
+    if (open || overloads.some(parameters => acceptsArity({ parameters }, call.arity))) return [];
+    return [{
+      kind: 'method' as const,
+      file: source.path,
+      line: call.line,
+      message: `${call.receiver}.${call.method}(...) passes ${plural(call.arity, 'argument')}, but ${simpleName(className)} has ${describeOverloads(call.method, overloads)}`,
+      symbol,
+      suggestions: []
+    }];
+  });
+
+const checkConstructorCalls = (index: ApiIndex, table: SymbolTable, source: JavaSourceFile): FindingDraft[] => {
+  const findings: FindingDraft[] = [];
+  CONSTRUCTOR_CALL_PATTERN.lastIndex = 0;
+  let match;
+  while ((match = CONSTRUCTOR_CALL_PATTERN.exec(source.masked)) !== null) {
+    const className = resolveApiClass(index, table, source, match[1]);
+    const apiClass = className ? index.classes[className] : null;
+    // Interfaces and abstract classes are instantiated through anonymous classes
+    if (!className || !apiClass || apiClass.kind !== 'class' || apiClass.constructors.length === 0) continue;
+
+    const arity = countArguments(source.masked, match.index + match[0].length - 1);
+    if (apiClass.constructors.some(parameters => acceptsArity({ parameters }, arity))) continue;
+
+    findings.push({
+      kind: 'constructor',
+      file: source.path,
+      line: lineAt(source.masked, match.index),
+      message: `new ${match[1]}(...) passes ${plural(arity, 'argument')}, but ${simpleName(className)} has ${describeOverloads(simpleName(className), apiClass.constructors)}`,
+      symbol: className,
+      suggestions: []
+    });
+  }
+  return findings;
+};
+
+const checkEventHandlers = (index: ApiIndex, table: SymbolTable, source: JavaSourceFile): FindingDraft[] => {
+  const findings: FindingDraft[] = [];
+  const eventNames = () => Object.keys(index.classes)
+    .filter(name => name !== EVENT_CLASS && walkHierarchy(index, name).names.includes(EVENT_CLASS))
+    .map(simpleName);
+
+  EVENT_HANDLER_PATTERN.lastIndex = 0;
+  let match;
+  while ((match = EVENT_HANDLER_PATTERN.exec(source.masked)) !== null) {
+    const typeName = match[1];
+    if (resolveType(table, source.path, typeName)) continue; // Custom events are checked by the compiler
+
+    const className = resolveApiClass(index, table, source, typeName);
+    const line = lineAt(source.masked, match.index + match[0].indexOf(typeName));
+
+    if (className) {
+      const { names, open } = walkHierarchy(index, className);
+      if (open || names.includes(EVENT_CLASS)) continue;
+      findings.push({
+        kind: 'event',
+        file: source.path,
+        line,
+        message: `@EventHandler method takes ${className}, which is not an event`,
+        symbol: className,
+        suggestions: []
+      });
+      continue;
+    }
+
+    // Not imported from the API: only report names no API class has, since a missing
+    // import is left to the compiler
+    const imported = source.imports.some(item => item.name.endsWith(`.${typeName.split('.')[0]}`));
+    const exists = Object.keys(index.classes).some(name => name === typeName || name.endsWith(`.${typeName}`));
+    if (imported || exists || !/Event$/.test(typeName)) continue;
+
+    findings.push({
+      kind: 'event',
+      file: source.path,
+      line,
+      message: `@EventHandler method takes ${typeName}, which is not an event in the ${index.target.platform} ${index.target.mcVersion} API`,
+      symbol: typeName,
+      suggestions: suggestNames(typeName, eventNames())
+    });
+  }
+  return findings;
+};
+
+/**
+ * Checks the generated Java sources against the server API of the target.
+ * Returns no findings when there is no index for the target.
+ */
+export const checkApiUsage = (files: Record<string, string>, target: ResolvedTarget): ApiFinding[] => {
+  const index = loadApiIndex(target);
+  if (!index) return [];
+
+  const table = buildSymbolTable(files);
+  return Object.values(table.files)
+    .flatMap(source => [
+      ...checkImports(index, source),
+      ...checkConstants(index, table, source),
+      ...checkMethodCalls(index, table, source),
+      ...checkConstructorCalls(index, table, source),
+      ...checkEventHandlers(index, table, source)
+    ])
+    .map((draft, position) => ({ id: `A${position + 1}`, ...draft }));
+};
+
+export const formatApiFinding = (finding: ApiFinding): string =>
+  `[${finding.id}] ${finding.kind} ${finding.file}${finding.line ? `:${finding.line}` : ''}: ${finding.message}` +
+  (finding.suggestions.length > 0 ? ` (did you mean ${finding.suggestions.join(', ')}?)` : '');
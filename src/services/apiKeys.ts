@@ -0,0 +1,167 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { UsageLimits } from "./usage";
+
+// Named API keys with hashed secrets and scopes, stored in a JSON file
+
+export type ApiKeyScope = 'create' | 'fix' | 'build:read' | 'build:download' | 'admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['create', 'fix', 'build:read', 'build:download', 'admin'];
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  secretHash: string; // sha256 of the secret part of the key
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  limits?: Partial<UsageLimits>; // overrides of the server-wide defaults
+}
+
+// What verifyToken attaches to the request
+export interface ApiKeyIdentity {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  limits: Partial<UsageLimits>;
+}
+
+// Key records without their secret hash, for listing
+export type ApiKeySummary = Omit<ApiKeyRecord, 'secretHash'> & { status: 'active' | 'expired' | 'revoked' };
+
+const API_KEYS_FILE = process.env.API_KEYS_FILE || path.join(__dirname, '../../data/api-keys.json');
+
+// Keys look like pk_<id>_<secret>
+const KEY_PREFIX = 'pk';
+const KEY_PATTERN = /^pk_([a-f0-9]{12})_([A-Za-z0-9_-]{43})$/;
+
+// Don't rewrite the key file on every request just to bump lastUsedAt
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// The legacy API_TOKEN keeps working as an admin key
+const ENV_KEY_IDENTITY: ApiKeyIdentity = { id: 'env', name: 'API_TOKEN', scopes: ['admin'], limits: {} };
+
+let keys: ApiKeyRecord[] | null = null;
+
+const hashSecret = (secret: string): string => crypto.createHash('sha256').update(secret).digest('hex');
+
+const loadKeys = (): ApiKeyRecord[] => {
+  if (keys) return keys;
+
+  try {
+    keys = fs.existsSync(API_KEYS_FILE) ? JSON.parse(fs.readFileSync(API_KEYS_FILE, 'utf8')) : [];
+  } catch (error) {
+    console.error(`Could not read API keys from ${API_KEYS_FILE}:`, error);
+    keys = [];
+  }
+  return keys!;
+};
+
+const saveKeys = (): void => {
+  fs.mkdirSync(path.dirname(API_KEYS_FILE), { recursive: true });
+  const tempPath = `${API_KEYS_FILE}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(loadKeys(), null, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, API_KEYS_FILE);
+};
+
+const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+const keyStatus = (record: Pick<ApiKeyRecord, 'expiresAt' | 'revokedAt'>): ApiKeySummary['status'] => {
+  if (record.revokedAt) return 'revoked';
+  if (record.expiresAt && new Date(record.expiresAt).getTime() <= Date.now()) return 'expired';
+  return 'active';
+};
+
+const summarizeKey = ({ secretHash, ...record }: ApiKeyRecord): ApiKeySummary => ({
+  ...record,
+  status: keyStatus(record)
+});
+
+export const hasScope = (identity: ApiKeyIdentity, scope: ApiKeyScope): boolean =>
+  identity.scopes.includes('admin') || identity.scopes.includes(scope);
+
+/**
+ * Returns the identity for a bearer token, or null when it is unknown, expired or revoked
+ */
+export const authenticateKey = (token: string): ApiKeyIdentity | null => {
+  const envToken = process.env.API_TOKEN;
+  if (envToken && safeEqual(token, envToken)) {
+    return ENV_KEY_IDENTITY;
+  }
+
+  const match = token.match(KEY_PATTERN);
+  if (!match) return null;
+
+  const [, id, secret] = match;
+  const record = loadKeys().find(key => key.id === id);
+  if (!record || keyStatus(record) !== 'active' || !safeEqual(hashSecret(secret), record.secretHash)) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (!record.lastUsedAt || now - new Date(record.lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS) {
+    record.lastUsedAt = new Date(now).toISOString();
+    try {
+      saveKeys();
+    } catch (error) {
+      console.warn(`Could not record last use of API key ${id}:`, error);
+    }
+  }
+
+  return { id: record.id, name: record.name, scopes: record.scopes, limits: record.limits || {} };
+};
+
+/**
+ * Creates a key and returns it together with the full secret, which is not stored
+ */
+export const issueKey = (
+  name: string,
+  scopes: ApiKeyScope[],
+  expiresAt: string | null = null,
+  limits: Partial<UsageLimits> = {}
+): { key: string; record: ApiKeySummary } => {
+  const id = crypto.randomBytes(6).toString('hex');
+  const secret = crypto.randomBytes(32).toString('base64url');
+
+  const record: ApiKeyRecord = {
+    id,
+    name,
+    secretHash: hashSecret(secret),
+    scopes: [...new Set(scopes)],
+    createdAt: new Date().toISOString(),
+    expiresAt,
+    lastUsedAt: null,
+    revokedAt: null,
+    ...(Object.keys(limits).length > 0 ? { limits } : {})
+  };
+
+  loadKeys().push(record);
+  saveKeys();
+  console.log(`[KEYS] Issued API key ${id} (${name}) with scopes: ${record.scopes.join(', ')}`);
+
+  return { key: `${KEY_PREFIX}_${id}_${secret}`, record: summarizeKey(record) };
+};
+
+export const listKeys = (): ApiKeySummary[] => loadKeys().map(summarizeKey);
+
+/**
+ * Revokes a key. Returns null when there is no key with that ID.
+ */
+export const revokeKey = (id: string): ApiKeySummary | null => {
+  const record = loadKeys().find(key => key.id === id);
+  if (!record) return null;
+
+  if (!record.revokedAt) {
+    record.revokedAt = new Date().toISOString();
+    saveKeys();
+    console.log(`[KEYS] Revoked API key ${id} (${record.name})`);
+  }
+  return summarizeKey(record);
+};
@@ -0,0 +1,95 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { BuildStatus } from "./buildStore";
+import { LLMModel } from "./llm";
+
+// Cancellation and wall-clock timeouts for running builds
+
+export type CancelReason = 'cancelled' | 'timeout' | 'disconnected';
+
+// Wall-clock limit for a whole build, from generation to the last fix attempt (default: 15 minutes, 0 disables)
+export const BUILD_TIMEOUT_MS = parseInt(process.env.BUILD_TIMEOUT_SECONDS || "900") * 1000;
+
+interface BuildControl {
+  controller: AbortController;
+  timer?: NodeJS.Timeout;
+}
+
+// The abort reason; carries why the build was stopped
+export type BuildCancellation = Error & { reason: CancelReason };
+
+const CANCEL_MESSAGES: Record<CancelReason, string> = {
+  cancelled: "Build cancelled",
+  timeout: `Build timed out after ${BUILD_TIMEOUT_MS / 1000} seconds`,
+  disconnected: "Build cancelled because the client disconnected"
+};
+
+const controls = new Map<string, BuildControl>();
+
+// The signal of the build whose work is running, carried through async work
+const signalContext = new AsyncLocalStorage<AbortSignal>();
+
+const createCancellation = (reason: CancelReason): BuildCancellation =>
+  Object.assign(new Error(CANCEL_MESSAGES[reason]), { name: 'BuildCancellation', reason });
+
+/**
+ * Runs a build's work so it can be cancelled with cancelBuild and stops once the build timeout passes
+ */
+export const runCancellable = async <T>(buildId: string, task: () => Promise<T>): Promise<T> => {
+  const control: BuildControl = { controller: new AbortController() };
+  if (BUILD_TIMEOUT_MS > 0) {
+    control.timer = setTimeout(() => {
+      console.warn(`[BUILD ${buildId}] Timed out after ${BUILD_TIMEOUT_MS / 1000}s`);
+      control.controller.abort(createCancellation('timeout'));
+    }, BUILD_TIMEOUT_MS);
+    control.timer.unref();
+  }
+  controls.set(buildId, control);
+
+  try {
+    return await signalContext.run(control.controller.signal, task);
+  } catch (error) {
+    // Whatever failed after the abort (like an aborted model request) failed because of it
+    throw control.controller.signal.aborted ? control.controller.signal.reason : error;
+  } finally {
+    clearTimeout(control.timer);
+    // A newer run under the same build ID may have replaced this one
+    if (controls.get(buildId) === control) {
+      controls.delete(buildId);
+    }
+  }
+};
+
+/**
+ * Stops a running build. Returns false when the build isn't running.
+ */
+export const cancelBuild = (buildId: string, reason: CancelReason = 'cancelled'): boolean => {
+  const control = controls.get(buildId);
+  if (!control || control.controller.signal.aborted) return false;
+
+  console.log(`[BUILD ${buildId}] ${CANCEL_MESSAGES[reason]}`);
+  control.controller.abort(createCancellation(reason));
+  return true;
+};
+
+export const isBuildRunning = (buildId: string): boolean => controls.has(buildId);
+
+export const currentBuildSignal = (): AbortSignal | undefined => signalContext.getStore();
+
+export const isBuildCancellation = (error: unknown): error is BuildCancellation =>
+  error instanceof Error && error.name === 'BuildCancellation';
+
+// Timeouts count as failures; anything else that stopped a build is a cancellation
+export const cancellationStatus = (cancellation: BuildCancellation): BuildStatus =>
+  cancellation.reason === 'timeout' ? 'failed' : 'cancelled';
+
+/**
+ * Wraps a model so calls made for a build are aborted when the build is cancelled
+ */
+export const withCancellation = (model: LLMModel): LLMModel => ({
+  name: model.name,
+  async generateContent(prompt, options = {}) {
+    const signal = options.signal || currentBuildSignal();
+    signal?.throwIfAborted();
+    return model.generateContent(prompt, { ...options, signal });
+  }
+});
@@ -0,0 +1,149 @@
+import { EventEmitter } from "events";
+import { ApiFinding } from "./apiIndex";
+import { ConsistencyIssue } from "./consistency";
+import { Diagnostic } from "./diagnostics";
+
+// Progress events for the create pipeline, consumed by the SSE endpoint
+
+export type BuildStage =
+  | 'name'
+  | 'blueprint'
+  | 'fileList'
+  | 'generate'
+  | 'consistency'
+  | 'validate'
+  | 'revise'
+  | 'compile';
+
+export type BuildEventPayload =
+  | { type: 'status'; status: string; error?: string }
+  | { type: 'stage:start'; stage: BuildStage }
+  | { type: 'stage:finish'; stage: BuildStage; durationMs: number; success: boolean; error?: string }
+  | { type: 'plugin:name'; pluginName: string }
+  | { type: 'files:planned'; fileStructure: string[] }
+  | { type: 'file:generated'; filePath: string; size: number }
+  | { type: 'consistency:issues'; fixed: ConsistencyIssue[]; remaining: ConsistencyIssue[] }
+  | { type: 'api:findings'; findings: ApiFinding[] }
+  | { type: 'pom:diagnostics'; diagnostics: Diagnostic[] }
+  | { type: 'build:output'; stream: 'stdout' | 'stderr'; line: string }
+  | { type: 'fix:attempt'; attempt: number; outcome: string; filesChanged: string[] }
+  | { type: 'done'; success: boolean; message?: string };
+
+export type BuildEvent = BuildEventPayload & {
+  id: number;
+  buildId: string;
+  timestamp: string;
+};
+
+interface BuildEventChannel {
+  history: BuildEvent[];
+  nextId: number;
+  finished: boolean;
+}
+
+// Keep at most this many events per build for late subscribers
+const MAX_HISTORY = 2000;
+
+// How long the history of a finished build stays available (default: 10 minutes)
+const HISTORY_RETENTION_MS = parseInt(process.env.BUILD_EVENTS_RETENTION_SECONDS || "600") * 1000;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const channels = new Map<string, BuildEventChannel>();
+
+const getChannel = (buildId: string): BuildEventChannel => {
+  let channel = channels.get(buildId);
+  if (!channel) {
+    channel = { history: [], nextId: 1, finished: false };
+    channels.set(buildId, channel);
+  }
+  return channel;
+};
+
+export const emitBuildEvent = (buildId: string, payload: BuildEventPayload): void => {
+  const channel = getChannel(buildId);
+
+  // A new run under the same build ID starts with a fresh history
+  if (channel.finished) {
+    channel.finished = false;
+    channel.history = [];
+  }
+
+  const event = {
+    ...payload,
+    id: channel.nextId++,
+    buildId,
+    timestamp: new Date().toISOString()
+  } as BuildEvent;
+
+  channel.history.push(event);
+  if (channel.history.length > MAX_HISTORY) {
+    channel.history.splice(0, channel.history.length - MAX_HISTORY);
+  }
+
+  if (payload.type === 'done') {
+    channel.finished = true;
+    setTimeout(() => {
+      if (channels.get(buildId) === channel && channel.finished) {
+        channels.delete(buildId);
+      }
+    }, HISTORY_RETENTION_MS).unref();
+  }
+
+  emitter.emit(buildId, event);
+};
+
+export const finishBuildEvents = (buildId: string, success: boolean, message?: string): void => {
+  emitBuildEvent(buildId, { type: 'done', success, message });
+};
+
+/**
+ * Runs one pipeline stage and reports its start and finish
+ */
+export const trackStage = async <T>(buildId: string, stage: BuildStage, task: () => Promise<T>): Promise<T> => {
+  const startTime = Date.now();
+  emitBuildEvent(buildId, { type: 'stage:start', stage });
+
+  try {
+    const result = await task();
+    emitBuildEvent(buildId, { type: 'stage:finish', stage, durationMs: Date.now() - startTime, success: true });
+    return result;
+  } catch (error) {
+    emitBuildEvent(buildId, {
+      type: 'stage:finish',
+      stage,
+      durationMs: Date.now() - startTime,
+      success: false,
+      error: (error as Error).message
+    });
+    throw error;
+  }
+};
+
+/**
+ * Replays events after `lastEventId` and then delivers new ones until unsubscribed.
+ * Returns the unsubscribe function.
+ */
+export const subscribeBuildEvents = (
+  buildId: string,
+  listener: (event: BuildEvent) => void,
+  lastEventId = 0
+): (() => void) => {
+  const channel = channels.get(buildId);
+  if (channel) {
+    channel.history
+      .filter(event => event.id > lastEventId)
+      .forEach(listener);
+  }
+
+  emitter.on(buildId, listener);
+  return () => {
+    emitter.off(buildId, listener);
+  };
+};
+
+export const isBuildFinished = (buildId: string): boolean => !!channels.get(buildId)?.finished;
+
+// False once a finished build's history has expired, or for a build with no events in this process
+export const hasBuildEvents = (buildId: string): boolean => channels.has(buildId);
@@ -0,0 +1,265 @@
+import { execFile } from "child_process";
+import fs from "fs";
+import path from "path";
+import { OUTPUT_DIRS } from "./buildSystems";
+import { getBuildDir, INTERNAL_FILES } from "./workspace";
+
+// Revision history of build directories. Each build directory is a git repository and every change
+// to the project (generation, validation, fix attempts, revisions, rollbacks) is committed, so the
+// changes the model made can be inspected, compared and undone.
+
+export interface HistoryFileChange {
+  path: string;
+  linesAdded: number | null;   // null for binary files
+  linesRemoved: number | null;
+}
+
+export interface HistoryEntry {
+  commit: string;
+  shortCommit: string;
+  message: string;
+  createdAt: string;
+  files: HistoryFileChange[];
+}
+
+export interface HistoryDiff {
+  from: string | null; // null when `to` is the first commit
+  to: string;
+  files: HistoryFileChange[];
+  patch: string;
+}
+
+const GIT_COMMAND = process.env.GIT_COMMAND || "git";
+const HISTORY_ENABLED = process.env.BUILD_HISTORY !== "false";
+const GIT_TIMEOUT_MS = 30 * 1000;
+const MAX_PATCH_BYTES = 8 * 1024 * 1024;
+
+// Commits are made by the service, not by whoever runs it
+const AUTHOR_NAME = "Pegasus";
+const AUTHOR_EMAIL = "builds@pegasus.local";
+
+// The tree git hashes to for an empty commit, used as the parent of the first commit
+const EMPTY_TREE = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+// Commit hashes and unambiguous prefixes of them; nothing that git could read as an option or a ref
+const COMMIT_PATTERN = /^[0-9a-f]{4,40}$/i;
+
+const MAX_SUBJECT_LENGTH = 72;
+
+// Set once git turns out to be missing, so builds don't log the same error on every commit
+let gitMissing = false;
+
+const gitDir = (buildId: string): string => path.join(getBuildDir(buildId), '.git');
+
+export const hasHistory = (buildId: string): boolean => fs.existsSync(gitDir(buildId));
+
+export type HistoryError = Error & { name: 'HistoryError'; gitMissing: boolean };
+
+export const isHistoryError = (error: unknown): error is HistoryError =>
+  error instanceof Error && error.name === 'HistoryError';
+
+const historyError = (message: string, cause: unknown): HistoryError =>
+  Object.assign(new Error(`${message}: ${(cause as Error).message}`), {
+    name: 'HistoryError' as const,
+    gitMissing: (cause as NodeJS.ErrnoException).code === 'ENOENT'
+  });
+
+/**
+ * Runs git against a build's repository. GIT_DIR is always set, so a build directory without a
+ * repository can never fall through to a repository further up the tree. Rejects with git's
+ * stderr in the message when it exits non-zero.
+ */
+const git = (buildId: string, args: string[]): Promise<string> =>
+  new Promise((resolve, reject) => {
+    execFile(GIT_COMMAND, args, {
+      cwd: getBuildDir(buildId),
+      env: {
+        ...process.env,
+        GIT_DIR: gitDir(buildId),
+        GIT_WORK_TREE: getBuildDir(buildId),
+        GIT_AUTHOR_NAME: AUTHOR_NAME,
+        GIT_AUTHOR_EMAIL: AUTHOR_EMAIL,
+        GIT_COMMITTER_NAME: AUTHOR_NAME,
+        GIT_COMMITTER_EMAIL: AUTHOR_EMAIL
+      },
+      encoding: 'utf8',
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: MAX_PATCH_BYTES
+    }, (error, stdout, stderr) => {
+      if (error) {
+        if (stderr.trim()) error.message = `${error.message.split('\n')[0]}\n${stderr.trim()}`;
+        reject(error);
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+
+// Changes to a build's repository run one at a time, so a commit never sees another's index
+const pendingChanges = new Map<string, Promise<unknown>>();
+
+const serialize = <T>(buildId: string, task: () => Promise<T>): Promise<T> => {
+  const result = (pendingChanges.get(buildId) || Promise.resolve()).then(task, task);
+  const settled = result.catch(() => undefined);
+  pendingChanges.set(buildId, settled);
+  settled.then(() => {
+    if (pendingChanges.get(buildId) === settled) pendingChanges.delete(buildId);
+  });
+  return result;
+};
+
+// Build output and the files the build process keeps next to the project stay out of the history
+const createRepository = async (buildId: string): Promise<void> => {
+  await git(buildId, ['init', '--quiet']);
+  await git(buildId, ['config', 'commit.gpgsign', 'false']);
+  await git(buildId, ['config', 'core.autocrlf', 'false']);
+
+  const excluded = [
+    ...OUTPUT_DIRS.map(dir => `/${dir}/`),
+    ...INTERNAL_FILES.map(fileName => `/${fileName}`),
+    '*.tmp'
+  ];
+  fs.mkdirSync(path.join(gitDir(buildId), 'info'), { recursive: true });
+  fs.writeFileSync(path.join(gitDir(buildId), 'info', 'exclude'), `${excluded.join('\n')}\n`);
+};
+
+// "Revision 2: make the cooldown configurable" for the subject, with the full text in the body
+const formatMessage = (message: string): string[] => {
+  const [firstLine, ...rest] = message.trim().split('\n');
+  const subject = firstLine.length > MAX_SUBJECT_LENGTH ? `${firstLine.slice(0, MAX_SUBJECT_LENGTH - 3)}...` : firstLine;
+  const body = subject === firstLine ? rest.join('\n').trim() : message.trim();
+  return body ? ['-m', subject, '-m', body] : ['-m', subject];
+};
+
+// Commits the current project files, creating the repository on first use. Null when nothing changed.
+const commitChanges = async (buildId: string, message: string): Promise<string | null> => {
+  if (!hasHistory(buildId)) {
+    await createRepository(buildId);
+  }
+
+  await git(buildId, ['add', '--all']);
+  if (!(await git(buildId, ['status', '--porcelain'])).trim()) return null;
+
+  await git(buildId, ['commit', '--quiet', '--no-verify', ...formatMessage(message)]);
+  const commit = (await git(buildId, ['rev-parse', 'HEAD'])).trim();
+  console.log(`[HISTORY ${buildId}] ${commit.slice(0, 7)} ${message.split('\n')[0]}`);
+  return commit;
+};
+
+/**
+ * Commits the current project files of a build, creating the repository on first use.
+ * Returns the new commit, or null when nothing changed. History is best effort: failures are
+ * logged and never fail the build.
+ */
+export const commitBuild = async (buildId: string, message: string): Promise<string | null> => {
+  if (!HISTORY_ENABLED || gitMissing) return null;
+
+  try {
+    return await serialize(buildId, () => commitChanges(buildId, message));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      gitMissing = true;
+      console.warn(`⚠️ ${GIT_COMMAND} not found. Build history is disabled`);
+    } else {
+      console.warn(`[HISTORY ${buildId}] Commit failed:`, (error as Error).message);
+    }
+    return null;
+  }
+};
+
+/**
+ * Resolves a commit hash or hash prefix to the full hash, or null when the build has no such commit
+ */
+export const resolveCommit = async (buildId: string, commit: string): Promise<string | null> => {
+  if (!hasHistory(buildId) || !COMMIT_PATTERN.test(commit)) return null;
+  try {
+    return (await git(buildId, ['rev-parse', '--verify', '--quiet', `${commit}^{commit}`])).trim() || null;
+  } catch {
+    return null;
+  }
+};
+
+// "12\t3\tpath" lines from --numstat; binary files have "-" for both counts
+const parseNumstat = (lines: string[]): HistoryFileChange[] =>
+  lines
+    .map(line => line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, added, removed, filePath]) => ({
+      path: filePath,
+      linesAdded: added === '-' ? null : parseInt(added),
+      linesRemoved: removed === '-' ? null : parseInt(removed)
+    }));
+
+/**
+ * The commits of a build, newest first, with the files each one changed. Empty when the build
+ * has no history yet.
+ */
+export const readHistory = async (buildId: string): Promise<HistoryEntry[]> => {
+  if (!hasHistory(buildId)) return [];
+
+  let log: string;
+  try {
+    log = await git(buildId, ['log', '--no-renames', '--numstat', '--format=%x1e%H%x1f%aI%x1f%B']);
+  } catch {
+    return []; // No commits yet
+  }
+
+  return log.split('\x1e').filter(Boolean).map(record => {
+    const [commit, createdAt, rest] = record.split('\x1f');
+    // The numstat lines follow the message after a blank line
+    const lines = rest.split('\n');
+    const statStart = lines.findIndex((line, index) => index > 0 && /^(\d+|-)\t(\d+|-)\t/.test(line) && lines[index - 1] === '');
+    const messageLines = statStart === -1 ? lines : lines.slice(0, statStart);
+
+    return {
+      commit,
+      shortCommit: commit.slice(0, 7),
+      message: messageLines.join('\n').trim(),
+      createdAt,
+      files: statStart === -1 ? [] : parseNumstat(lines.slice(statStart))
+    };
+  });
+};
+
+/**
+ * Changes between two commits of a build as a unified diff. Without `from`, compares `to` with the
+ * commit before it. Both must be full hashes from resolveCommit.
+ */
+export const diffCommits = async (buildId: string, to: string, from?: string): Promise<HistoryDiff> => {
+  let base = from || null;
+  if (!base) {
+    try {
+      base = (await git(buildId, ['rev-parse', '--verify', '--quiet', `${to}^`])).trim() || null;
+    } catch {
+      base = null; // The first commit
+    }
+  }
+
+  const range = [base || EMPTY_TREE, to];
+  return {
+    from: base,
+    to,
+    files: parseNumstat((await git(buildId, ['diff', '--no-renames', '--numstat', ...range])).split('\n')),
+    patch: await git(buildId, ['diff', '--no-renames', ...range])
+  };
+};
+
+/**
+ * Puts the project files back the way they were at a commit, including removing files added since,
+ * and commits that as a new revision so the rollback itself can be undone. Returns the new commit,
+ * or null when the project already matches it. Unlike commitBuild this fails with a HistoryError,
+ * since a rollback that half happened has to be reported.
+ */
+export const rollbackBuild = (buildId: string, commit: string): Promise<string | null> =>
+  serialize(buildId, async () => {
+    try {
+      // Keep anything that changed since the last commit reachable from the history
+      await commitChanges(buildId, "Changes before rollback");
+      await git(buildId, ['restore', `--source=${commit}`, '--staged', '--worktree', '--', '.']);
+
+      const [target] = (await git(buildId, ['log', '-1', '--format=%s', commit])).split('\n');
+      return await commitChanges(buildId, `Roll back to ${commit.slice(0, 7)}: ${target}`);
+    } catch (error) {
+      throw historyError(`Rollback of ${buildId} to ${commit.slice(0, 7)} failed`, error);
+    }
+  });
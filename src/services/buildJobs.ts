@@ -0,0 +1,145 @@
+import { cancelBuild, cancellationStatus, isBuildCancellation, runCancellable } from "./buildControl";
+import { finishBuildEvents } from "./buildEvents";
+import { readManifest, updateManifest } from "./buildStore";
+
+// Background build jobs for asynchronous plugin generation.
+// Build status itself lives in the build manifest; jobs only track the queue.
+
+export type BuildJobState = 'queued' | 'running' | 'finished';
+
+// What a job does: the full create pipeline, or only the compile-and-fix loop (imports)
+export type BuildJobKind = 'generate' | 'compile';
+
+export interface BuildJob {
+  buildId: string;
+  prompt: string;
+  kind: BuildJobKind;
+  state: BuildJobState;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+type BuildJobTask = (job: BuildJob) => Promise<void>;
+
+interface PendingTask {
+  buildId: string;
+  task: BuildJobTask;
+  onSettled?: () => void;
+}
+
+// Maximum number of jobs running the pipeline at the same time (default: 2)
+const MAX_CONCURRENT_BUILDS = parseInt(process.env.MAX_CONCURRENT_BUILDS || "2");
+
+// How long finished jobs are kept in memory (default: 24 hours)
+const JOB_RETENTION_MS = parseInt(process.env.JOB_RETENTION_SECONDS || "86400") * 1000;
+
+const jobs = new Map<string, BuildJob>();
+const pendingTasks: PendingTask[] = [];
+let runningCount = 0;
+
+// Drop finished jobs that are older than the retention window
+const pruneJobs = (): void => {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [buildId, job] of jobs) {
+    if (job.state === 'finished' && job.finishedAt && new Date(job.finishedAt).getTime() < cutoff) {
+      jobs.delete(buildId);
+    }
+  }
+};
+
+export const getJob = (buildId: string): BuildJob | undefined => jobs.get(buildId);
+
+export const isJobActive = (buildId: string): boolean => {
+  const job = jobs.get(buildId);
+  return !!job && job.state !== 'finished';
+};
+
+// Start queued tasks while there are free slots
+const drainQueue = (): void => {
+  while (runningCount < MAX_CONCURRENT_BUILDS && pendingTasks.length > 0) {
+    const { buildId, task, onSettled } = pendingTasks.shift()!;
+    const job = jobs.get(buildId);
+    if (!job) continue;
+
+    runningCount++;
+    job.state = 'running';
+    updateManifest(buildId, { status: job.kind === 'compile' ? 'compiling' : 'generating' });
+
+    runCancellable(buildId, () => task(job))
+      .catch((error: Error) => {
+        if (isBuildCancellation(error)) {
+          updateManifest(buildId, { status: cancellationStatus(error), error: error.message });
+          return;
+        }
+        console.error(`Background processing error for ${buildId}:`, error);
+        updateManifest(buildId, { status: 'failed', error: error.message || String(error) });
+      })
+      .finally(() => {
+        job.state = 'finished';
+        job.finishedAt = new Date().toISOString();
+
+        const manifest = readManifest(buildId);
+        const failed = manifest?.status === 'failed' || manifest?.status === 'cancelled';
+        finishBuildEvents(buildId, !failed, manifest?.error || undefined);
+
+        onSettled?.();
+        runningCount--;
+        drainQueue();
+      });
+  }
+};
+
+/**
+ * Queues a task for a build whose manifest was already created with status "queued".
+ * The task moves the manifest through its remaining states; a thrown error marks the build failed.
+ * `onSettled` runs once the job is over, whether it finished or was cancelled before it started.
+ */
+export const enqueueJob = (
+  buildId: string,
+  prompt: string,
+  task: BuildJobTask,
+  onSettled?: () => void,
+  kind: BuildJobKind = 'generate'
+): BuildJob => {
+  pruneJobs();
+
+  const job: BuildJob = {
+    buildId,
+    prompt,
+    kind,
+    state: 'queued',
+    createdAt: new Date().toISOString()
+  };
+
+  jobs.set(buildId, job);
+  pendingTasks.push({ buildId, task, onSettled });
+  console.log(`[JOB ${buildId}] queued (${pendingTasks.length} waiting, ${runningCount} running)`);
+
+  drainQueue();
+  return job;
+};
+
+/**
+ * Cancels a queued or running job. Returns false when the build has no active job.
+ * Queued jobs are dropped right away; running ones stop at their next cancellation check.
+ */
+export const cancelJob = (buildId: string): boolean => {
+  const job = jobs.get(buildId);
+  if (!job || job.state === 'finished') return false;
+
+  if (job.state === 'running') {
+    return cancelBuild(buildId);
+  }
+
+  const index = pendingTasks.findIndex(pending => pending.buildId === buildId);
+  const [pending] = index >= 0 ? pendingTasks.splice(index, 1) : [];
+
+  job.state = 'finished';
+  job.finishedAt = new Date().toISOString();
+  updateManifest(buildId, { status: 'cancelled', error: "Build cancelled before it started" });
+  finishBuildEvents(buildId, false, "Build cancelled before it started");
+  pending?.onSettled?.();
+
+  console.log(`[JOB ${buildId}] cancelled while queued`);
+  return true;
+};
@@ -0,0 +1,344 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import path from "path";
+import { BuildSystem, detectProjectBuildSystem, findBuiltJar } from "./buildSystems";
+
+// Maven/Gradle build loop with in-process AI fixes (replaces the old bash.sh script)
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export type FixAttemptOutcome = 'success' | 'still-failing' | 'no-changes' | 'fix-error';
+
+export interface FixAttempt {
+  attempt: number;
+  errors: string;
+  filesChanged: string[];
+  outcome: FixAttemptOutcome;
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface BuildOptions {
+  maxFixAttempts?: number;
+  shadeFallback?: boolean;
+  buildSystem?: BuildSystem; // Detected from the project files when not set
+  signal?: AbortSignal;      // Stops the build tool and the fix loop
+}
+
+type ResolvedBuildOptions = Required<Omit<BuildOptions, 'buildSystem' | 'signal'>>;
+
+export interface BuildRunResult {
+  success: boolean;
+  jarPath: string | null; // Relative to the project directory
+  buildOutput: string;
+  attempts: FixAttempt[];
+  noShade: boolean;
+}
+
+export interface OrchestratorHooks {
+  readFiles: () => Record<string, string>;
+  writeFiles: (files: Record<string, string>) => void;
+  fixFiles: (buildErrors: string, files: Record<string, string>) => Promise<Record<string, string>>;
+  onOutput?: (stream: OutputStream, line: string) => void;
+  onAttempt?: (attempt: FixAttempt) => void | Promise<void>;
+}
+
+interface BuildToolRun {
+  success: boolean;
+  output: string;
+}
+
+const MAVEN_COMMAND = process.env.MAVEN_COMMAND || "mvn";
+// Used when the project has no Gradle wrapper
+const GRADLE_COMMAND = process.env.GRADLE_COMMAND || "gradle";
+
+// Defaults for builds that don't set their own options
+export const DEFAULT_BUILD_OPTIONS: ResolvedBuildOptions = {
+  maxFixAttempts: parseInt(process.env.MAX_FIX_ATTEMPTS || "5"),
+  shadeFallback: process.env.SHADE_FALLBACK !== "false"
+};
+
+// Resource limits for each Maven/Gradle run (0 leaves them unlimited)
+const BUILD_CPU_SECONDS = parseInt(process.env.BUILD_CPU_SECONDS || "0");
+const BUILD_MEMORY_MB = parseInt(process.env.BUILD_MEMORY_MB || "0"); // JVM max heap
+
+// How long a cancelled build tool gets to exit before it is killed
+const KILL_GRACE_MS = 5000;
+
+// Upper bound for per-request maxFixAttempts
+const MAX_FIX_ATTEMPTS_LIMIT = 10;
+
+// Cap the errors sent to the model and the copy kept in each attempt record
+const MAX_ERROR_LENGTH = 20000;
+const MAX_RECORDED_ERROR_LENGTH = 4000;
+
+/**
+ * Merges per-request options with the defaults and clamps them to safe values
+ */
+export const resolveBuildOptions = (options: BuildOptions = {}): ResolvedBuildOptions => {
+  const maxFixAttempts = Number.isInteger(options.maxFixAttempts)
+    ? Math.min(Math.max(options.maxFixAttempts!, 0), MAX_FIX_ATTEMPTS_LIMIT)
+    : DEFAULT_BUILD_OPTIONS.maxFixAttempts;
+
+  return {
+    maxFixAttempts,
+    shadeFallback: typeof options.shadeFallback === 'boolean' ? options.shadeFallback : DEFAULT_BUILD_OPTIONS.shadeFallback
+  };
+};
+
+// Caps the JVM heap of Maven and Gradle when BUILD_MEMORY_MB is set
+const buildToolEnv = (): NodeJS.ProcessEnv => {
+  if (BUILD_MEMORY_MB <= 0) return process.env;
+
+  const withHeap = (jvmOptions = '') => `${jvmOptions.replace(/-Xmx\S+/g, '').trim()} -Xmx${BUILD_MEMORY_MB}m`.trim();
+  return {
+    ...process.env,
+    MAVEN_OPTS: withHeap(process.env.MAVEN_OPTS),
+    GRADLE_OPTS: withHeap(process.env.GRADLE_OPTS)
+  };
+};
+
+/**
+ * Runs a build tool in its own process group so cancelling kills the JVM and everything it started
+ */
+const runBuildTool = (
+  command: string,
+  projectDir: string,
+  args: string[],
+  onOutput?: OrchestratorHooks['onOutput'],
+  signal?: AbortSignal
+): Promise<BuildToolRun> => {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve({ success: false, output: 'Build cancelled before it started\n' });
+      return;
+    }
+
+    let output = '';
+    const partialLines: Record<OutputStream, string> = { stdout: '', stderr: '' };
+
+    // Forward complete lines as they arrive
+    const handleData = (stream: OutputStream) => (data: Buffer) => {
+      const text = data.toString();
+      output += text;
+
+      const lines = (partialLines[stream] + text).split('\n');
+      partialLines[stream] = lines.pop() || '';
+      lines.forEach(line => onOutput?.(stream, line));
+    };
+
+    console.log(`[BUILD] ${command} ${args.join(' ')} (in ${projectDir})`);
+
+    // ulimit -t caps CPU seconds for the tool and every process it starts
+    const [spawnCommand, spawnArgs] = BUILD_CPU_SECONDS > 0
+      ? ['/bin/sh', ['-c', `ulimit -t ${BUILD_CPU_SECONDS} && exec "$0" "$@"`, command, ...args]]
+      : [command, args];
+    const buildProcess = spawn(spawnCommand, spawnArgs, { cwd: projectDir, env: buildToolEnv(), detached: true });
+
+    let killTimer: NodeJS.Timeout | undefined;
+    const killProcessGroup = (killSignal: NodeJS.Signals) => {
+      try {
+        process.kill(-buildProcess.pid!, killSignal);
+      } catch {
+        // Already gone
+      }
+    };
+
+    const handleAbort = () => {
+      const message = `Stopping ${command}: ${(signal?.reason as Error)?.message || 'build cancelled'}`;
+      output += `${message}\n`;
+      onOutput?.('stderr', message);
+
+      killProcessGroup('SIGTERM');
+      killTimer = setTimeout(() => killProcessGroup('SIGKILL'), KILL_GRACE_MS);
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    buildProcess.stdout.on('data', handleData('stdout'));
+    buildProcess.stderr.on('data', handleData('stderr'));
+
+    buildProcess.on('error', (error) => {
+      const message = `Failed to start ${command}: ${error.message}`;
+      output += `${message}\n`;
+      onOutput?.('stderr', message);
+    });
+
+    buildProcess.on('close', (code: number | null) => {
+      signal?.removeEventListener('abort', handleAbort);
+      clearTimeout(killTimer);
+
+      (['stdout', 'stderr'] as const).forEach(stream => {
+        if (partialLines[stream]) onOutput?.(stream, partialLines[stream]);
+      });
+
+      console.log(`[BUILD] ${command} exited with code ${code}`);
+      resolve({ success: code === 0, output });
+    });
+  });
+};
+
+// Keep javac errors with their symbol/location lines and Gradle's "What went wrong" section
+const extractGradleErrorLines = (lines: string[]): string[] => {
+  const kept: string[] = [];
+  let inFailure = false;
+
+  lines.forEach(line => {
+    if (/^\* What went wrong:/.test(line)) inFailure = true;
+    else if (/^\* (Try|Get more help|Exception is):/.test(line)) inFailure = false;
+
+    if (inFailure || /: error:|^e: /.test(line) || (kept.length > 0 && /^\s+(symbol|location)\s*:/.test(line))) {
+      kept.push(line);
+    }
+  });
+  return kept;
+};
+
+// Reduce a build log to its error lines, keeping the whole log if it has none
+const extractBuildErrors = (output: string, buildSystem: BuildSystem): string => {
+  const lines = output.split('\n');
+  const errorLines = buildSystem === 'gradle'
+    ? extractGradleErrorLines(lines)
+    : lines.filter(line => line.includes('[ERROR]') || line.includes('[FATAL]'));
+
+  const errors = errorLines.length > 0 ? errorLines.join('\n') : output;
+  return errors.length > MAX_ERROR_LENGTH ? errors.slice(-MAX_ERROR_LENGTH) : errors;
+};
+
+// Prefer the project's Gradle wrapper over a system installation
+const gradleCommand = (projectDir: string): string => {
+  const wrapper = path.join(projectDir, 'gradlew');
+  if (!fs.existsSync(wrapper)) return GRADLE_COMMAND;
+
+  fs.chmodSync(wrapper, 0o755);
+  return wrapper;
+};
+
+/**
+ * Runs a clean build. `unshaded` builds a plain JAR without the shade/shadow plugin.
+ */
+const packageProject = async (
+  projectDir: string,
+  buildSystem: BuildSystem,
+  hooks: OrchestratorHooks,
+  signal?: AbortSignal,
+  unshaded = false
+): Promise<BuildToolRun> => {
+  if (buildSystem === 'gradle') {
+    fs.rmSync(path.join(projectDir, 'build'), { recursive: true, force: true });
+    const task = unshaded ? 'jar' : 'shadowJar';
+    // Gradle compiles in a separate JVM that GRADLE_OPTS doesn't reach
+    const heapArgs = BUILD_MEMORY_MB > 0 ? [`-Dorg.gradle.jvmargs=-Xmx${BUILD_MEMORY_MB}m`] : [];
+    return runBuildTool(
+      gradleCommand(projectDir),
+      projectDir,
+      ['clean', task, '--no-daemon', '--console=plain', ...heapArgs],
+      hooks.onOutput,
+      signal
+    );
+  }
+
+  fs.rmSync(path.join(projectDir, 'target'), { recursive: true, force: true });
+  const extraArgs = unshaded ? ['-Dmaven.shade.skip=true'] : [];
+  return runBuildTool(MAVEN_COMMAND, projectDir, ['clean', 'package', '-B', ...extraArgs], hooks.onOutput, signal);
+};
+
+/**
+ * Builds a Maven or Gradle project, asking the model to fix the sources after each failed build.
+ * Falls back to a build without the shade/shadow plugin when every fix attempt failed.
+ * Throws the signal's reason when `options.signal` aborts.
+ */
+export async function orchestrateBuild(
+  projectDir: string,
+  options: BuildOptions,
+  hooks: OrchestratorHooks
+): Promise<BuildRunResult> {
+  const { maxFixAttempts, shadeFallback } = resolveBuildOptions(options);
+  const buildSystem = options.buildSystem || detectProjectBuildSystem(projectDir);
+  const { signal } = options;
+  const attempts: FixAttempt[] = [];
+  let buildOutput = '';
+
+  const finish = (success: boolean, jarPath: string | null, noShade = false): BuildRunResult =>
+    ({ success, jarPath, buildOutput, attempts, noShade });
+
+  if (!buildSystem) {
+    buildOutput = `No pom.xml or Gradle build file found in ${projectDir}`;
+    return finish(false, null);
+  }
+
+  let run = await packageProject(projectDir, buildSystem, hooks, signal);
+  buildOutput += run.output;
+  signal?.throwIfAborted();
+
+  for (let attempt = 1; !run.success && attempt <= maxFixAttempts; attempt++) {
+    const startTime = Date.now();
+    const errors = extractBuildErrors(run.output, buildSystem);
+    const record: FixAttempt = {
+      attempt,
+      errors: errors.slice(0, MAX_RECORDED_ERROR_LENGTH),
+      filesChanged: [],
+      outcome: 'still-failing',
+      startedAt: new Date(startTime).toISOString(),
+      durationMs: 0
+    };
+
+    console.log(`🔄 AI Fix Attempt #${attempt} of ${maxFixAttempts}`);
+
+    try {
+      const currentFiles = hooks.readFiles();
+      const fixedFiles = await hooks.fixFiles(errors, currentFiles);
+
+      // Only count files whose content actually changed
+      const changedFiles = Object.fromEntries(
+        Object.entries(fixedFiles).filter(([filePath, content]) => currentFiles[filePath] !== content)
+      );
+      record.filesChanged = Object.keys(changedFiles);
+
+      if (record.filesChanged.length === 0) {
+        record.outcome = 'no-changes';
+      } else {
+        hooks.writeFiles(changedFiles);
+        run = await packageProject(projectDir, buildSystem, hooks, signal);
+        buildOutput += run.output;
+        signal?.throwIfAborted();
+        record.outcome = run.success ? 'success' : 'still-failing';
+      }
+    } catch (error) {
+      // A cancelled fix request isn't a failed fix attempt
+      signal?.throwIfAborted();
+      console.error(`Fix attempt #${attempt} failed:`, error);
+      record.errors = `${record.errors}\n\nFix request failed: ${(error as Error).message}`;
+      record.outcome = 'fix-error';
+    }
+
+    record.durationMs = Date.now() - startTime;
+    attempts.push(record);
+    await hooks.onAttempt?.(record);
+
+    // Asking again with the same errors would give the same answer
+    if (record.outcome === 'no-changes') break;
+  }
+
+  if (run.success) {
+    const jarPath = findBuiltJar(projectDir, buildSystem, false);
+    if (!jarPath) {
+      buildOutput += '\nBuild succeeded but no JAR file was found';
+    }
+    return finish(!!jarPath, jarPath);
+  }
+
+  // Last resort: build without shading
+  if (shadeFallback) {
+    console.log("Attempting build without shading...");
+    run = await packageProject(projectDir, buildSystem, hooks, signal, true);
+    buildOutput += run.output;
+    signal?.throwIfAborted();
+
+    if (run.success) {
+      const jarPath = findBuiltJar(projectDir, buildSystem, true);
+      return finish(!!jarPath, jarPath, true);
+    }
+  }
+
+  return finish(false, null);
+}
@@ -0,0 +1,179 @@
+import fs from "fs";
+import path from "path";
+import { isBuildRunning } from "./buildControl";
+import { BuildManifest, readManifest } from "./buildStore";
+import { getStorage, ObjectStream, StorageBackend } from "./storage";
+import {
+  getBuildDir,
+  INTERNAL_FILES,
+  isValidBuildId,
+  MANIFEST_FILE,
+  onBuildFileWritten,
+  PLUGINS_BASE_DIR,
+  readProjectFiles,
+  resolveBuildPath
+} from "./workspace";
+
+// Copies builds between the local build directories, where generation and Maven work, and the
+// storage backend shared by every API replica. Project files, manifests and internal files are
+// uploaded as they are written, the JAR and build log when a build finishes. A replica that is asked
+// about a build it doesn't have, or has an older copy of, downloads it first.
+// The git history (.git) of a build stays with the replica that recorded it.
+
+// Uploads waiting or running, per object key; each key's uploads run one after another
+const pendingUploads = new Map<string, Promise<void>>();
+const queuedKeys = new Set<string>();
+const restoring = new Map<string, Promise<void>>();
+
+/**
+ * The backend builds are copied to, or null when it is the build directory itself
+ * (the default local backend) and there is nothing to copy
+ */
+const sharedStorage = (): StorageBackend | null => {
+  const storage = getStorage();
+  return storage.name === 'local' && storage.location === path.resolve(PLUGINS_BASE_DIR) ? null : storage;
+};
+
+export const isSharedStorage = (): boolean => sharedStorage() !== null;
+
+const objectKey = (buildId: string, relativePath: string): string => `${buildId}/${relativePath}`;
+
+/**
+ * Queues the upload of a file in a build directory, or the removal of its object when the file is
+ * gone. The file is read when the upload starts, so a burst of writes uploads it once.
+ */
+export const persistBuildFile = (buildId: string, relativePath: string): void => {
+  const storage = sharedStorage();
+  if (!storage) return;
+
+  const key = objectKey(buildId, relativePath);
+  if (queuedKeys.has(key)) return;
+  queuedKeys.add(key);
+
+  const upload = (pendingUploads.get(key) || Promise.resolve())
+    .then(async () => {
+      queuedKeys.delete(key);
+      const filePath = resolveBuildPath(buildId, relativePath);
+      if (fs.existsSync(filePath)) {
+        await storage.putObject(key, await fs.promises.readFile(filePath));
+      } else {
+        await storage.deleteObject(key);
+      }
+    })
+    .catch(error => console.warn(`[STORAGE] Could not store ${key}:`, (error as Error).message));
+
+  pendingUploads.set(key, upload);
+  upload.then(() => {
+    if (pendingUploads.get(key) === upload) pendingUploads.delete(key);
+  });
+};
+
+onBuildFileWritten(persistBuildFile);
+
+const pendingFor = (buildId: string): Promise<void>[] =>
+  Array.from(pendingUploads.entries())
+    .filter(([key]) => key.startsWith(`${buildId}/`))
+    .map(([, upload]) => upload);
+
+/**
+ * Uploads everything a build consists of (project files, internal files and the JAR) and removes
+ * stored objects it no longer has. Waits for the uploads; failures are logged, not thrown.
+ */
+export const storeBuild = async (buildId: string): Promise<void> => {
+  const storage = sharedStorage();
+  if (!storage) return;
+
+  try {
+    const manifest = readManifest(buildId);
+    const localPaths = [
+      ...Object.keys(readProjectFiles(buildId)),
+      ...INTERNAL_FILES.filter(fileName => fs.existsSync(resolveBuildPath(buildId, fileName))),
+      ...(manifest?.jarPath && fs.existsSync(resolveBuildPath(buildId, manifest.jarPath)) ? [manifest.jarPath] : [])
+    ];
+    localPaths.forEach(relativePath => persistBuildFile(buildId, relativePath));
+
+    const localKeys = new Set(localPaths.map(relativePath => objectKey(buildId, relativePath)));
+    const stale = (await storage.listObjects(`${buildId}/`)).filter(object => !localKeys.has(object.key));
+    await Promise.all(stale.map(object => storage.deleteObject(object.key)));
+    await Promise.all(pendingFor(buildId));
+  } catch (error) {
+    console.warn(`[STORAGE] Could not store build ${buildId}:`, (error as Error).message);
+  }
+};
+
+const downloadBuild = async (storage: StorageBackend, buildId: string): Promise<void> => {
+  const stored = await storage.getObject(objectKey(buildId, MANIFEST_FILE));
+  if (!stored) return;
+
+  // Copies at least as new as the stored one are kept
+  const remote: BuildManifest = JSON.parse(stored.toString('utf8'));
+  const local = readManifest(buildId);
+  if (local && local.updatedAt >= remote.updatedAt) return;
+
+  const objects = await storage.listObjects(`${buildId}/`);
+  const storedPaths = new Set(objects.map(object => object.key.slice(buildId.length + 1)));
+
+  // Project files that were removed on the other replica, by a rollback for example
+  Object.keys(readProjectFiles(buildId))
+    .filter(relativePath => !storedPaths.has(relativePath))
+    .forEach(relativePath => fs.rmSync(resolveBuildPath(buildId, relativePath), { force: true }));
+
+  fs.mkdirSync(getBuildDir(buildId), { recursive: true });
+  for (const relativePath of storedPaths) {
+    const body = relativePath === MANIFEST_FILE ? stored : await storage.getObject(objectKey(buildId, relativePath));
+    if (!body) continue;
+    const filePath = resolveBuildPath(buildId, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, body);
+  }
+  console.log(`[STORAGE] Restored ${buildId} (${storedPaths.size} files) from ${storage.location}`);
+};
+
+/**
+ * Downloads a build from the shared storage when this replica doesn't have it or has an older copy.
+ * Builds running here, or with uploads still pending, are newest here and left alone.
+ */
+export const restoreBuild = async (buildId: string): Promise<void> => {
+  const storage = sharedStorage();
+  if (!storage || isBuildRunning(buildId) || pendingFor(buildId).length > 0) return;
+
+  // Concurrent requests for the same build share one download
+  const inProgress = restoring.get(buildId);
+  if (inProgress) return inProgress;
+
+  const restore = downloadBuild(storage, buildId)
+    .catch(error => console.warn(`[STORAGE] Could not restore build ${buildId}:`, (error as Error).message))
+    .finally(() => restoring.delete(buildId));
+  restoring.set(buildId, restore);
+  return restore;
+};
+
+/**
+ * Restores every stored build this replica doesn't have yet, so listings include them
+ */
+export const restoreMissingBuilds = async (): Promise<void> => {
+  const storage = sharedStorage();
+  if (!storage) return;
+
+  try {
+    const buildIds = await storage.listFolders('');
+    await Promise.all(buildIds
+      .filter(buildId => isValidBuildId(buildId) && !fs.existsSync(getBuildDir(buildId)))
+      .map(buildId => restoreBuild(buildId)));
+  } catch (error) {
+    console.warn("[STORAGE] Could not list stored builds:", (error as Error).message);
+  }
+};
+
+/**
+ * Opens a file of a build for streaming, from the build directory or else from the shared storage
+ */
+export const openBuildArtifact = async (buildId: string, relativePath: string): Promise<ObjectStream | null> => {
+  const filePath = resolveBuildPath(buildId, relativePath);
+  if (fs.existsSync(filePath)) {
+    return { stream: fs.createReadStream(filePath), size: fs.statSync(filePath).size };
+  }
+
+  const storage = sharedStorage();
+  return storage ? storage.openObject(objectKey(buildId, relativePath)) : null;
+};
@@ -0,0 +1,222 @@
+import fs from "fs";
+import path from "path";
+import { emitBuildEvent } from "./buildEvents";
+import { FixAttempt } from "./buildOrchestrator";
+import { BuildSystem, detectProjectBuildSystem, findBuiltJar } from "./buildSystems";
+import { Diagnostic } from "./diagnostics";
+import { PluginTarget } from "./targets";
+import {
+  buildExists,
+  getBuildDir,
+  MANIFEST_FILE,
+  readInternalFile,
+  RejectedFile,
+  resolveBuildPath,
+  writeInternalFile
+} from "./workspace";
+
+// Build directories and their build.json manifests
+
+export type BuildStatus = 'queued' | 'generating' | 'generated' | 'compiling' | 'completed' | 'failed' | 'cancelled';
+
+// Where a build's project came from
+export type BuildSource = 'generated' | 'imported';
+
+export interface BuildStatusTransition {
+  status: BuildStatus;
+  at: string;
+  message?: string;
+}
+
+export interface BuildManifest {
+  buildId: string;
+  status: BuildStatus;
+  pluginName: string | null;
+  source: BuildSource; // Missing in older manifests, which are all generated
+  scaffold: string | null; // Project skeleton the plugin was generated on; missing in older manifests
+  cachedFrom: string | null; // Build whose cached generation was reused; missing in older manifests
+  reusedFrom: string | null; // Earlier build with a similar prompt whose files were reused; missing in older manifests
+  prompt: string;
+  target: PluginTarget | null; // null for builds created before targets existed
+  buildSystem: BuildSystem;
+  provider: string | null;
+  models: string[];
+  fixAttempts: number;
+  attempts: FixAttempt[];
+  jarPath: string | null; // Relative to the build directory
+  noShade: boolean;
+  rejectedFiles: RejectedFile[]; // Files the workspace refused to write; missing in older manifests
+  pluginYmlErrors: string[]; // plugin.yml validation errors; missing in older manifests
+  pomDiagnostics: Diagnostic[]; // pom.xml problems found before Maven ran; missing in older manifests
+  promptVersions: Record<string, string>; // Prompt template name -> version used; missing in older manifests
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  history: BuildStatusTransition[];
+}
+
+// Statuses after which nothing else happens to a build until it is started again
+export const FINAL_STATUSES: BuildStatus[] = ['generated', 'completed', 'failed', 'cancelled'];
+
+const writeManifest = (manifest: BuildManifest): void => {
+  writeInternalFile(manifest.buildId, MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+};
+
+export const readManifest = (buildId: string): BuildManifest | null => {
+  const content = readInternalFile(buildId, MANIFEST_FILE);
+  if (content === null) return null;
+
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    console.warn(`Could not read manifest for ${buildId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Starts a fresh manifest for a build, replacing any previous one
+ */
+export const createManifest = (
+  buildId: string,
+  details: Pick<BuildManifest, 'status' | 'prompt'> & Partial<BuildManifest>
+): BuildManifest => {
+  const now = new Date().toISOString();
+  const manifest: BuildManifest = {
+    buildId,
+    pluginName: null,
+    source: 'generated',
+    scaffold: null,
+    cachedFrom: null,
+    reusedFrom: null,
+    target: null,
+    buildSystem: 'maven',
+    provider: null,
+    models: [],
+    fixAttempts: 0,
+    attempts: [],
+    jarPath: null,
+    noShade: false,
+    rejectedFiles: [],
+    pluginYmlErrors: [],
+    pomDiagnostics: [],
+    promptVersions: {},
+    error: null,
+    ...details,
+    createdAt: now,
+    updatedAt: now,
+    history: [{ status: details.status, at: now }]
+  };
+
+  writeManifest(manifest);
+  emitBuildEvent(buildId, { type: 'status', status: manifest.status });
+  return manifest;
+};
+
+/**
+ * Applies changes to a build's manifest, recording a status transition when the status changes
+ */
+export const updateManifest = (
+  buildId: string,
+  changes: Partial<Omit<BuildManifest, 'buildId' | 'createdAt' | 'history'>>,
+  message?: string
+): BuildManifest | null => {
+  const manifest = readManifest(buildId);
+  if (!manifest) {
+    console.warn(`No manifest to update for ${buildId}`);
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const statusChanged = changes.status !== undefined && changes.status !== manifest.status;
+
+  Object.assign(manifest, changes, { updatedAt: now });
+  if (statusChanged) {
+    manifest.history.push({ status: manifest.status, at: now, ...(message && { message }) });
+    // A new run clears the error of the previous one
+    if (!FINAL_STATUSES.includes(manifest.status) && changes.error === undefined) {
+      manifest.error = null;
+    }
+  }
+
+  writeManifest(manifest);
+
+  if (statusChanged) {
+    console.log(`[BUILD ${buildId}] ${manifest.status}${manifest.error ? `: ${manifest.error}` : ''}`);
+    emitBuildEvent(buildId, {
+      type: 'status',
+      status: manifest.status,
+      ...(manifest.error && { error: manifest.error })
+    });
+  }
+  return manifest;
+};
+
+/**
+ * Builds a manifest for directories created before build.json existed,
+ * using the old target/ and plugin.yml inference
+ */
+const inferLegacyManifest = (buildId: string): BuildManifest => {
+  const buildDir = getBuildDir(buildId);
+  const buildSystem = detectProjectBuildSystem(buildDir) || 'maven';
+  const jarPath = findBuiltJar(buildDir, buildSystem, false);
+  const outputExists = fs.existsSync(path.join(buildDir, buildSystem === 'gradle' ? 'build' : 'target'));
+
+  let pluginName: string | null = null;
+  for (const ymlPath of [resolveBuildPath(buildId, 'src/main/resources/plugin.yml'), resolveBuildPath(buildId, 'plugin.yml')]) {
+    if (fs.existsSync(ymlPath)) {
+      const nameMatch = fs.readFileSync(ymlPath, 'utf8').match(/name: *([A-Za-z0-9_]+)/);
+      if (nameMatch) {
+        pluginName = nameMatch[1];
+        break;
+      }
+    }
+  }
+
+  const prompt = readInternalFile(buildId, 'prompt.txt') || "";
+
+  // Creation time from the directory name (plugin-<timestamp>) or the directory itself
+  const timestampMatch = buildId.match(/plugin-(\d+)/);
+  const createdAt = timestampMatch
+    ? new Date(parseInt(timestampMatch[1])).toISOString()
+    : fs.statSync(buildDir).birthtime.toISOString();
+
+  const status: BuildStatus = jarPath ? 'completed' : outputExists ? 'failed' : 'generated';
+
+  return {
+    buildId,
+    status,
+    pluginName,
+    source: 'generated',
+    scaffold: null,
+    cachedFrom: null,
+    reusedFrom: null,
+    prompt,
+    target: null,
+    buildSystem,
+    provider: null,
+    models: [],
+    fixAttempts: 0,
+    attempts: [],
+    jarPath,
+    noShade: false,
+    rejectedFiles: [],
+    pluginYmlErrors: [],
+    pomDiagnostics: [],
+    promptVersions: {},
+    error: null,
+    createdAt,
+    updatedAt: createdAt,
+    history: [{ status, at: createdAt, message: "Inferred from build directory" }]
+  };
+};
+
+/**
+ * Returns the manifest of a build, falling back to inference for legacy directories.
+ * Returns null when the build does not exist.
+ */
+export const loadManifest = (buildId: string): BuildManifest | null => {
+  if (!buildExists(buildId)) return null;
+  return readManifest(buildId) || inferLegacyManifest(buildId);
+};
+
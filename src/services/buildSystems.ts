@@ -0,0 +1,118 @@
+import fs from "fs";
+import path from "path";
+import { ResolvedTarget } from "./targets";
+
+// Build tools a plugin project can use, their build files and where they put the JAR
+
+export type BuildSystem = 'maven' | 'gradle';
+
+export const BUILD_SYSTEMS: BuildSystem[] = ['maven', 'gradle'];
+
+export const isBuildSystem = (value: unknown): value is BuildSystem =>
+  typeof value === 'string' && BUILD_SYSTEMS.includes(value as BuildSystem);
+
+// Build system for requests that don't name one; an unknown DEFAULT_BUILD_SYSTEM falls back to Maven
+const configuredBuildSystem = (): BuildSystem => {
+  const configured = process.env.DEFAULT_BUILD_SYSTEM;
+  if (configured && !isBuildSystem(configured)) {
+    console.warn(`Ignoring DEFAULT_BUILD_SYSTEM "${configured}". Supported build systems: ${BUILD_SYSTEMS.join(', ')}`);
+  }
+  return isBuildSystem(configured) ? configured : 'maven';
+};
+
+export const DEFAULT_BUILD_SYSTEM: BuildSystem = configuredBuildSystem();
+
+export const BUILD_FILES: Record<BuildSystem, string[]> = {
+  maven: ['pom.xml'],
+  gradle: ['build.gradle.kts', 'settings.gradle.kts', 'build.gradle', 'settings.gradle']
+};
+
+// Directories holding build output rather than sources
+export const OUTPUT_DIRS = ['target', 'build', '.gradle'];
+
+const JAR_DIRS: Record<BuildSystem, string> = {
+  maven: 'target',
+  gradle: 'build/libs'
+};
+
+export const isBuildFile = (filePath: string): boolean =>
+  BUILD_SYSTEMS.some(buildSystem => BUILD_FILES[buildSystem].includes(filePath));
+
+/**
+ * Works out the build system from the files at the project root, or null when there are none
+ */
+export const detectBuildSystem = (filePaths: string[]): BuildSystem | null => {
+  if (filePaths.includes('pom.xml')) return 'maven';
+  if (filePaths.some(filePath => BUILD_FILES.gradle.includes(filePath))) return 'gradle';
+  return null;
+};
+
+export const detectProjectBuildSystem = (projectDir: string): BuildSystem | null =>
+  fs.existsSync(projectDir) ? detectBuildSystem(fs.readdirSync(projectDir)) : null;
+
+/**
+ * Finds the built JAR, relative to the project directory.
+ * Prefers the shaded JAR; `allowUnshaded` also accepts Maven's original-*.jar or Gradle's plain JAR.
+ */
+export const findBuiltJar = (projectDir: string, buildSystem: BuildSystem, allowUnshaded: boolean): string | null => {
+  const jarDir = JAR_DIRS[buildSystem];
+  const fullJarDir = path.join(projectDir, jarDir);
+  if (!fs.existsSync(fullJarDir)) return null;
+
+  const jars = fs.readdirSync(fullJarDir).filter(file => file.endsWith('.jar'));
+  const jarFile = buildSystem === 'maven'
+    ? jars.find(file => !file.includes('original'))
+    : jars.find(file => file.endsWith('-all.jar')) ||
+      jars.find(file => !/-(plain|sources|javadoc)\.jar$/.test(file));
+
+  const found = jarFile || (allowUnshaded ? jars[0] : undefined);
+  return found ? `${jarDir}/${found}` : null;
+};
+
+// Where the JAR of a generated project ends up once built
+export const expectedJarPath = (buildSystem: BuildSystem, artifactName: string): string =>
+  `${JAR_DIRS[buildSystem]}/${artifactName}-1.0-SNAPSHOT.jar`;
+
+const SHADOW_PLUGIN_VERSION = "8.3.5";
+
+/**
+ * Kotlin DSL build files for a plugin, with the shadow plugin producing the JAR
+ */
+export const createGradleBuildFiles = (pluginName: string, target: ResolvedTarget): Record<string, string> => {
+  const pluginLower = pluginName.toLowerCase();
+  const { groupId, artifactId, version } = target.dependency;
+
+  return {
+    "settings.gradle.kts": `rootProject.name = "${pluginLower}"\n`,
+    "build.gradle.kts": `plugins {
+    java
+    id("com.gradleup.shadow") version "${SHADOW_PLUGIN_VERSION}"
+}
+
+group = "com.pegasus"
+version = "1.0-SNAPSHOT"
+
+repositories {
+    mavenCentral()
+    maven("${target.repository.url}")
+}
+
+dependencies {
+    compileOnly("${groupId}:${artifactId}:${version}")
+}
+
+tasks.withType<JavaCompile>().configureEach {
+    options.encoding = "UTF-8"
+    options.release.set(${target.javaRelease})
+}
+
+tasks.shadowJar {
+    archiveClassifier.set("")
+}
+
+tasks.build {
+    dependsOn(tasks.shadowJar)
+}
+`
+  };
+};
@@ -0,0 +1,239 @@
+import fs from "fs";
+import zlib from "zlib";
+
+// Minimal readers for ZIP and JAR archives and Java class files, enough to index a server API
+// without a JDK on the machine
+
+export interface ClassMember {
+  name: string;
+  descriptor: string;
+  accessFlags: number;
+}
+
+export interface ClassFileInfo {
+  name: string;             // Binary name with dots, like org.bukkit.entity.Pig or a.B$C
+  accessFlags: number;
+  superclass: string | null;
+  interfaces: string[];
+  fields: ClassMember[];
+  methods: ClassMember[];
+}
+
+export const ACC_PUBLIC = 0x0001;
+export const ACC_PROTECTED = 0x0004;
+export const ACC_STATIC = 0x0008;
+export const ACC_BRIDGE = 0x0040;
+export const ACC_VARARGS = 0x0080;
+export const ACC_INTERFACE = 0x0200;
+export const ACC_SYNTHETIC = 0x1000;
+export const ACC_ANNOTATION = 0x2000;
+export const ACC_ENUM = 0x4000;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CLASS_MAGIC = 0xcafebabe;
+
+/**
+ * Calls `visit` with the name and content of every file in a ZIP archive whose name passes `filter`.
+ * Entries that inflate to more than `maxEntryBytes` throw, so a small archive can't expand without bound.
+ */
+export const readZipEntries = (
+  archive: Buffer,
+  filter: (name: string) => boolean,
+  visit: (name: string, content: Buffer) => void,
+  options: { label?: string; maxEntryBytes?: number } = {}
+): void => {
+  const label = options.label || 'archive';
+
+  // The end of central directory record sits in the last 64 KB (plus its own 22 bytes)
+  let eocd = -1;
+  for (let offset = archive.length - 22; offset >= Math.max(0, archive.length - 65557); offset--) {
+    if (archive.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error(`${label} is not a ZIP archive`);
+  }
+
+  const entryCount = archive.readUInt16LE(eocd + 10);
+  let offset = archive.readUInt32LE(eocd + 16);
+
+  for (let entry = 0; entry < entryCount; entry++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error(`Corrupt central directory in ${label}`);
+    }
+
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !filter(name)) continue;
+
+    if (options.maxEntryBytes !== undefined && size > options.maxEntryBytes) {
+      throw new Error(`${name} in ${label} is larger than ${options.maxEntryBytes} bytes`);
+    }
+    if (localOffset + 30 > archive.length || archive.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt entry ${name} in ${label}`);
+    }
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) {
+      visit(name, data);
+    } else if (method === 8) {
+      // The declared size can lie; the inflater enforces the limit itself
+      visit(name, options.maxEntryBytes !== undefined
+        ? zlib.inflateRawSync(data, { maxOutputLength: Math.max(options.maxEntryBytes, 1) })
+        : zlib.inflateRawSync(data));
+    }
+  }
+};
+
+/**
+ * Calls `visit` with the name and content of every file in a JAR (ZIP) archive
+ * whose name passes `filter`
+ */
+export const readJarEntries = (
+  jarPath: string,
+  filter: (name: string) => boolean,
+  visit: (name: string, content: Buffer) => void
+): void => readZipEntries(fs.readFileSync(jarPath), filter, visit, { label: jarPath });
+
+/**
+ * Reads the declarations of a compiled class: its name, supertypes, fields and methods
+ */
+export const parseClassFile = (content: Buffer): ClassFileInfo => {
+  if (content.readUInt32BE(0) !== CLASS_MAGIC) {
+    throw new Error("Not a class file");
+  }
+
+  // Constant pool: only UTF-8 entries and class references are needed
+  const poolCount = content.readUInt16BE(8);
+  const utf8: string[] = [];
+  const classNames: number[] = [];
+  let offset = 10;
+
+  for (let index = 1; index < poolCount; index++) {
+    const tag = content[offset];
+    switch (tag) {
+      case 1: {
+        const length = content.readUInt16BE(offset + 1);
+        utf8[index] = content.toString('utf8', offset + 3, offset + 3 + length);
+        offset += 3 + length;
+        break;
+      }
+      case 7:
+        classNames[index] = content.readUInt16BE(offset + 1);
+        offset += 3;
+        break;
+      case 5: // Long
+      case 6: // Double, both take two slots
+        offset += 9;
+        index++;
+        break;
+      case 3: case 4: case 9: case 10: case 11: case 12: case 17: case 18:
+        offset += 5;
+        break;
+      case 15:
+        offset += 4;
+        break;
+      case 8: case 16: case 19: case 20:
+        offset += 3;
+        break;
+      default:
+        throw new Error(`Unknown constant pool tag ${tag}`);
+    }
+  }
+
+  const className = (index: number): string | null =>
+    index === 0 ? null : utf8[classNames[index]].replace(/\//g, '.');
+
+  const accessFlags = content.readUInt16BE(offset);
+  const name = className(content.readUInt16BE(offset + 2))!;
+  const superclass = className(content.readUInt16BE(offset + 4));
+  const interfaceCount = content.readUInt16BE(offset + 6);
+  offset += 8;
+
+  const interfaces: string[] = [];
+  for (let n = 0; n < interfaceCount; n++) {
+    interfaces.push(className(content.readUInt16BE(offset))!);
+    offset += 2;
+  }
+
+  const readMembers = (): ClassMember[] => {
+    const count = content.readUInt16BE(offset);
+    offset += 2;
+    const members: ClassMember[] = [];
+
+    for (let n = 0; n < count; n++) {
+      members.push({
+        accessFlags: content.readUInt16BE(offset),
+        name: utf8[content.readUInt16BE(offset + 2)],
+        descriptor: utf8[content.readUInt16BE(offset + 4)]
+      });
+      const attributeCount = content.readUInt16BE(offset + 6);
+      offset += 8;
+      for (let attribute = 0; attribute < attributeCount; attribute++) {
+        offset += 6 + content.readUInt32BE(offset + 2);
+      }
+    }
+    return members;
+  };
+
+  const fields = readMembers();
+  const methods = readMembers();
+
+  return { name, accessFlags, superclass, interfaces, fields, methods };
+};
+
+/**
+ * Source-style name of a binary class name: java.lang.String -> String, a.B$C -> a.B.C
+ */
+export const sourceTypeName = (binaryName: string): string =>
+  binaryName.replace(/^java\.lang\.(?=[A-Z][^.]*$)/, '').replace(/\$/g, '.');
+
+/**
+ * Converts a method descriptor like (ILjava/lang/String;[D)V into parameter and return types
+ */
+export const parseMethodDescriptor = (descriptor: string): { parameters: string[]; returnType: string } => {
+  let position = 0;
+
+  const readType = (): string => {
+    let dimensions = 0;
+    while (descriptor[position] === '[') {
+      dimensions++;
+      position++;
+    }
+
+    let base: string;
+    const code = descriptor[position++];
+    if (code === 'L') {
+      const end = descriptor.indexOf(';', position);
+      base = sourceTypeName(descriptor.slice(position, end).replace(/\//g, '.'));
+      position = end + 1;
+    } else {
+      base = ({
+        B: 'byte', C: 'char', D: 'double', F: 'float', I: 'int', J: 'long', S: 'short', Z: 'boolean', V: 'void'
+      } as Record<string, string>)[code] || code;
+    }
+    return base + '[]'.repeat(dimensions);
+  };
+
+  const parameters: string[] = [];
+  position = 1; // Skip '('
+  while (position < descriptor.length && descriptor[position] !== ')') {
+    parameters.push(readType());
+  }
+  position++;
+
+  return { parameters, returnType: readType() };
+};
@@ -0,0 +1,379 @@
+import {
+  acceptsArity,
+  buildSymbolTable,
+  countArguments,
+  findQualifiedCalls,
+  JavaMethod,
+  JavaType,
+  lineAt,
+  resolveType,
+  SymbolTable
+} from "./javaSymbols";
+import { parsePluginYml, updatePluginYml } from "./pluginYml";
+
+// Deterministic cross-file checks for generated plugins, using the Java symbol table
+
+export type ConsistencyIssueKind = 'package' | 'import' | 'constructor' | 'method' | 'command';
+
+export interface ConsistencyIssue {
+  id: string;
+  kind: ConsistencyIssueKind;
+  file: string;
+  line: number | null;
+  message: string;
+  symbol: string | null;
+}
+
+export interface ConsistencyResult {
+  files: Record<string, string>;
+  fixed: ConsistencyIssue[];     // Fixed without the model
+  remaining: ConsistencyIssue[]; // Still present after the automatic fixes
+}
+
+type IssueDraft = Omit<ConsistencyIssue, 'id'>;
+
+interface PluginCommands {
+  path: string;
+  main: string | null;
+  commands: string[];
+  aliases: string[];
+}
+
+const JAVA_SOURCE_ROOT = 'src/main/java/';
+const CONSTRUCTOR_CALL_PATTERN = /\bnew\s+([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*(?:<[^;(){}]*>)?\s*\(/g;
+const GET_COMMAND_PATTERN = /getCommand\(\s*"([^"]+)"\s*\)/g;
+
+const expectedPackage = (filePath: string): string | null => {
+  if (!filePath.startsWith(JAVA_SOURCE_ROOT)) return null;
+  return filePath.slice(JAVA_SOURCE_ROOT.length).split('/').slice(0, -1).join('.');
+};
+
+// Types declared directly in a file rather than nested in another type
+const isTopLevel = (table: SymbolTable, type: JavaType): boolean => {
+  const packageName = table.files[type.filePath]?.packageName;
+  return type.qualifiedName === (packageName ? `${packageName}.${type.name}` : type.name);
+};
+
+const describeArities = (methods: JavaMethod[]): string =>
+  methods.map(method => `(${method.parameters.join(', ')})`).join(' or ');
+
+/**
+ * Collects the methods a type declares or inherits from other project types.
+ * `open` is set when part of the hierarchy is outside the project, so more methods may exist.
+ */
+const collectMethods = (table: SymbolTable, type: JavaType): { methods: JavaMethod[]; open: boolean } => {
+  const methods: JavaMethod[] = [];
+  let open = false;
+  const seen = new Set<string>();
+
+  const visit = (current: JavaType) => {
+    if (seen.has(current.qualifiedName)) return;
+    seen.add(current.qualifiedName);
+    methods.push(...current.methods);
+    if (current.kind === 'enum' || current.kind === 'record') open = true; // values(), name(), ...
+
+    [current.superclass, ...current.interfaces].filter((name): name is string => !!name).forEach(name => {
+      const parent = resolveType(table, current.filePath, name);
+      if (parent) visit(parent);
+      else open = true;
+    });
+  };
+
+  visit(type);
+  return { methods, open };
+};
+
+const checkPackages = (table: SymbolTable): IssueDraft[] =>
+  Object.values(table.files).flatMap(source => {
+    const expected = expectedPackage(source.path);
+    if (expected === null || source.packageName === expected || (!source.packageName && !expected)) return [];
+    return [{
+      kind: 'package' as const,
+      file: source.path,
+      line: source.packageLine,
+      message: source.packageName
+        ? `Package ${source.packageName} does not match the directory (expected ${expected})`
+        : `Missing package declaration (expected ${expected})`,
+      symbol: expected
+    }];
+  });
+
+const checkImports = (table: SymbolTable): IssueDraft[] => {
+  const projectPackages = new Set<string>();
+  Object.values(table.files).forEach(source => {
+    if (source.packageName) projectPackages.add(source.packageName);
+    const expected = expectedPackage(source.path);
+    if (expected) projectPackages.add(expected);
+  });
+
+  // Only imports from the project's own packages can be checked
+  const isProjectPackage = (packageName: string): boolean =>
+    [...projectPackages].some(projectPackage => packageName === projectPackage || packageName.startsWith(`${projectPackage}.`));
+
+  return Object.values(table.files).flatMap(source =>
+    source.imports.flatMap(item => {
+      const className = item.isStatic && !item.isWildcard ? item.name.slice(0, item.name.lastIndexOf('.')) : item.name;
+      const packageName = item.isWildcard && !item.isStatic ? item.name : className.slice(0, className.lastIndexOf('.'));
+      if (!isProjectPackage(packageName)) return [];
+
+      if (item.isWildcard && !item.isStatic) {
+        return projectPackages.has(item.name) ? [] : [{
+          kind: 'import' as const,
+          file: source.path,
+          line: item.line,
+          message: `Import of package ${item.name}, which has no classes in the project`,
+          symbol: item.name
+        }];
+      }
+
+      return table.types.has(className) ? [] : [{
+        kind: 'import' as const,
+        file: source.path,
+        line: item.line,
+        message: `Import of class ${className}, which does not exist in the project`,
+        symbol: className
+      }];
+    })
+  );
+};
+
+const checkConstructorCalls = (table: SymbolTable): IssueDraft[] =>
+  Object.values(table.files).flatMap(source => {
+    const issues: IssueDraft[] = [];
+    CONSTRUCTOR_CALL_PATTERN.lastIndex = 0;
+    let match;
+    while ((match = CONSTRUCTOR_CALL_PATTERN.exec(source.masked)) !== null) {
+      const type = resolveType(table, source.path, match[1]);
+      if (!type || type.kind !== 'class') continue;
+
+      const arity = countArguments(source.masked, match.index + match[0].length - 1);
+      // Classes without constructors get the default one
+      const constructors = type.constructors.length > 0
+        ? type.constructors
+        : [{ name: type.name, returnType: null, parameters: [], isStatic: false, line: type.line }];
+      if (constructors.some(constructor => acceptsArity(constructor, arity))) continue;
+
+      issues.push({
+        kind: 'constructor',
+        file: source.path,
+        line: lineAt(source.masked, match.index),
+        message: `new ${type.name}(...) passes ${arity} argument${arity === 1 ? '' : 's'}, but ${type.name} takes ${describeArities(constructors)}`,
+        symbol: type.qualifiedName
+      });
+    }
+    return issues;
+  });
+
+const checkMethodCalls = (table: SymbolTable): IssueDraft[] =>
+  Object.keys(table.files).flatMap(filePath =>
+    findQualifiedCalls(table, filePath).flatMap(call => {
+      const type = call.receiverType ? resolveType(table, filePath, call.receiverType) : null;
+      if (!type) return [];
+
+      const { methods, open } = collectMethods(table, type);
+      const candidates = methods.filter(method => method.name === call.method);
+
+      if (candidates.length === 0) {
+        return open ? [] : [{
+          kind: 'method' as const,
+          file: filePath,
+          line: call.line,
+          message: `${call.receiver}.${call.method}(...) calls a method ${type.name} does not declare`,
+          symbol: `${type.qualifiedName}.${call.method}`
+        }];
+      }
+      if (candidates.some(method => acceptsArity(method, call.arity))) return [];
+
+      return [{
+        kind: 'method' as const,
+        file: filePath,
+        line: call.line,
+        message: `${call.receiver}.${call.method}(...) passes ${call.arity} argument${call.arity === 1 ? '' : 's'}, but ${type.name}.${call.method} takes ${describeArities(candidates)}`,
+        symbol: `${type.qualifiedName}.${call.method}`
+      }];
+    })
+  );
+
+/**
+ * Reads the main class, command names and aliases from plugin.yml
+ */
+const parsePluginCommands = (files: Record<string, string>): PluginCommands | null => {
+  const ymlPath = Object.keys(files).find(filePath => filePath.endsWith('plugin.yml'));
+  if (!ymlPath) return null;
+
+  const { plugin } = parsePluginYml(files[ymlPath]);
+  if (!plugin) return null; // Reported by the plugin.yml validation
+
+  return {
+    path: ymlPath,
+    main: plugin.main || null,
+    commands: Object.keys(plugin.commands).map(command => command.toLowerCase()),
+    aliases: Object.values(plugin.commands).flatMap(command => command.aliases.map(alias => alias.toLowerCase()))
+  };
+};
+
+const checkCommands = (table: SymbolTable, files: Record<string, string>): IssueDraft[] => {
+  const plugin = parsePluginCommands(files);
+  if (!plugin) return [];
+
+  const issues: IssueDraft[] = [];
+  const registered = new Set<string>();
+
+  Object.keys(table.files).forEach(filePath => {
+    GET_COMMAND_PATTERN.lastIndex = 0;
+    let match;
+    while ((match = GET_COMMAND_PATTERN.exec(files[filePath])) !== null) {
+      const command = match[1].toLowerCase();
+      registered.add(command);
+      if (!plugin.commands.includes(command) && !plugin.aliases.includes(command)) {
+        issues.push({
+          kind: 'command',
+          file: filePath,
+          line: lineAt(files[filePath], match.index),
+          message: `getCommand("${match[1]}") refers to a command that plugin.yml does not declare, so it returns null`,
+          symbol: match[1]
+        });
+      }
+    }
+  });
+
+  // The plugin itself is the executor of commands it handles in onCommand
+  const mainType = plugin.main ? table.types.get(plugin.main) : null;
+  if (mainType?.methods.some(method => method.name === 'onCommand')) return issues;
+
+  plugin.commands
+    .filter(command => !registered.has(command))
+    .forEach(command => issues.push({
+      kind: 'command',
+      file: plugin.path,
+      line: null,
+      message: `Command /${command} is declared in plugin.yml but no executor is registered for it`,
+      symbol: command
+    }));
+
+  return issues;
+};
+
+/**
+ * Checks references between the generated files without asking the model
+ */
+export const checkConsistency = (files: Record<string, string>): ConsistencyIssue[] => {
+  const table = buildSymbolTable(files);
+  return [
+    ...checkPackages(table),
+    ...checkImports(table),
+    ...checkConstructorCalls(table),
+    ...checkMethodCalls(table),
+    ...checkCommands(table, files)
+  ].map((draft, index) => ({ id: `C${index + 1}`, ...draft }));
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const addCommandToPluginYml = (content: string, command: string): string =>
+  updatePluginYml(content, plugin => ({
+    ...plugin,
+    commands: { ...plugin.commands, [command]: { description: `${command} command`, usage: `/${command}`, aliases: [] } }
+  })).content;
+
+/**
+ * Applies the fixes that don't need the model: package declarations that don't match their
+ * directory, imports of classes that live in another package, and commands missing from plugin.yml
+ */
+const applyFixes = (files: Record<string, string>, issues: ConsistencyIssue[]): Record<string, string> => {
+  const updated = { ...files };
+  const table = buildSymbolTable(files);
+
+  issues.filter(issue => issue.kind === 'package').forEach(issue => {
+    const source = table.files[issue.file];
+    const expected = issue.symbol!;
+    const content = updated[issue.file];
+
+    updated[issue.file] = source.packageName
+      ? content.replace(/\bpackage\s+[\w.\s]+;/, `package ${expected};`)
+      : `package ${expected};\n\n${content}`;
+
+    // Files importing the moved classes follow them
+    if (source.packageName) {
+      source.types.filter(type => isTopLevel(table, type)).forEach(type => {
+        const oldImport = new RegExp(`\\bimport\\s+${escapeRegExp(`${source.packageName}.${type.name}`)}\\s*;`, 'g');
+        Object.keys(updated).filter(filePath => filePath.endsWith('.java')).forEach(filePath => {
+          updated[filePath] = updated[filePath].replace(oldImport, `import ${expected}.${type.name};`);
+        });
+      });
+    }
+  });
+
+  // Re-read after the package fixes so imports are matched against the final packages
+  const fixedTable = buildSymbolTable(updated);
+  issues.filter(issue => issue.kind === 'import' && issue.symbol).forEach(issue => {
+    const simpleName = issue.symbol!.split('.').pop()!;
+    const matches = [...fixedTable.types.values()].filter(type => type.name === simpleName && isTopLevel(fixedTable, type));
+    if (matches.length !== 1 || matches[0].qualifiedName === issue.symbol) return;
+
+    const oldImport = new RegExp(`\\bimport\\s+${escapeRegExp(issue.symbol!)}\\s*;`);
+    updated[issue.file] = updated[issue.file].replace(oldImport, `import ${matches[0].qualifiedName};`);
+  });
+
+  const plugin = parsePluginCommands(updated);
+  if (plugin) {
+    issues
+      .filter(issue => issue.kind === 'command' && issue.file !== plugin.path && issue.symbol)
+      .map(issue => issue.symbol!.toLowerCase())
+      .filter((command, index, commands) => commands.indexOf(command) === index)
+      .forEach(command => {
+        updated[plugin.path] = addCommandToPluginYml(updated[plugin.path], command);
+      });
+  }
+
+  return updated;
+};
+
+// Messages only use simple names, so issues still match after packages were fixed
+const issueKey = (issue: ConsistencyIssue): string => [issue.kind, issue.file, issue.message].join('|');
+
+/**
+ * Checks the files, fixes what can be fixed deterministically and reports the rest
+ */
+export const resolveConsistency = (files: Record<string, string>): ConsistencyResult => {
+  const issues = checkConsistency(files);
+  if (issues.length === 0) {
+    return { files, fixed: [], remaining: [] };
+  }
+
+  const updated = applyFixes(files, issues);
+  const remaining = checkConsistency(updated);
+  const remainingKeys = new Set(remaining.map(issueKey));
+
+  return {
+    files: updated,
+    fixed: issues.filter(issue => !remainingKeys.has(issueKey(issue))),
+    remaining
+  };
+};
+
+export const formatConsistencyIssue = (issue: ConsistencyIssue): string =>
+  `[${issue.id}] ${issue.kind} ${issue.file}${issue.line ? `:${issue.line}` : ''}: ${issue.message}`;
+
+/**
+ * Declarations of the project types the issues refer to, so the model sees the real signatures
+ */
+export const describeReferencedTypes = (files: Record<string, string>, issues: ConsistencyIssue[]): JavaType[] => {
+  const table = buildSymbolTable(files);
+  const referenced = new Map<string, JavaType>();
+
+  issues.forEach(issue => {
+    if (!issue.symbol) return;
+    const type = table.types.get(issue.symbol) || table.types.get(issue.symbol.slice(0, issue.symbol.lastIndexOf('.')));
+    if (type) {
+      referenced.set(type.qualifiedName, type);
+    } else if (issue.kind === 'import') {
+      // For missing classes, show the classes that do exist with the same name
+      const simpleName = issue.symbol.split('.').pop();
+      [...table.types.values()].filter(candidate => candidate.name === simpleName)
+        .forEach(candidate => referenced.set(candidate.qualifiedName, candidate));
+    }
+  });
+
+  return [...referenced.values()];
+};
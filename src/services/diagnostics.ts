@@ -0,0 +1,283 @@
+// Structured diagnostics parsed from Maven, Gradle and javac build output
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticKind = 'compile' | 'pom' | 'gradle' | 'xml' | 'dependency' | 'build';
+
+export interface Diagnostic {
+  id: string;
+  kind: DiagnosticKind;
+  severity: DiagnosticSeverity;
+  file: string | null;
+  line: number | null;
+  column: number | null;
+  message: string;
+  symbol: string | null;
+}
+
+type DiagnosticDraft = Omit<Diagnostic, 'id'>;
+
+// Maven compiler plugin: [ERROR] /path/File.java:[12,5] message
+const MAVEN_COMPILE_PATTERN = /^\[(ERROR|WARNING)\]\s+(\S+\.java):\[(\d+)(?:,(\d+))?\]\s*(.*)$/;
+// Plain javac: File.java:12: error: message
+const JAVAC_PATTERN = /^(\S+\.java):(\d+):\s*(error|warning):\s*(.*)$/;
+// Follow-up lines of "cannot find symbol"
+const SYMBOL_PATTERN = /^(?:\[(?:ERROR|WARNING)\])?\s*symbol\s*:\s*(?:(?:class|interface|enum|method|variable|static)\s+)*([A-Za-z0-9_$.]+)/;
+// [FATAL] Non-parseable POM /path/pom.xml: message @ line 25, column 15
+const POM_PARSE_PATTERN = /(?:Non-parseable|Malformed) POM\s+(\S+?):\s*(.*?)(?:\s*@\s*(?:line\s+)?(\d+)(?:,\s*column\s+|:)(\d+))?\s*$/;
+// [ERROR]   'dependencies.dependency.version' for x:y:jar is missing. @ line 30, column 21
+const POM_MODEL_PATTERN = /^\[(ERROR|WARNING)\]\s+('[^']+'.*?)\s*@\s*line\s+(\d+),\s*column\s+(\d+)/;
+// [ERROR]   The project com.x:foo:1.0 (/path/pom.xml) has 1 error
+const POM_PROJECT_PATTERN = /The project \S+ \((\S+pom\.xml)\) has \d+ errors?/;
+// Kotlin build script errors: e: file:///path/build.gradle.kts:12:5: message
+const GRADLE_SCRIPT_PATTERN = /^e:\s+(?:file:\/\/)?(\S+\.kts):(\d+):(\d+):?\s*(.*)$/;
+// Groovy build script errors: Build file '/path/build.gradle' line: 12
+const GRADLE_GROOVY_PATTERN = /Build file '(\S+\.gradle(?:\.kts)?)' line:\s*(\d+)/;
+// Parser errors from XML resources: [Fatal Error] config.xml:3:5: message
+const XML_PARSE_PATTERN = /^\[(?:Fatal Error|Error)\]\s*(\S*?):(\d+):(\d+):\s*(.*)$/;
+const DEPENDENCY_PATTERNS = [
+  /Could not resolve dependencies for project \S+:\s*(.*)/,
+  /(Could not (?:find|transfer) artifact \S+.*)/,
+  /(Failed to collect dependencies at \S+.*)/,
+  /(Plugin \S+ or one of its dependencies could not be resolved.*)/,
+  // Gradle
+  /(Could not (?:find|resolve) [\w.\-]+:[\w.\-]+:[\w.\-]+.*)/,
+  /(Plugin \[id: '[^']+'.*\] was not found.*)/
+];
+const ARTIFACT_PATTERN = /(?:artifact|dependencies at|Plugin|find|resolve)\s+(?:\[id: ')?([\w.\-]+(?::[\w.\-]+)*)/;
+
+const stripLevel = (line: string): string => line.replace(/^\[(?:ERROR|WARNING|FATAL|INFO)\]\s?/, '');
+
+// Prefer the declared symbol; for missing packages the package name is the symbol
+const symbolFromMessage = (message: string): string | null => {
+  const packageMatch = message.match(/package ([\w.]+) does not exist/);
+  if (packageMatch) return packageMatch[1];
+  const classMatch = message.match(/class ([\w.$]+) (?:is public|not found)/);
+  return classMatch ? classMatch[1] : null;
+};
+
+/**
+ * Parses Maven/javac output into diagnostics. Maven repeats compile errors in its
+ * final summary, so duplicates are dropped.
+ */
+export const parseDiagnostics = (output: string): Diagnostic[] => {
+  const lines = output.split('\n').map(line => line.replace(/\r$/, ''));
+  const drafts: DiagnosticDraft[] = [];
+  let pomFile: string | null = null;
+
+  lines.forEach((line, index) => {
+    const projectMatch = line.match(POM_PROJECT_PATTERN);
+    if (projectMatch) {
+      pomFile = projectMatch[1];
+      return;
+    }
+
+    const compileMatch = line.match(MAVEN_COMPILE_PATTERN);
+    const javacMatch = compileMatch ? null : line.match(JAVAC_PATTERN);
+    if (compileMatch || javacMatch) {
+      const [file, lineNumber, column, severity, message] = compileMatch
+        ? [compileMatch[2], compileMatch[3], compileMatch[4], compileMatch[1], compileMatch[5]]
+        : [javacMatch![1], javacMatch![2], undefined, javacMatch![3], javacMatch![4]];
+
+      // "cannot find symbol" names the symbol on one of the next lines, before the next diagnostic
+      let symbol = symbolFromMessage(message);
+      if (/cannot find symbol/.test(message)) {
+        for (const next of lines.slice(index + 1, index + 5)) {
+          if (MAVEN_COMPILE_PATTERN.test(next) || JAVAC_PATTERN.test(next)) break;
+          const symbolMatch = next.match(SYMBOL_PATTERN);
+          if (symbolMatch) {
+            symbol = symbolMatch[1];
+            break;
+          }
+        }
+      }
+
+      drafts.push({
+        kind: 'compile',
+        severity: severity.toLowerCase() === 'warning' ? 'warning' : 'error',
+        file,
+        line: parseInt(lineNumber),
+        column: column ? parseInt(column) : null,
+        message: message.trim(),
+        symbol
+      });
+      return;
+    }
+
+    const pomParseMatch = line.match(POM_PARSE_PATTERN);
+    if (pomParseMatch) {
+      drafts.push({
+        kind: 'pom',
+        severity: 'error',
+        file: pomParseMatch[1],
+        line: pomParseMatch[3] ? parseInt(pomParseMatch[3]) : null,
+        column: pomParseMatch[4] ? parseInt(pomParseMatch[4]) : null,
+        message: pomParseMatch[2].trim(),
+        symbol: null
+      });
+      return;
+    }
+
+    const pomModelMatch = line.match(POM_MODEL_PATTERN);
+    if (pomModelMatch) {
+      drafts.push({
+        kind: 'pom',
+        severity: pomModelMatch[1] === 'WARNING' ? 'warning' : 'error',
+        file: pomFile || 'pom.xml',
+        line: parseInt(pomModelMatch[3]),
+        column: parseInt(pomModelMatch[4]),
+        message: pomModelMatch[2].trim(),
+        symbol: (pomModelMatch[2].match(/for ([\w.\-]+:[\w.\-]+)/) || [])[1] || null
+      });
+      return;
+    }
+
+    const gradleMatch = line.match(GRADLE_SCRIPT_PATTERN);
+    const groovyMatch = gradleMatch ? null : line.match(GRADLE_GROOVY_PATTERN);
+    if (gradleMatch || groovyMatch) {
+      drafts.push({
+        kind: 'gradle',
+        severity: 'error',
+        file: gradleMatch ? gradleMatch[1] : groovyMatch![1],
+        line: parseInt(gradleMatch ? gradleMatch[2] : groovyMatch![2]),
+        column: gradleMatch ? parseInt(gradleMatch[3]) : null,
+        message: gradleMatch ? gradleMatch[4].trim() : stripLevel(line).trim(),
+        symbol: null
+      });
+      return;
+    }
+
+    const xmlMatch = line.match(XML_PARSE_PATTERN);
+    if (xmlMatch) {
+      drafts.push({
+        kind: 'xml',
+        severity: 'error',
+        file: xmlMatch[1] || null,
+        line: parseInt(xmlMatch[2]),
+        column: parseInt(xmlMatch[3]),
+        message: xmlMatch[4].trim(),
+        symbol: null
+      });
+      return;
+    }
+
+    for (const pattern of DEPENDENCY_PATTERNS) {
+      const dependencyMatch = stripLevel(line).match(pattern);
+      if (dependencyMatch) {
+        // The build file (pom.xml or build.gradle.kts) is attached by the caller
+        drafts.push({
+          kind: 'dependency',
+          severity: 'error',
+          file: null,
+          line: null,
+          column: null,
+          message: dependencyMatch[1].trim(),
+          symbol: (dependencyMatch[1].match(ARTIFACT_PATTERN) || [])[1] || null
+        });
+        return;
+      }
+    }
+  });
+
+  // Nothing recognizable: keep the failure lines as generic build diagnostics
+  if (drafts.length === 0) {
+    lines
+      .filter(line => /^\[(ERROR|FATAL)\]/.test(line) && stripLevel(line).trim() && !/^\s*(->|Re-run|To see|For more|Help)/.test(stripLevel(line)))
+      .slice(0, 10)
+      .forEach(line => drafts.push({
+        kind: 'build',
+        severity: 'error',
+        file: null,
+        line: null,
+        column: null,
+        message: stripLevel(line).trim(),
+        symbol: null
+      }));
+  }
+
+  const seen = new Set<string>();
+  return drafts
+    .filter(draft => {
+      const key = [draft.kind, draft.file, draft.line, draft.column, draft.message].join('|');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((draft, index) => ({ id: `D${index + 1}`, ...draft }));
+};
+
+/**
+ * Maps a path from the build output (usually absolute) to a project file key.
+ * Falls back to a unique file name match.
+ */
+export const resolveDiagnosticFile = (file: string | null, projectFiles: string[]): string | null => {
+  if (!file) return null;
+  const normalized = file.replace(/\\/g, '/');
+
+  const suffixMatches = projectFiles
+    .filter(key => normalized === key || normalized.endsWith(`/${key}`))
+    .sort((a, b) => b.length - a.length);
+  if (suffixMatches.length > 0) return suffixMatches[0];
+
+  const fileName = normalized.split('/').pop();
+  const nameMatches = projectFiles.filter(key => key.split('/').pop() === fileName);
+  return nameMatches.length === 1 ? nameMatches[0] : null;
+};
+
+const classNameOf = (filePath: string): string => (filePath.split('/').pop() || filePath).replace(/\.java$/, '');
+
+/**
+ * Finds project classes used by the affected Java files or named by the diagnostics
+ */
+export const findReferencedFiles = (
+  files: Record<string, string>,
+  affectedFiles: string[],
+  diagnostics: Diagnostic[],
+  limit = 8
+): string[] => {
+  const symbols = new Set(diagnostics.map(diagnostic => diagnostic.symbol?.split('.').pop()).filter(Boolean));
+  const affectedSources = affectedFiles
+    .filter(filePath => filePath.endsWith('.java'))
+    .map(filePath => files[filePath] || '');
+
+  return Object.keys(files)
+    .filter(filePath => filePath.endsWith('.java') && !affectedFiles.includes(filePath))
+    .filter(filePath => {
+      const className = classNameOf(filePath);
+      const reference = new RegExp(`\\b${className}\\b`);
+      return symbols.has(className) || affectedSources.some(source => reference.test(source));
+    })
+    .slice(0, limit);
+};
+
+/**
+ * Renders the lines around each reported line with line numbers, marking the reported ones
+ */
+export const annotateSnippet = (content: string, lineNumbers: number[], context = 3): string => {
+  const lines = content.split('\n');
+  const marked = new Set(lineNumbers);
+  const shown = new Set<number>();
+
+  lineNumbers.forEach(lineNumber => {
+    for (let n = Math.max(1, lineNumber - context); n <= Math.min(lines.length, lineNumber + context); n++) {
+      shown.add(n);
+    }
+  });
+
+  let previous = 0;
+  return [...shown].sort((a, b) => a - b)
+    .map(n => {
+      const gap = previous && n > previous + 1 ? '     ...\n' : '';
+      previous = n;
+      return `${gap}${marked.has(n) ? '>>' : '  '} ${String(n).padStart(4)} | ${lines[n - 1]}`;
+    })
+    .join('\n');
+};
+
+export const formatDiagnostic = (diagnostic: Diagnostic): string => {
+  const location = diagnostic.file
+    ? `${diagnostic.file}${diagnostic.line ? `:${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ''}` : ''}`
+    : 'build';
+  const symbol = diagnostic.symbol ? ` (symbol: ${diagnostic.symbol})` : '';
+  return `[${diagnostic.id}] ${diagnostic.severity.toUpperCase()} ${diagnostic.kind} ${location}: ${diagnostic.message}${symbol}`;
+};
@@ -0,0 +1,281 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Disk-backed cache of model output. Entries are addressed by a hash of everything that shapes the
+// output (prompt, target, models, template versions), so they survive restarts and a changed input
+// never returns a stale result. Expired entries and the least recently used ones beyond the size
+// limits are evicted.
+
+export type CacheNamespace = 'create' | 'fix';
+
+export interface CacheEntryInfo {
+  key: string;
+  namespace: CacheNamespace;
+  parts: Record<string, unknown>; // What the key was made from, for inspection
+  buildId: string | null;         // Build the cached result was produced for
+  createdAt: string;
+  expiresAt: string | null;       // null when entries don't expire
+  lastHitAt: string | null;
+  hits: number;
+  sizeBytes: number;
+}
+
+export interface CacheEntry<T> extends CacheEntryInfo {
+  value: T;
+}
+
+interface NamespaceStats {
+  hits: number;
+  misses: number;
+  writes: number;
+}
+
+export interface CacheStats {
+  since: string; // Counters are kept from process start
+  entries: number;
+  sizeBytes: number;
+  limits: { ttlSeconds: number; maxEntries: number; maxBytes: number };
+  namespaces: Record<CacheNamespace, NamespaceStats & { entries: number; hitRate: number | null }>;
+  evictions: { expired: number; size: number; purged: number };
+}
+
+const CACHE_DIR = process.env.CACHE_DIR || path.join(__dirname, '../../data/cache');
+
+// 0 disables the limit
+const CACHE_TTL_SECONDS = parseInt(process.env.CACHE_TTL || "3600");
+const CACHE_MAX_ENTRIES = parseInt(process.env.CACHE_MAX_ENTRIES || "1000");
+const CACHE_MAX_BYTES = parseInt(process.env.CACHE_MAX_BYTES || String(100 * 1024 * 1024));
+
+const CACHE_NAMESPACES: CacheNamespace[] = ['create', 'fix'];
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+const startedAt = new Date().toISOString();
+const stats: Record<CacheNamespace, NamespaceStats> = {
+  create: { hits: 0, misses: 0, writes: 0 },
+  fix: { hits: 0, misses: 0, writes: 0 }
+};
+const evictions = { expired: 0, size: 0, purged: 0 };
+
+// Metadata of every entry on disk; values are only read on a hit
+let index: Map<string, CacheEntryInfo> | null = null;
+
+export const isCacheKey = (key: string): boolean => KEY_PATTERN.test(key);
+
+const entryPath = (key: string): string => path.join(CACHE_DIR, `${key}.json`);
+
+// Sorted object keys, so the same parts always hash the same
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value === undefined ? null : value);
+};
+
+/**
+ * The key for a result made from the given inputs. Large inputs (files, build logs) can be passed
+ * as their hash to keep the recorded parts small.
+ */
+export const createCacheKey = (namespace: CacheNamespace, parts: Record<string, unknown>): string =>
+  crypto.createHash('sha256').update(`${namespace}:${stableStringify(parts)}`).digest('hex');
+
+const withoutValue = <T>({ value, ...info }: CacheEntry<T>): CacheEntryInfo => info;
+
+const loadIndex = (): Map<string, CacheEntryInfo> => {
+  if (index) return index;
+
+  index = new Map();
+  if (!fs.existsSync(CACHE_DIR)) return index;
+
+  for (const fileName of fs.readdirSync(CACHE_DIR)) {
+    const key = fileName.replace(/\.json$/, '');
+    if (!isCacheKey(key) || fileName === key) continue;
+    try {
+      const entry: CacheEntry<unknown> = JSON.parse(fs.readFileSync(entryPath(key), 'utf8'));
+      index.set(key, withoutValue(entry));
+    } catch (error) {
+      console.warn(`[CACHE] Removing unreadable entry ${fileName}:`, (error as Error).message);
+      fs.rmSync(entryPath(key), { force: true });
+    }
+  }
+  console.log(`[CACHE] Loaded ${index.size} entries from ${CACHE_DIR}`);
+  return index;
+};
+
+const writeEntry = <T>(entry: CacheEntry<T>): void => {
+  fs.mkdirSync(CACHE_DIR, { recursive: true });
+  const tempPath = `${entryPath(entry.key)}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(entry));
+  fs.renameSync(tempPath, entryPath(entry.key));
+};
+
+const removeEntry = (key: string, reason: keyof typeof evictions): void => {
+  loadIndex().delete(key);
+  fs.rmSync(entryPath(key), { force: true });
+  evictions[reason]++;
+};
+
+const isExpired = (entry: CacheEntryInfo): boolean =>
+  entry.expiresAt !== null && Date.parse(entry.expiresAt) <= Date.now();
+
+const lastUsed = (entry: CacheEntryInfo): number => Date.parse(entry.lastHitAt || entry.createdAt);
+
+// Drops expired entries, then the least recently used ones until the cache fits its limits
+const evict = (): void => {
+  const entries = loadIndex();
+  entries.forEach(entry => {
+    if (isExpired(entry)) removeEntry(entry.key, 'expired');
+  });
+
+  const byLastUse = Array.from(entries.values()).sort((a, b) => lastUsed(a) - lastUsed(b));
+  let totalBytes = byLastUse.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  for (const entry of byLastUse) {
+    const overEntries = CACHE_MAX_ENTRIES > 0 && entries.size > CACHE_MAX_ENTRIES;
+    const overBytes = CACHE_MAX_BYTES > 0 && totalBytes > CACHE_MAX_BYTES;
+    if (!overEntries && !overBytes) break;
+
+    removeEntry(entry.key, 'size');
+    totalBytes -= entry.sizeBytes;
+  }
+};
+
+/**
+ * Returns a cached result and counts the hit, or null (a miss) when there is none or it expired
+ */
+export const getCached = <T>(namespace: CacheNamespace, key: string): CacheEntry<T> | null => {
+  const info = loadIndex().get(key);
+  if (info && isExpired(info)) {
+    removeEntry(key, 'expired');
+  }
+
+  let entry: CacheEntry<T> | null = null;
+  if (info && !isExpired(info) && info.namespace === namespace) {
+    try {
+      entry = JSON.parse(fs.readFileSync(entryPath(key), 'utf8'));
+    } catch (error) {
+      console.warn(`[CACHE] Could not read entry ${key}:`, (error as Error).message);
+      loadIndex().delete(key);
+    }
+  }
+
+  if (!entry) {
+    stats[namespace].misses++;
+    return null;
+  }
+
+  stats[namespace].hits++;
+  entry.hits++;
+  entry.lastHitAt = new Date().toISOString();
+  try {
+    writeEntry(entry);
+    loadIndex().set(key, withoutValue(entry));
+  } catch (error) {
+    console.warn(`[CACHE] Could not record hit on ${key}:`, (error as Error).message);
+  }
+  return entry;
+};
+
+/**
+ * Stores a result under its key. Caching is best effort; a failed write is logged and ignored.
+ */
+export const setCached = <T>(
+  namespace: CacheNamespace,
+  key: string,
+  parts: Record<string, unknown>,
+  value: T,
+  buildId: string | null = null
+): void => {
+  const now = new Date();
+  const entry: CacheEntry<T> = {
+    key,
+    namespace,
+    parts,
+    buildId,
+    createdAt: now.toISOString(),
+    expiresAt: CACHE_TTL_SECONDS > 0 ? new Date(now.getTime() + CACHE_TTL_SECONDS * 1000).toISOString() : null,
+    lastHitAt: null,
+    hits: 0,
+    sizeBytes: 0,
+    value
+  };
+  entry.sizeBytes = Buffer.byteLength(JSON.stringify(entry));
+
+  try {
+    writeEntry(entry);
+    loadIndex().set(key, withoutValue(entry));
+    stats[namespace].writes++;
+    evict();
+  } catch (error) {
+    console.warn(`[CACHE] Could not store entry ${key}:`, (error as Error).message);
+  }
+};
+
+/**
+ * Metadata of the cached entries, most recently used first
+ */
+export const listCacheEntries = (namespace?: CacheNamespace): CacheEntryInfo[] => {
+  evict();
+  return Array.from(loadIndex().values())
+    .filter(entry => !namespace || entry.namespace === namespace)
+    .sort((a, b) => lastUsed(b) - lastUsed(a));
+};
+
+/**
+ * An entry with its cached value, without counting it as a hit
+ */
+export const readCacheEntry = (key: string): CacheEntry<unknown> | null => {
+  const info = loadIndex().get(key);
+  if (!info || isExpired(info)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(entryPath(key), 'utf8'));
+  } catch {
+    return null;
+  }
+};
+
+export const deleteCacheEntry = (key: string): boolean => {
+  if (!loadIndex().has(key)) return false;
+  removeEntry(key, 'purged');
+  return true;
+};
+
+/**
+ * Removes every entry, or every entry of one namespace. Returns how many were removed.
+ */
+export const flushCache = (namespace?: CacheNamespace): number => {
+  const keys = Array.from(loadIndex().values())
+    .filter(entry => !namespace || entry.namespace === namespace)
+    .map(entry => entry.key);
+  keys.forEach(key => removeEntry(key, 'purged'));
+  return keys.length;
+};
+
+export const isCacheNamespace = (namespace: unknown): namespace is CacheNamespace =>
+  CACHE_NAMESPACES.includes(namespace as CacheNamespace);
+
+export const getCacheStats = (): CacheStats => {
+  const entries = listCacheEntries();
+  const namespaces = Object.fromEntries(CACHE_NAMESPACES.map(namespace => {
+    const { hits, misses, writes } = stats[namespace];
+    return [namespace, {
+      hits,
+      misses,
+      writes,
+      entries: entries.filter(entry => entry.namespace === namespace).length,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : null
+    }];
+  })) as CacheStats['namespaces'];
+
+  return {
+    since: startedAt,
+    entries: entries.length,
+    sizeBytes: entries.reduce((sum, entry) => sum + entry.sizeBytes, 0),
+    limits: { ttlSeconds: CACHE_TTL_SECONDS, maxEntries: CACHE_MAX_ENTRIES, maxBytes: CACHE_MAX_BYTES },
+    namespaces,
+    evictions: { ...evictions }
+  };
+};
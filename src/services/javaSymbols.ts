@@ -0,0 +1,539 @@
+// Declarations of the generated Java sources: packages, imports, types and their members.
+// This is a lightweight scanner rather than a full parser; it only needs to understand
+// the kind of code the model writes well enough to check references between files.
+
+export type JavaTypeKind = 'class' | 'interface' | 'enum' | 'record' | 'annotation';
+
+export interface JavaImport {
+  name: string;       // Qualified name, or the package for wildcard imports
+  isStatic: boolean;
+  isWildcard: boolean;
+  line: number;
+}
+
+export interface JavaField {
+  name: string;
+  type: string;
+  isStatic: boolean;
+  line: number;
+}
+
+export interface JavaMethod {
+  name: string;
+  returnType: string | null; // null for constructors
+  parameters: string[];      // Parameter types; varargs are written as Type...
+  isStatic: boolean;
+  line: number;
+}
+
+export interface JavaType {
+  name: string;
+  qualifiedName: string;
+  kind: JavaTypeKind;
+  filePath: string;
+  superclass: string | null;
+  interfaces: string[];
+  fields: JavaField[];
+  constructors: JavaMethod[];
+  methods: JavaMethod[];
+  line: number;
+}
+
+export interface JavaSourceFile {
+  path: string;
+  packageName: string | null;
+  packageLine: number | null;
+  imports: JavaImport[];
+  types: JavaType[];  // Top-level and nested types
+  masked: string;     // Source with comments and literals blanked out, for scanning
+}
+
+export interface QualifiedCall {
+  receiver: string;            // Variable, field or type name before the dot
+  receiverType: string | null; // Declared type of the receiver; the receiver itself when it names a type
+  method: string;
+  arity: number;
+  line: number;
+}
+
+export interface SymbolTable {
+  files: Record<string, JavaSourceFile>;
+  types: Map<string, JavaType>; // By qualified name
+}
+
+const IDENTIFIER = '[A-Za-z_$][\\w$]*';
+const PACKAGE_PATTERN = new RegExp(`\\bpackage\\s+(${IDENTIFIER}(?:\\s*\\.\\s*${IDENTIFIER})*)\\s*;`);
+const IMPORT_PATTERN = new RegExp(`\\bimport\\s+(static\\s+)?(${IDENTIFIER}(?:\\s*\\.\\s*${IDENTIFIER})*)(\\s*\\.\\s*\\*)?\\s*;`, 'g');
+const TYPE_HEADER_PATTERN = new RegExp(`^(class|interface|enum|record|@\\s*interface)\\s+(${IDENTIFIER})([\\s\\S]*)$`);
+// Local variables and parameters: Type name followed by =, ;, , or )
+const VARIABLE_PATTERN = /\b([A-Z][\w$]*(?:\.[A-Z][\w$]*)*)(?:\s*<[^;(){}=]*>)?(?:\s*\[\s*\])*\s+([a-z_$][\w$]*)\s*(?=[=;,):])/g;
+// Type arguments such as <String, List<Integer>>, removed innermost first before counting arguments
+const TYPE_ARGUMENTS_PATTERN = /<[\w\s,.?\[\]&]*>/g;
+// receiver.method( with optional explicit type arguments
+const QUALIFIED_CALL_PATTERN = /\b([A-Za-z_$][\w$]*)\s*\.\s*([A-Za-z_$][\w$]*)\s*(?:<[^;(){}]*>\s*)?\(/g;
+const ANNOTATION_PATTERN = /@(?!interface\b)[\w$.]+(\s*\([^()]*(\([^()]*\)[^()]*)*\))?/g;
+const MODIFIER_PATTERN = /^(?:(?:public|protected|private|static|final|abstract|synchronized|native|transient|volatile|strictfp|default|sealed|non-sealed)\s+)+/;
+
+/**
+ * Blanks out comments, string, char and text block literals, keeping line breaks
+ * so offsets and line numbers still match the original source
+ */
+export const maskSource = (source: string): string => {
+  const chars = source.split('');
+  const blank = (from: number, to: number) => {
+    for (let n = from; n < to && n < chars.length; n++) {
+      if (chars[n] !== '\n') chars[n] = ' ';
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    if (source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? source.length : end;
+      blank(i, stop);
+      i = stop;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      blank(i, stop);
+      i = stop;
+    } else if (source.startsWith('"""', i)) {
+      const end = source.indexOf('"""', i + 3);
+      const stop = end === -1 ? source.length : end + 3;
+      blank(i + 1, stop - 1);
+      i = stop;
+    } else if (source[i] === '"' || source[i] === '\'') {
+      const quote = source[i];
+      let end = i + 1;
+      while (end < source.length && source[end] !== quote && source[end] !== '\n') {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+      // Keep the quotes so literals still count as arguments
+      blank(i + 1, end);
+      i = end + 1;
+    } else {
+      i++;
+    }
+  }
+
+  return chars.join('');
+};
+
+export const lineAt = (source: string, index: number): number => {
+  let line = 1;
+  for (let n = 0; n < index && n < source.length; n++) {
+    if (source[n] === '\n') line++;
+  }
+  return line;
+};
+
+/**
+ * Returns the index of the bracket closing the one at `openIndex`, or the end of the source
+ */
+export const findClosing = (source: string, openIndex: number): number => {
+  const open = source[openIndex];
+  const close = open === '(' ? ')' : open === '[' ? ']' : '}';
+  let depth = 0;
+  for (let n = openIndex; n < source.length; n++) {
+    if (source[n] === open) depth++;
+    else if (source[n] === close && --depth === 0) return n;
+  }
+  return source.length;
+};
+
+/**
+ * Splits on a separator outside of brackets and generic type arguments
+ */
+export const splitTopLevel = (text: string, separator = ','): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let n = 0; n < text.length; n++) {
+    const char = text[n];
+    if ('([{<'.includes(char)) depth++;
+    else if (')]}>'.includes(char) && text[n - 1] !== '-') depth--;
+    else if (char === separator && depth === 0) {
+      parts.push(text.slice(start, n));
+      start = n + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map(part => part.trim()).filter(Boolean);
+};
+
+const collapse = (text: string): string => text.replace(/\s+/g, ' ').replace(/\s*([<>,.\[\]])\s*/g, '$1').trim();
+
+const stripModifiers = (header: string): { text: string; isStatic: boolean } => {
+  const withoutAnnotations = header.replace(ANNOTATION_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+  const modifiers = withoutAnnotations.match(MODIFIER_PATTERN);
+  return {
+    text: modifiers ? withoutAnnotations.slice(modifiers[0].length) : withoutAnnotations,
+    isStatic: !!modifiers && /\bstatic\b/.test(modifiers[0])
+  };
+};
+
+const parseParameters = (text: string): string[] =>
+  splitTopLevel(text).map(parameter => {
+    const cleaned = parameter.replace(ANNOTATION_PATTERN, ' ').replace(/\bfinal\s+/g, '').trim();
+    const nameMatch = cleaned.match(new RegExp(`(${IDENTIFIER})\\s*((?:\\[\\s*\\])*)$`));
+    const type = nameMatch ? cleaned.slice(0, nameMatch.index).trim() + nameMatch[2] : cleaned;
+    return collapse(type);
+  });
+
+// Index of the first character outside brackets that matches, or -1
+const indexOfTopLevel = (text: string, char: string): number => {
+  let depth = 0;
+  for (let n = 0; n < text.length; n++) {
+    if (text[n] === char && depth === 0) return n;
+    if ('([{'.includes(text[n])) depth++;
+    else if (')]}'.includes(text[n])) depth--;
+  }
+  return -1;
+};
+
+interface ParseContext {
+  source: string;       // Masked source
+  filePath: string;
+  packageName: string | null;
+  types: JavaType[];
+}
+
+const parseTypeHeader = (
+  context: ParseContext,
+  match: RegExpMatchArray,
+  owner: JavaType | null,
+  line: number
+): JavaType => {
+  const kind: JavaTypeKind = match[1].startsWith('@') ? 'annotation' : match[1] as JavaTypeKind;
+  const name = match[2];
+  let rest = match[3].trim();
+
+  // Type parameters and record components come before extends/implements
+  if (rest.startsWith('<')) {
+    rest = rest.slice(findGenericEnd(rest) + 1).trim();
+  }
+  let components: string | null = null;
+  if (kind === 'record' && rest.startsWith('(')) {
+    const end = findClosing(rest, 0);
+    components = rest.slice(1, end);
+    rest = rest.slice(end + 1).trim();
+  }
+
+  const extendsMatch = rest.match(/\bextends\s+([\s\S]+?)(?=\bimplements\b|\bpermits\b|$)/);
+  const implementsMatch = rest.match(/\bimplements\s+([\s\S]+?)(?=\bpermits\b|$)/);
+  const extended = extendsMatch ? splitTopLevel(extendsMatch[1]).map(collapse) : [];
+  const implemented = implementsMatch ? splitTopLevel(implementsMatch[1]).map(collapse) : [];
+
+  const type: JavaType = {
+    name,
+    qualifiedName: owner
+      ? `${owner.qualifiedName}.${name}`
+      : context.packageName ? `${context.packageName}.${name}` : name,
+    kind,
+    filePath: context.filePath,
+    superclass: kind === 'class' && extended.length > 0 ? extended[0] : null,
+    interfaces: kind === 'interface' ? extended : implemented,
+    fields: [],
+    constructors: [],
+    methods: [],
+    line
+  };
+
+  if (components !== null) {
+    const parameters = parseParameters(components);
+    type.constructors.push({ name, returnType: null, parameters, isStatic: false, line });
+    splitTopLevel(components).forEach((component, index) => {
+      const componentName = (component.match(new RegExp(`(${IDENTIFIER})\\s*$`)) || [])[1];
+      if (componentName) {
+        type.fields.push({ name: componentName, type: parameters[index], isStatic: false, line });
+        type.methods.push({ name: componentName, returnType: parameters[index], parameters: [], isStatic: false, line });
+      }
+    });
+  }
+
+  return type;
+};
+
+// Index of the '>' closing a leading '<'
+const findGenericEnd = (text: string): number => {
+  let depth = 0;
+  for (let n = 0; n < text.length; n++) {
+    if (text[n] === '<') depth++;
+    else if (text[n] === '>' && --depth === 0) return n;
+  }
+  return text.length - 1;
+};
+
+const parseMemberHeader = (header: string, owner: JavaType, line: number): void => {
+  const { text, isStatic } = stripModifiers(header);
+  if (!text) return;
+
+  // Fields, with or without an initializer
+  const equalsIndex = indexOfTopLevel(text, '=');
+  const parenIndex = indexOfTopLevel(text, '(');
+  if (parenIndex === -1 || (equalsIndex !== -1 && equalsIndex < parenIndex)) {
+    const declaration = equalsIndex === -1 ? text : text.slice(0, equalsIndex);
+    const [first, ...others] = splitTopLevel(declaration);
+    const firstMatch = first?.match(new RegExp(`^([\\s\\S]+?)\\s+(${IDENTIFIER})\\s*((?:\\[\\s*\\])*)$`));
+    if (!firstMatch) return;
+
+    const type = collapse(firstMatch[1] + firstMatch[3]);
+    owner.fields.push({ name: firstMatch[2], type, isStatic, line });
+    others.forEach(other => {
+      const otherName = (other.match(new RegExp(`^(${IDENTIFIER})`)) || [])[1];
+      if (otherName) owner.fields.push({ name: otherName, type, isStatic, line });
+    });
+    return;
+  }
+
+  // Methods and constructors: [<T>] [ReturnType] name(parameters) [throws ...]
+  let signature = text.slice(0, parenIndex).trim();
+  if (signature.startsWith('<')) {
+    signature = signature.slice(findGenericEnd(signature) + 1).trim();
+  }
+  const nameMatch = signature.match(new RegExp(`(${IDENTIFIER})$`));
+  if (!nameMatch) return;
+
+  const name = nameMatch[1];
+  const returnType = collapse(signature.slice(0, nameMatch.index));
+  const parameters = parseParameters(text.slice(parenIndex + 1, findClosing(text, parenIndex)));
+
+  if (!returnType) {
+    if (name === owner.name) {
+      owner.constructors.push({ name, returnType: null, parameters, isStatic: false, line });
+    }
+    return;
+  }
+  owner.methods.push({ name, returnType, parameters, isStatic, line });
+};
+
+/**
+ * Walks the declarations between `start` and `end`, registering types and the members of `owner`
+ */
+const parseDeclarations = (context: ParseContext, start: number, end: number, owner: JavaType | null): void => {
+  const { source } = context;
+  let segmentStart = start;
+
+  const handle = (segmentEnd: number, body: [number, number] | null) => {
+    const header = source.slice(segmentStart, segmentEnd);
+    const offset = header.search(/\S/);
+    if (offset === -1) return;
+    const line = lineAt(source, segmentStart + offset);
+
+    const { text } = stripModifiers(header);
+    const typeMatch = text.match(TYPE_HEADER_PATTERN);
+    if (typeMatch && body) {
+      const type = parseTypeHeader(context, typeMatch, owner, line);
+      context.types.push(type);
+
+      // Enum constants come before the first top-level semicolon of the body
+      let membersStart = body[0];
+      if (type.kind === 'enum') {
+        const semicolon = indexOfTopLevel(source.slice(body[0], body[1]), ';');
+        membersStart = semicolon === -1 ? body[1] : body[0] + semicolon + 1;
+      }
+      parseDeclarations(context, membersStart, body[1], type);
+    } else if (owner && !typeMatch) {
+      parseMemberHeader(header, owner, line);
+    }
+  };
+
+  let n = start;
+  while (n < end) {
+    const char = source[n];
+    if (char === '(' || char === '[') {
+      // Lambdas and array initializers inside parentheses don't start declarations
+      n = findClosing(source, n) + 1;
+    } else if (char === ';') {
+      handle(n, null);
+      segmentStart = n + 1;
+      n++;
+    } else if (char === '{') {
+      const close = Math.min(findClosing(source, n), end);
+      handle(n, [n + 1, close]);
+      n = close + 1;
+      // "= new Foo() { ... };" and "= { 1, 2 };" end after the block
+      segmentStart = n;
+    } else if (char === '}') {
+      segmentStart = n + 1;
+      n++;
+    } else {
+      n++;
+    }
+  }
+};
+
+/**
+ * Extracts the package, imports and declared types of a Java source file
+ */
+export const parseJavaSource = (filePath: string, content: string): JavaSourceFile => {
+  const masked = maskSource(content);
+
+  const packageMatch = masked.match(PACKAGE_PATTERN);
+  const packageName = packageMatch ? packageMatch[1].replace(/\s+/g, '') : null;
+
+  const imports: JavaImport[] = [];
+  IMPORT_PATTERN.lastIndex = 0;
+  let importMatch;
+  while ((importMatch = IMPORT_PATTERN.exec(masked)) !== null) {
+    imports.push({
+      name: importMatch[2].replace(/\s+/g, ''),
+      isStatic: !!importMatch[1],
+      isWildcard: !!importMatch[3],
+      line: lineAt(masked, importMatch.index)
+    });
+  }
+
+  const context: ParseContext = { source: masked, filePath, packageName, types: [] };
+  parseDeclarations(context, 0, masked.length, null);
+
+  return {
+    path: filePath,
+    packageName,
+    packageLine: packageMatch ? lineAt(masked, packageMatch.index!) : null,
+    imports,
+    types: context.types,
+    masked
+  };
+};
+
+export const buildSymbolTable = (files: Record<string, string>): SymbolTable => {
+  const table: SymbolTable = { files: {}, types: new Map() };
+
+  Object.entries(files)
+    .filter(([filePath]) => filePath.endsWith('.java'))
+    .forEach(([filePath, content]) => {
+      const source = parseJavaSource(filePath, content);
+      table.files[filePath] = source;
+      source.types.forEach(type => {
+        if (!table.types.has(type.qualifiedName)) {
+          table.types.set(type.qualifiedName, type);
+        }
+      });
+    });
+
+  return table;
+};
+
+/**
+ * Resolves a type name as written in a file to a project type, following the file's
+ * imports, its package and its nested types. Returns null for library and unknown types.
+ */
+export const resolveType = (table: SymbolTable, filePath: string, typeName: string): JavaType | null => {
+  const source = table.files[filePath];
+  const name = typeName.replace(/<[\s\S]*$/, '').replace(/\[\]/g, '').trim();
+  if (!source || !name) return null;
+
+  if (table.types.has(name)) return table.types.get(name)!;
+
+  const [first, ...rest] = name.split('.');
+  const suffix = rest.length > 0 ? `.${rest.join('.')}` : '';
+  const candidates = [
+    ...source.types.filter(type => type.name === first).map(type => type.qualifiedName),
+    ...source.imports.filter(item => !item.isStatic && !item.isWildcard && item.name.endsWith(`.${first}`)).map(item => item.name),
+    source.packageName ? `${source.packageName}.${first}` : first,
+    ...source.imports.filter(item => !item.isStatic && item.isWildcard).map(item => `${item.name}.${first}`)
+  ];
+
+  for (const candidate of candidates) {
+    const type = table.types.get(candidate + suffix);
+    if (type) return type;
+  }
+  return null;
+};
+
+// Number of arguments in the call whose opening parenthesis is at `openIndex`
+export const countArguments = (source: string, openIndex: number): number => {
+  let args = source.slice(openIndex + 1, findClosing(source, openIndex));
+  let previous;
+  do {
+    previous = args;
+    args = args.replace(TYPE_ARGUMENTS_PATTERN, ' ');
+  } while (args !== previous);
+
+  // What's left of < and > are comparisons
+  return splitTopLevel(args.replace(/[<>]/g, ' ')).length;
+};
+
+// Whether a method or constructor accepts a call with this many arguments
+export const acceptsArity = (method: Pick<JavaMethod, 'parameters'>, arity: number): boolean => {
+  const parameters = method.parameters.length;
+  const varArgs = parameters > 0 && method.parameters[parameters - 1].endsWith('...');
+  return varArgs ? arity >= parameters - 1 : arity === parameters;
+};
+
+// Variable name -> declared type name in a file; names declared with different types are left out
+export const collectVariableTypes = (table: SymbolTable, filePath: string): Map<string, string> => {
+  const source = table.files[filePath];
+  const declared = new Map<string, Set<string>>();
+  const declare = (name: string, type: string) => {
+    const types = declared.get(name) || new Set<string>();
+    types.add(type.replace(/<[\s\S]*$/, ''));
+    declared.set(name, types);
+  };
+
+  source.types.forEach(type => {
+    type.fields.forEach(field => declare(field.name, field.type));
+  });
+
+  VARIABLE_PATTERN.lastIndex = 0;
+  let match;
+  while ((match = VARIABLE_PATTERN.exec(source.masked)) !== null) {
+    declare(match[2], match[1]);
+  }
+
+  const variables = new Map<string, string>();
+  declared.forEach((types, name) => {
+    if (types.size === 1) variables.set(name, [...types][0]);
+  });
+  return variables;
+};
+
+/**
+ * Finds receiver.method(...) calls in a file whose receiver is a variable, field or type name.
+ * Chained calls like a.b().c() are skipped since their receivers can't be typed.
+ */
+export const findQualifiedCalls = (table: SymbolTable, filePath: string): QualifiedCall[] => {
+  const source = table.files[filePath];
+  const variables = collectVariableTypes(table, filePath);
+  const calls: QualifiedCall[] = [];
+
+  QUALIFIED_CALL_PATTERN.lastIndex = 0;
+  let match;
+  while ((match = QUALIFIED_CALL_PATTERN.exec(source.masked)) !== null) {
+    const [, receiver, method] = match;
+    const before = source.masked.slice(0, match.index).trimEnd();
+    if (before.endsWith('.') && !before.endsWith('this.')) continue;
+
+    const isTypeName = /^[A-Z]/.test(receiver) && !variables.has(receiver);
+    calls.push({
+      receiver,
+      receiverType: isTypeName ? receiver : variables.get(receiver) || null,
+      method,
+      arity: countArguments(source.masked, match.index + match[0].length - 1),
+      line: lineAt(source.masked, match.index)
+    });
+  }
+  return calls;
+};
+
+export const formatSignature = (method: JavaMethod): string =>
+  `${method.isStatic ? 'static ' : ''}${method.returnType ? `${method.returnType} ` : ''}${method.name}(${method.parameters.join(', ')})`;
+
+/**
+ * Renders the declarations of a type, for giving the model exact signatures
+ */
+export const formatTypeDeclarations = (type: JavaType): string => {
+  const heritage = [
+    type.superclass ? `extends ${type.superclass}` : '',
+    type.interfaces.length > 0 ? `${type.kind === 'interface' ? 'extends' : 'implements'} ${type.interfaces.join(', ')}` : ''
+  ].filter(Boolean).join(' ');
+
+  return [
+    `${type.kind} ${type.qualifiedName}${heritage ? ` ${heritage}` : ''} (${type.filePath})`,
+    ...type.fields.map(field => `  ${field.isStatic ? 'static ' : ''}${field.type} ${field.name}`),
+    ...type.constructors.map(constructor => `  ${formatSignature(constructor)}`),
+    ...type.methods.map(method => `  ${formatSignature(method)}`)
+  ].join('\n');
+};
@@ -0,0 +1,39 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { GenerateOptions, GenerationConfig, LLMModel, LLMProvider } from "./types";
+
+// Google Gemini provider backed by @google/generative-ai
+export const createGeminiProvider = (): LLMProvider => {
+  const apiKey = process.env.GEMINI_API_KEY || "";
+  if (!apiKey) {
+    console.warn("GEMINI_API_KEY is not set - Gemini requests will fail");
+  }
+
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: "gemini",
+    getModel(modelName: string, config: GenerationConfig): LLMModel {
+      const model = genAI.getGenerativeModel({
+        model: modelName,
+        generationConfig: config
+      });
+
+      return {
+        name: modelName,
+        async generateContent(prompt: string, options: GenerateOptions = {}) {
+          const result = await model.generateContent(prompt, { signal: options.signal });
+          const usage = result.response.usageMetadata;
+
+          return {
+            text: result.response.text(),
+            usage: usage && {
+              promptTokens: usage.promptTokenCount || 0,
+              completionTokens: usage.candidatesTokenCount || 0,
+              totalTokens: usage.totalTokenCount || 0
+            }
+          };
+        }
+      };
+    }
+  };
+};
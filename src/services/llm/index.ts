@@ -0,0 +1,35 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createLocalProvider } from "./localProvider";
+import { LLMProvider, LLMProviderFactory } from "./types";
+
+export * from "./types";
+
+// Available providers - register new vendors here or via registerProvider()
+const providerFactories: Record<string, LLMProviderFactory> = {
+  gemini: createGeminiProvider,
+  local: createLocalProvider
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const registerProvider = (name: string, factory: LLMProviderFactory): void => {
+  providerFactories[name] = factory;
+};
+
+/**
+ * Returns the provider selected by LLM_PROVIDER (default: gemini).
+ * The provider is created lazily so no client is built at import time.
+ */
+export const getProvider = (): LLMProvider => {
+  if (activeProvider) return activeProvider;
+
+  const providerName = (process.env.LLM_PROVIDER || "gemini").toLowerCase();
+  const factory = providerFactories[providerName];
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${providerName}". Available: ${Object.keys(providerFactories).join(", ")}`);
+  }
+
+  activeProvider = factory();
+  console.log(`Using LLM provider: ${activeProvider.name}`);
+  return activeProvider;
+};
@@ -0,0 +1,313 @@
+import fs from "fs";
+import { GenerateOptions, GenerationConfig, LLMModel, LLMProvider, LLMResult } from "./types";
+
+/**
+ * Offline provider that answers with scripted responses instead of calling a model.
+ *
+ * Responses are looked up in order from:
+ *   1. LOCAL_LLM_SCRIPT - a JSON file of [{ "match": "<regex>", "response": "<text>" }]
+ *   2. the built-in responses below, which produce a small but complete command plugin
+ *
+ * Everything is deterministic, so the create -> compile -> fix flow can run without a key or network.
+ */
+
+interface ScriptedResponse {
+  match: string;
+  response: string;
+}
+
+type ResponseBuilder = (prompt: string) => string;
+
+const toPascalCase = (text: string): string =>
+  text
+    .replace(/[^a-zA-Z0-9 ]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 3)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join("");
+
+const findPluginName = (prompt: string): string => {
+  const match = prompt.match(/PLUGIN NAME:\s*([A-Za-z0-9_]+)/);
+  return match ? match[1] : "LocalPlugin";
+};
+
+const buildPom = (pluginLower: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<project xmlns="http://maven.apache.org/POM/4.0.0"
+         xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+         xsi:schemaLocation="http://maven.apache.org/POM/4.0.0 http://maven.apache.org/xsd/maven-4.0.0.xsd">
+    <modelVersion>4.0.0</modelVersion>
+
+    <groupId>com.pegasus</groupId>
+    <artifactId>${pluginLower}</artifactId>
+    <version>1.0-SNAPSHOT</version>
+    <packaging>jar</packaging>
+
+    <properties>
+        <maven.compiler.release>17</maven.compiler.release>
+        <project.build.sourceEncoding>UTF-8</project.build.sourceEncoding>
+    </properties>
+
+    <repositories>
+        <repository>
+            <id>spigot-repo</id>
+            <url>https://hub.spigotmc.org/nexus/content/repositories/snapshots/</url>
+        </repository>
+    </repositories>
+
+    <dependencies>
+        <dependency>
+            <groupId>org.spigotmc</groupId>
+            <artifactId>spigot-api</artifactId>
+            <version>1.19.3-R0.1-SNAPSHOT</version>
+            <scope>provided</scope>
+        </dependency>
+    </dependencies>
+
+    <build>
+        <plugins>
+            <plugin>
+                <groupId>org.apache.maven.plugins</groupId>
+                <artifactId>maven-compiler-plugin</artifactId>
+                <version>3.13.0</version>
+                <configuration>
+                    <release>17</release>
+                </configuration>
+            </plugin>
+            <plugin>
+                <groupId>org.apache.maven.plugins</groupId>
+                <artifactId>maven-shade-plugin</artifactId>
+                <version>3.5.1</version>
+                <executions>
+                    <execution>
+                        <phase>package</phase>
+                        <goals>
+                            <goal>shade</goal>
+                        </goals>
+                    </execution>
+                </executions>
+            </plugin>
+        </plugins>
+    </build>
+</project>`;
+
+const buildPluginYml = (pluginName: string): string => `name: ${pluginName}
+version: 1.0
+main: com.pegasus.${pluginName.toLowerCase()}.${pluginName}
+api-version: 1.19
+commands:
+  hello:
+    description: Says hello
+    usage: /hello`;
+
+const buildMainClass = (pluginName: string): string => `package com.pegasus.${pluginName.toLowerCase()};
+
+import org.bukkit.command.Command;
+import org.bukkit.command.CommandSender;
+import org.bukkit.plugin.java.JavaPlugin;
+
+public class ${pluginName} extends JavaPlugin {
+    @Override
+    public void onEnable() {
+        getLogger().info("${pluginName} has been enabled!");
+    }
+
+    @Override
+    public void onDisable() {
+        getLogger().info("${pluginName} has been disabled!");
+    }
+
+    @Override
+    public boolean onCommand(CommandSender sender, Command command, String label, String[] args) {
+        if (command.getName().equalsIgnoreCase("hello")) {
+            sender.sendMessage("Hello from ${pluginName}!");
+            return true;
+        }
+        return false;
+    }
+}`;
+
+const projectFiles = (pluginName: string): Record<string, string> => {
+  const pluginLower = pluginName.toLowerCase();
+  return {
+    "pom.xml": buildPom(pluginLower),
+    "src/main/resources/plugin.yml": buildPluginYml(pluginName),
+    [`src/main/java/com/pegasus/${pluginLower}/${pluginName}.java`]: buildMainClass(pluginName)
+  };
+};
+
+// The "FILES WITH ISSUES" of a consistency prompt, which the local model hands back unchanged
+const filesWithIssues = (prompt: string): Record<string, string> => {
+  const section = prompt.split("FILES WITH ISSUES:\n")[1]?.split("\n\nFix every issue above.")[0] || "";
+  const files: Record<string, string> = {};
+  section.split("\n\n---\n\n").forEach(block => {
+    const match = block.match(/^FILE: (\S+)\n([\s\S]*)$/);
+    if (match) files[match[1]] = match[2];
+  });
+  return files;
+};
+
+// Small working implementations of scaffold feature contracts such as
+// "public class HealCommand implements CommandExecutor; constructor HealCommand(Heal plugin); ..."
+const buildFeatureFile = (pluginName: string, filePath: string, contract: string): string => {
+  if (!filePath.endsWith(".java")) {
+    return `# ${pluginName} settings\nmessage: "Hello from ${pluginName}!"\n`;
+  }
+
+  const className = filePath.split("/").pop()!.replace(/\.java$/, "");
+  const declaration = (contract.match(/public class [^;]+/) || [`public class ${className}`])[0];
+  const parameters = ((contract.match(/constructor \w+\(([^)]*)\)/) || [])[1] || "")
+    .split(",")
+    .map(parameter => parameter.trim().split(/\s+/))
+    .filter(parameter => parameter.length === 2);
+  const hasParameter = (parameterName: string) => parameters.some(([, name]) => name === parameterName);
+
+  const imports = new Set<string>();
+  const members: string[] = parameters.map(([type, name]) => `    private final ${type} ${name};`);
+  members.push(`    public ${className}(${parameters.map(parameter => parameter.join(" ")).join(", ")}) {\n` +
+    parameters.map(([, name]) => `        this.${name} = ${name};\n`).join("") + "    }");
+
+  if (declaration.includes("CommandExecutor")) {
+    ["org.bukkit.command.Command", "org.bukkit.command.CommandExecutor", "org.bukkit.command.CommandSender"].forEach(name => imports.add(name));
+    let action = `sender.sendMessage("Hello from ${pluginName}!");`;
+    if (hasParameter("menu")) {
+      imports.add("org.bukkit.entity.Player");
+      action = `if (sender instanceof Player) {\n            menu.open((Player) sender);\n        } else {\n            sender.sendMessage("Only players can open the menu.");\n        }`;
+    } else if (hasParameter("settings")) {
+      action = `if (args.length > 0 && args[0].equalsIgnoreCase("reload")) {\n            plugin.reloadConfig();\n            settings.load();\n            sender.sendMessage("${pluginName} reloaded.");\n        } else {\n            sender.sendMessage(settings.getMessage());\n        }`;
+    }
+    members.push(`    @Override\n    public boolean onCommand(CommandSender sender, Command command, String label, String[] args) {\n        ${action}\n        return true;\n    }`);
+  }
+  if (declaration.includes("TabCompleter")) {
+    ["java.util.Collections", "java.util.List", "org.bukkit.command.TabCompleter"].forEach(name => imports.add(name));
+    members.push(`    @Override\n    public List<String> onTabComplete(CommandSender sender, Command command, String alias, String[] args) {\n        return ${hasParameter("settings") ? 'Collections.singletonList("reload")' : "Collections.emptyList()"};\n    }`);
+  }
+  if (declaration.includes("Listener")) {
+    ["org.bukkit.event.EventHandler", "org.bukkit.event.Listener"].forEach(name => imports.add(name));
+    if (contract.includes("open(Player player)")) {
+      ["org.bukkit.Bukkit", "org.bukkit.Material", "org.bukkit.entity.Player", "org.bukkit.event.inventory.InventoryClickEvent",
+        "org.bukkit.event.inventory.InventoryCloseEvent", "org.bukkit.inventory.Inventory", "org.bukkit.inventory.ItemStack"].forEach(name => imports.add(name));
+      members.unshift(`    private static final String TITLE = "${pluginName}";`);
+      members.push(`    public void open(Player player) {\n        Inventory inventory = Bukkit.createInventory(null, 9, TITLE);\n        inventory.setItem(4, new ItemStack(Material.EMERALD));\n        player.openInventory(inventory);\n    }`);
+      members.push(`    @EventHandler\n    public void onClick(InventoryClickEvent event) {\n        if (event.getView().getTitle().equals(TITLE)) {\n            event.setCancelled(true);\n        }\n    }`);
+      members.push(`    @EventHandler\n    public void onClose(InventoryCloseEvent event) {\n    }`);
+    } else {
+      imports.add("org.bukkit.event.player.PlayerJoinEvent");
+      const message = hasParameter("settings") ? "settings.getMessage()" : `"Welcome! ${pluginName} is running."`;
+      members.push(`    @EventHandler\n    public void onJoin(PlayerJoinEvent event) {\n        event.getPlayer().sendMessage(${message});\n    }`);
+    }
+  }
+  if (declaration.includes("BukkitRunnable")) {
+    imports.add("org.bukkit.scheduler.BukkitRunnable");
+    members.unshift(`    public static final long DELAY_TICKS = 20L;\n    public static final long PERIOD_TICKS = 20L * 60;`);
+    members.push(`    @Override\n    public void run() {\n        plugin.getLogger().info("${pluginName} task ran");\n    }`);
+  }
+  if (contract.includes("public void load()")) {
+    members.unshift(`    private String message = "";`);
+    members.push(`    public void load() {\n        message = plugin.getConfig().getString("message", "Hello from ${pluginName}!");\n    }`);
+    members.push(`    public String getMessage() {\n        return message;\n    }`);
+  }
+
+  const importLines = [...imports].sort().map(name => `import ${name};`).join("\n");
+  return `package com.pegasus.${pluginName.toLowerCase()};\n\n${importLines}${importLines ? "\n\n" : ""}` +
+    `${declaration} {\n${members.join("\n\n")}\n}\n`;
+};
+
+const featureFiles = (prompt: string): Record<string, string> => {
+  const pluginName = findPluginName(prompt);
+  const section = (prompt.split(/FEATURE FILES[^\n]*\n/)[1] || "").split(/\n\s*\n/)[0];
+  const files: Record<string, string> = {};
+  for (const [, filePath, contract] of section.matchAll(/^- (\S+): (.*)$/gm)) {
+    files[filePath] = buildFeatureFile(pluginName, filePath, contract);
+  }
+  return files;
+};
+
+const formatFiles = (files: Record<string, string>): string =>
+  Object.entries(files)
+    .map(([filePath, content]) => `---FILE_START:${filePath}---\n${content}\n---FILE_END---`)
+    .join("\n\n");
+
+// Built-in responses keyed by a phrase that identifies each pipeline stage
+const BUILT_IN_RESPONSES: Array<[RegExp, ResponseBuilder]> = [
+  [/MOST SPECIFIC name for the plugin/i, prompt => {
+    const request = prompt.match(/USER REQUEST:\s*"([\s\S]*?)"/);
+    const name = toPascalCase(request ? request[1] : "");
+    return name.length >= 3 ? name : "LocalPlugin";
+  }],
+  [/requirements analyst/i, prompt =>
+    `${findPluginName(prompt)} adds a /hello command that greets the sender.`],
+  [/plugin architect/i, prompt => {
+    const pluginName = findPluginName(prompt);
+    return `PART 1: ARCHITECTURE\n- Main class ${pluginName} in package com.pegasus.${pluginName.toLowerCase()}\n` +
+      `PART 2: FILES\n${Object.keys(projectFiles(pluginName)).join("\n")}`;
+  }],
+  [/extract all files that need to be created/i, prompt => {
+    const blueprintName = prompt.match(/Main class ([A-Za-z0-9_]+)/);
+    return JSON.stringify(Object.keys(projectFiles(blueprintName ? blueprintName[1] : "LocalPlugin")));
+  }],
+  [/Generate ONLY this file:/i, prompt => {
+    const filePath = (prompt.match(/Generate ONLY this file:\s*(\S+)/) || [])[1] || "";
+    const files = projectFiles(findPluginName(prompt));
+    const key = Object.keys(files).find(name => filePath.endsWith(name.split("/").pop()!));
+    return key ? files[key] : "";
+  }],
+  [/Implement a complete Minecraft plugin/i, prompt => formatFiles(projectFiles(findPluginName(prompt)))],
+  [/Implement the feature classes/i, prompt => formatFiles(featureFiles(prompt))],
+  [/consistency issues/i, prompt => formatFiles(filesWithIssues(prompt))],
+  [/plugin validator/i, () => "NO_ERRORS_FOUND"],
+  [/build error expert/i, () => "NO_CHANGES_REQUIRED"],
+  [/revising an existing Minecraft plugin/i, () => "NO_CHANGES_REQUIRED"]
+];
+
+const loadScript = (): ScriptedResponse[] => {
+  const scriptPath = process.env.LOCAL_LLM_SCRIPT;
+  if (!scriptPath) return [];
+
+  try {
+    const script = JSON.parse(fs.readFileSync(scriptPath, "utf8"));
+    if (!Array.isArray(script)) {
+      throw new Error("Script must be a JSON array");
+    }
+    console.log(`Loaded ${script.length} scripted LLM responses from ${scriptPath}`);
+    return script;
+  } catch (error) {
+    console.error(`Could not load LOCAL_LLM_SCRIPT ${scriptPath}:`, error);
+    return [];
+  }
+};
+
+// Rough token estimate so usage accounting has something to count
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const createLocalProvider = (): LLMProvider => {
+  const script = loadScript();
+
+  const respond = (prompt: string): string => {
+    const scripted = script.find(entry => new RegExp(entry.match, "i").test(prompt));
+    if (scripted) return scripted.response;
+
+    const builtIn = BUILT_IN_RESPONSES.find(([pattern]) => pattern.test(prompt));
+    return builtIn ? builtIn[1](prompt) : "";
+  };
+
+  return {
+    name: "local",
+    getModel(modelName: string, _config: GenerationConfig): LLMModel {
+      return {
+        name: modelName,
+        async generateContent(prompt: string, options: GenerateOptions = {}): Promise<LLMResult> {
+          options.signal?.throwIfAborted();
+          const text = respond(prompt);
+          const promptTokens = estimateTokens(prompt);
+          const completionTokens = estimateTokens(text);
+
+          return {
+            text,
+            usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+          };
+        }
+      };
+    }
+  };
+};
@@ -0,0 +1,34 @@
+// Shared types for LLM providers
+
+export interface GenerationConfig {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResult {
+  text: string;
+  usage?: LLMUsage;
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal; // Aborts the request when the build is cancelled
+}
+
+export interface LLMModel {
+  readonly name: string;
+  generateContent(prompt: string, options?: GenerateOptions): Promise<LLMResult>;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  getModel(modelName: string, config: GenerationConfig): LLMModel;
+}
+
+export type LLMProviderFactory = () => LLMProvider;
@@ -0,0 +1,415 @@
+import { LineCounter, parseDocument, visit } from "yaml";
+
+// Typed model of plugin.yml with schema validation and a serializer, so edits replace values
+// instead of patching text
+
+// Parsed YAML; scalars stay strings so versions like 1.20 aren't turned into numbers
+export type YamlNode = string | null | YamlNode[] | { [key: string]: YamlNode };
+
+export type LoadOrder = 'STARTUP' | 'POSTWORLD';
+export type PermissionDefault = 'true' | 'false' | 'op' | 'not op';
+
+export interface PluginCommand {
+  description?: string;
+  usage?: string;
+  aliases: string[];
+  permission?: string;
+  permissionMessage?: string;
+}
+
+export interface PluginPermission {
+  description?: string;
+  default?: PermissionDefault;
+  children: Record<string, boolean>;
+}
+
+export interface PluginYml {
+  name: string;
+  version: string;
+  main: string;
+  apiVersion?: string;
+  description?: string;
+  author?: string;
+  authors: string[];
+  website?: string;
+  prefix?: string;
+  load?: LoadOrder;
+  depend: string[];
+  softDepend: string[];
+  loadBefore: string[];
+  commands: Record<string, PluginCommand>;
+  permissions: Record<string, PluginPermission>;
+  extra: Record<string, YamlNode>; // Keys the model doesn't cover, kept as they are
+}
+
+export interface PluginYmlResult {
+  plugin: PluginYml | null; // null when the YAML can't be read
+  errors: string[];         // Human-readable syntax and schema errors
+}
+
+const PLUGIN_NAME_PATTERN = /^[A-Za-z0-9 _.-]+$/;
+const JAVA_CLASS_PATTERN = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)+$/;
+const COMMAND_NAME_PATTERN = /^[^\s:]+$/;
+const API_VERSION_PATTERN = /^1\.(\d+)(\.\d+)?$/;
+
+// Bukkit accepts several spellings for permission defaults
+const PERMISSION_DEFAULTS: Record<string, PermissionDefault> = {
+  true: 'true', always: 'true',
+  false: 'false', never: 'false',
+  op: 'op', isop: 'op', operator: 'op', isoperator: 'op', admin: 'op', isadmin: 'op',
+  'not op': 'not op', '!op': 'not op', notop: 'not op', '!operator': 'not op', notoperator: 'not op', '!admin': 'not op', notadmin: 'not op'
+};
+
+// Top-level keys the model covers, in the order they are written
+const KNOWN_KEYS = [
+  'name', 'version', 'main', 'api-version', 'description', 'author', 'authors', 'website', 'prefix',
+  'load', 'depend', 'softdepend', 'loadbefore', 'commands', 'permissions'
+];
+
+const yamlError = (line: number, message: string): Error => new Error(`Line ${line}: ${message}`);
+
+// Plain scalars YAML reads as null; everything else stays a string
+const NULL_SCALARS = ['', '~', 'null', 'Null', 'NULL'];
+
+/**
+ * Parses YAML with the failsafe schema, so every scalar is a string, resolving anchors, aliases
+ * and << merge keys. Throws with the line number of the first error.
+ */
+export const parseYaml = (content: string): YamlNode => {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(content.replace(/^\uFEFF/, ''), { schema: 'failsafe', merge: true, lineCounter });
+  const [error] = document.errors;
+  if (error) {
+    throw yamlError(error.linePos?.[0].line ?? 1, error.message.split(' at line ')[0]);
+  }
+
+  visit(document, {
+    Alias: (_key, node) => {
+      if (!node.resolve(document)) {
+        throw yamlError(lineCounter.linePos(node.range?.[0] ?? 0).line, `alias *${node.source} has no anchor before it`);
+      }
+    },
+    Scalar: (_key, node) => {
+      if (node.type === 'PLAIN' && (node.value === null || NULL_SCALARS.includes(String(node.value)))) {
+        node.value = null;
+      }
+    }
+  });
+  return document.toJS() ?? null;
+};
+
+export const emptyPluginYml = (): PluginYml => ({
+  name: '',
+  version: '',
+  main: '',
+  authors: [],
+  depend: [],
+  softDepend: [],
+  loadBefore: [],
+  commands: {},
+  permissions: {},
+  extra: {}
+});
+
+const isMapping = (node: YamlNode): node is Record<string, YamlNode> =>
+  node !== null && typeof node === 'object' && !Array.isArray(node);
+
+/**
+ * Reads a plugin.yml into the typed model. Values of the wrong shape are reported and
+ * left out; a single string is accepted where a list is expected.
+ */
+export const parsePluginYml = (content: string): PluginYmlResult => {
+  let root: YamlNode;
+  try {
+    root = parseYaml(content);
+  } catch (error) {
+    return { plugin: null, errors: [`plugin.yml is not valid YAML. ${(error as Error).message}`] };
+  }
+  if (root === null) root = {};
+  if (!isMapping(root)) {
+    return { plugin: null, errors: ['plugin.yml must be a mapping of keys like name, version and main'] };
+  }
+
+  const errors: string[] = [];
+
+  const text = (node: YamlNode, where: string): string | undefined => {
+    if (node === null || node === undefined) return undefined;
+    if (typeof node === 'string') return node;
+    errors.push(`${where} must be a single value`);
+    return undefined;
+  };
+
+  const list = (node: YamlNode, where: string): string[] => {
+    if (node === null || node === undefined) return [];
+    if (typeof node === 'string') return [node];
+    if (Array.isArray(node) && node.every(item => typeof item === 'string')) return node as string[];
+    errors.push(`${where} must be a list of names`);
+    return [];
+  };
+
+  const commands: Record<string, PluginCommand> = {};
+  if (root.commands !== undefined && root.commands !== null) {
+    if (!isMapping(root.commands)) {
+      errors.push('commands must be a mapping of command names to their settings');
+    } else {
+      Object.entries(root.commands).forEach(([name, settings]) => {
+        const where = `commands.${name}`;
+        if (settings !== null && !isMapping(settings)) {
+          errors.push(`${where} must be a mapping with description, usage, aliases and permission`);
+          return;
+        }
+        const values = settings || {};
+        commands[name] = {
+          description: text(values.description, `${where}.description`),
+          usage: text(values.usage, `${where}.usage`),
+          aliases: list(values.aliases, `${where}.aliases`),
+          permission: text(values.permission, `${where}.permission`),
+          permissionMessage: text(values['permission-message'], `${where}.permission-message`)
+        };
+      });
+    }
+  }
+
+  const permissions: Record<string, PluginPermission> = {};
+  if (root.permissions !== undefined && root.permissions !== null) {
+    if (!isMapping(root.permissions)) {
+      errors.push('permissions must be a mapping of permission names to their settings');
+    } else {
+      Object.entries(root.permissions).forEach(([name, settings]) => {
+        const where = `permissions.${name}`;
+        if (settings !== null && !isMapping(settings)) {
+          errors.push(`${where} must be a mapping with description, default and children`);
+          return;
+        }
+        const values = settings || {};
+
+        const defaultValue = text(values.default, `${where}.default`);
+        const normalizedDefault = defaultValue === undefined ? undefined : PERMISSION_DEFAULTS[defaultValue.toLowerCase()];
+        if (defaultValue !== undefined && !normalizedDefault) {
+          errors.push(`${where}.default must be true, false, op or not op (found "${defaultValue}")`);
+        }
+
+        // Children are a mapping of permission -> true/false, or a plain list meaning true
+        const children: Record<string, boolean> = {};
+        if (Array.isArray(values.children)) {
+          list(values.children, `${where}.children`).forEach(child => { children[child] = true; });
+        } else if (isMapping(values.children)) {
+          Object.entries(values.children).forEach(([child, granted]) => {
+            if (granted === 'true' || granted === 'false') {
+              children[child] = granted === 'true';
+            } else {
+              errors.push(`${where}.children.${child} must be true or false`);
+            }
+          });
+        } else if (values.children !== undefined && values.children !== null) {
+          errors.push(`${where}.children must be a mapping of permissions to true or false`);
+        }
+
+        permissions[name] = { description: text(values.description, `${where}.description`), default: normalizedDefault, children };
+      });
+    }
+  }
+
+  const load = text(root.load, 'load');
+  const extra: Record<string, YamlNode> = {};
+  Object.entries(root).forEach(([key, value]) => {
+    if (!KNOWN_KEYS.includes(key)) extra[key] = value;
+  });
+
+  const plugin: PluginYml = {
+    name: text(root.name, 'name') || '',
+    version: text(root.version, 'version') || '',
+    main: text(root.main, 'main') || '',
+    apiVersion: text(root['api-version'], 'api-version'),
+    description: text(root.description, 'description'),
+    author: text(root.author, 'author'),
+    authors: list(root.authors, 'authors'),
+    website: text(root.website, 'website'),
+    prefix: text(root.prefix, 'prefix'),
+    load: load === undefined ? undefined : load.toUpperCase() as LoadOrder,
+    depend: list(root.depend, 'depend'),
+    softDepend: list(root.softdepend, 'softdepend'),
+    loadBefore: list(root.loadbefore, 'loadbefore'),
+    commands,
+    permissions,
+    extra
+  };
+
+  return { plugin, errors: [...errors, ...validatePluginYml(plugin)] };
+};
+
+/**
+ * Checks a plugin.yml model against the rules Bukkit applies when it loads a plugin
+ */
+export const validatePluginYml = (plugin: PluginYml): string[] => {
+  const errors: string[] = [];
+
+  if (!plugin.name) {
+    errors.push('name is required');
+  } else if (!PLUGIN_NAME_PATTERN.test(plugin.name)) {
+    errors.push(`name "${plugin.name}" may only contain letters, digits, spaces, underscores, dots and dashes`);
+  }
+
+  if (!plugin.version) errors.push('version is required');
+
+  if (!plugin.main) {
+    errors.push('main is required (the fully qualified class that extends JavaPlugin)');
+  } else if (!JAVA_CLASS_PATTERN.test(plugin.main)) {
+    errors.push(`main "${plugin.main}" is not a fully qualified Java class name`);
+  } else if (plugin.main.startsWith('org.bukkit.')) {
+    errors.push(`main "${plugin.main}" may not be in the org.bukkit package`);
+  }
+
+  if (plugin.apiVersion !== undefined) {
+    const match = plugin.apiVersion.match(API_VERSION_PATTERN);
+    if (!match || parseInt(match[1]) < 13) {
+      errors.push(`api-version "${plugin.apiVersion}" must be a Minecraft version from 1.13 on, like 1.20`);
+    }
+  }
+
+  if (plugin.load !== undefined && plugin.load !== 'STARTUP' && plugin.load !== 'POSTWORLD') {
+    errors.push(`load must be STARTUP or POSTWORLD (found "${plugin.load}")`);
+  }
+
+  ([['depend', plugin.depend], ['softdepend', plugin.softDepend], ['loadbefore', plugin.loadBefore]] as const)
+    .forEach(([key, names]) => {
+      names.filter(name => !PLUGIN_NAME_PATTERN.test(name))
+        .forEach(name => errors.push(`${key} entry "${name}" is not a valid plugin name`));
+      if (plugin.name && names.includes(plugin.name)) {
+        errors.push(`${key} lists the plugin itself`);
+      }
+    });
+
+  const commandNames = new Set<string>();
+  Object.entries(plugin.commands).forEach(([name, command]) => {
+    if (!COMMAND_NAME_PATTERN.test(name)) {
+      errors.push(`commands.${name}: command names may not contain spaces or colons`);
+    }
+    commandNames.add(name.toLowerCase());
+    command.aliases.filter(alias => !COMMAND_NAME_PATTERN.test(alias))
+      .forEach(alias => errors.push(`commands.${name}.aliases: "${alias}" may not contain spaces or colons`));
+  });
+  Object.entries(plugin.commands).forEach(([name, command]) => {
+    command.aliases.filter(alias => commandNames.has(alias.toLowerCase()))
+      .forEach(alias => errors.push(`commands.${name}.aliases: "${alias}" is also the name of a command`));
+  });
+
+  Object.keys(plugin.permissions).filter(name => /\s/.test(name))
+    .forEach(name => errors.push(`permissions.${name}: permission names may not contain spaces`));
+
+  return errors;
+};
+
+// Plain scalars YAML would read as something other than the same string
+const needsQuotes = (value: string): boolean =>
+  value === '' ||
+  value !== value.trim() ||
+  /^[-?:,\[\]{}#&*!|>'"%@`]/.test(value) ||
+  /: |\s#|:$/.test(value) ||
+  /^(true|false|yes|no|on|off|y|n|null|~)$/i.test(value) ||
+  /^[-+]?(\d[\d_]*)?\.?\d+([eE][-+]?\d+)?$/.test(value);
+
+const formatScalar = (value: string, alwaysQuote = false): string => {
+  if (value.includes('\n')) {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+  }
+  return alwaysQuote || needsQuotes(value) ? `'${value.replace(/'/g, "''")}'` : value;
+};
+
+// Inside [a, b] a comma or bracket anywhere in an item would end it
+const formatList = (items: string[]): string => `[${items.map(item => formatScalar(item, /[,\[\]{}]/.test(item))).join(', ')}]`;
+
+const serializeNode = (node: YamlNode, indent: string): string => {
+  if (node === null) return '';
+  if (typeof node === 'string') return ` ${formatScalar(node)}`;
+  if (Array.isArray(node)) {
+    if (node.length === 0) return ' []';
+    return node.map(item => `\n${indent}-${serializeNode(item, `${indent}  `)}`).join('');
+  }
+  const entries = Object.entries(node);
+  if (entries.length === 0) return ' {}';
+  return entries.map(([key, value]) => `\n${indent}${formatScalar(key)}:${serializeNode(value, `${indent}  `)}`).join('');
+};
+
+/**
+ * Writes a plugin.yml model back out with the keys in a fixed order. Versions are always
+ * quoted, since YAML would read api-version: 1.20 as the number 1.2.
+ */
+export const serializePluginYml = (plugin: PluginYml): string => {
+  const lines: string[] = [];
+  const add = (key: string, value: string | undefined, alwaysQuote = false) => {
+    if (value !== undefined && value !== '') lines.push(`${key}: ${formatScalar(value, alwaysQuote)}`);
+  };
+  const addList = (key: string, items: string[]) => {
+    if (items.length > 0) lines.push(`${key}: ${formatList(items)}`);
+  };
+
+  add('name', plugin.name);
+  add('version', plugin.version, true);
+  add('main', plugin.main);
+  add('api-version', plugin.apiVersion, true);
+  add('description', plugin.description);
+  add('author', plugin.author);
+  addList('authors', plugin.authors);
+  add('website', plugin.website);
+  add('prefix', plugin.prefix);
+  add('load', plugin.load);
+  addList('depend', plugin.depend);
+  addList('softdepend', plugin.softDepend);
+  addList('loadbefore', plugin.loadBefore);
+
+  Object.entries(plugin.extra).forEach(([key, value]) => {
+    lines.push(`${formatScalar(key)}:${serializeNode(value, '  ')}`);
+  });
+
+  const commands = Object.entries(plugin.commands);
+  if (commands.length > 0) {
+    lines.push('commands:');
+    commands.forEach(([name, command]) => {
+      lines.push(`  ${formatScalar(name)}:`);
+      if (command.description !== undefined) lines.push(`    description: ${formatScalar(command.description)}`);
+      if (command.usage !== undefined) lines.push(`    usage: ${formatScalar(command.usage)}`);
+      if (command.aliases.length > 0) lines.push(`    aliases: ${formatList(command.aliases)}`);
+      if (command.permission !== undefined) lines.push(`    permission: ${formatScalar(command.permission)}`);
+      if (command.permissionMessage !== undefined) lines.push(`    permission-message: ${formatScalar(command.permissionMessage)}`);
+    });
+  }
+
+  const permissions = Object.entries(plugin.permissions);
+  if (permissions.length > 0) {
+    lines.push('permissions:');
+    permissions.forEach(([name, permission]) => {
+      lines.push(`  ${formatScalar(name)}:`);
+      if (permission.description !== undefined) lines.push(`    description: ${formatScalar(permission.description)}`);
+      if (permission.default !== undefined) lines.push(`    default: ${permission.default}`);
+      const children = Object.entries(permission.children);
+      if (children.length > 0) {
+        lines.push('    children:');
+        children.forEach(([child, granted]) => lines.push(`      ${formatScalar(child)}: ${granted}`));
+      }
+    });
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Parses a plugin.yml, applies `update` to the model and serializes the result.
+ * Content that can't be parsed is returned unchanged together with the errors.
+ */
+export const updatePluginYml = (content: string, update: (plugin: PluginYml) => PluginYml): PluginYmlResult & { content: string } => {
+  const parsed = parsePluginYml(content);
+  if (!parsed.plugin) return { content, ...parsed };
+
+  const updated = update(parsed.plugin);
+  return { content: serializePluginYml(updated), plugin: updated, errors: validatePluginYml(updated) };
+};
+
+/**
+ * Validation errors for the plugin.yml of a project, or an error when there is none
+ */
+export const checkPluginYml = (files: Record<string, string>): string[] => {
+  const ymlPath = Object.keys(files).find(filePath => filePath.endsWith('plugin.yml'));
+  if (!ymlPath) return ['plugin.yml is missing; the server will not load the plugin without it'];
+  return parsePluginYml(files[ymlPath]).errors;
+};
@@ -0,0 +1,490 @@
+import { Diagnostic } from "./diagnostics";
+import { ResolvedTarget } from "./targets";
+
+// pom.xml as an XML tree: parsing with positions for diagnostics, the house standard
+// for generated plugins, and serialization with consistent indentation
+
+export interface XmlElement {
+  type: 'element';
+  name: string;
+  attributes: [string, string][]; // Values are kept escaped, as written
+  children: XmlNode[];
+  line: number;
+  column: number;
+}
+
+export interface XmlComment {
+  type: 'comment';
+  text: string;
+}
+
+export type XmlNode =
+  | XmlElement
+  | { type: 'text'; text: string }    // Kept escaped, as written
+  | XmlComment
+  | { type: 'cdata'; text: string };
+
+export interface XmlParseResult {
+  root: XmlElement | null;
+  leadingComments: XmlComment[]; // Before the root element, like a license header
+  error: { message: string; line: number; column: number } | null;
+}
+
+export interface PomResult {
+  content: string;
+  diagnostics: Diagnostic[]; // Problems Maven would fail on; the content is left as written when it isn't valid XML
+}
+
+type DiagnosticDraft = Omit<Diagnostic, 'id'>;
+
+const POM_FILE = 'pom.xml';
+const POM_NAMESPACE = 'http://maven.apache.org/POM/4.0.0';
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+const POM_SCHEMA_LOCATION = `${POM_NAMESPACE} https://maven.apache.org/xsd/maven-4.0.0.xsd`;
+
+// 3.5.1 is the first release that handles Java 21 class files
+const SHADE_PLUGIN_VERSION = '3.5.1';
+// Maven 3.6 defaults to compiler plugin 3.1, which ignores release and compiles for Java 5
+const COMPILER_PLUGIN_VERSION = '3.13.0';
+
+// Any server API dependency a model might have written into the pom
+const SERVER_API_ARTIFACTS = ['spigot-api', 'spigot', 'paper-api', 'paper', 'paperspigot-api', 'bukkit', 'craftbukkit'];
+
+// Order of the project's children in a conventional pom; new elements are inserted by it
+const PROJECT_ORDER = [
+  'modelVersion', 'parent', 'groupId', 'artifactId', 'version', 'packaging', 'name', 'description', 'url',
+  'properties', 'repositories', 'pluginRepositories', 'dependencyManagement', 'dependencies', 'build'
+];
+
+const NAME_PATTERN = /^[A-Za-z_:][\w:.-]*/;
+
+// A pom has no DTD, so these are the only entities it can use
+const PREDEFINED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * The first & in text that isn't a reference XML can resolve: `reference` is the undefined entity,
+ * or null for a bare &
+ */
+const findBadReference = (text: string): { index: number; reference: string | null } | null => {
+  const pattern = /&(?:([A-Za-z_][\w.-]*)|#\d+|#x[0-9A-Fa-f]+);|&/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match[0] === '&') return { index: match.index, reference: null };
+    if (match[1] !== undefined && !PREDEFINED_ENTITIES[match[1]]) return { index: match.index, reference: match[0] };
+  }
+  return null;
+};
+
+const referenceError = (reference: string | null, where: string): string => reference
+  ? `The entity ${reference} is not defined; XML only has &lt; &gt; &amp; &quot; and &apos;`
+  : `Unescaped "&" in ${where}; write &amp; instead`;
+
+// Entity and character references decoded; the text has already passed findBadReference
+const decodeReferences = (text: string): string =>
+  text.replace(/&(?:([A-Za-z_][\w.-]*)|#(\d+)|#x([0-9A-Fa-f]+));/g, (reference, name, decimal, hex) => {
+    if (name) return PREDEFINED_ENTITIES[name] ?? reference;
+    const codePoint = decimal ? parseInt(decimal) : parseInt(hex, 16);
+    return codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : reference;
+  });
+
+/**
+ * Parses XML into an element tree. Stops at the first error, like Maven's parser,
+ * and reports it with its line and column.
+ */
+export const parseXml = (content: string): XmlParseResult => {
+  let position = 0;
+
+  const locate = (index: number) => {
+    const before = content.slice(0, index);
+    const line = before.split('\n').length;
+    return { line, column: index - before.lastIndexOf('\n') };
+  };
+  const fail = (message: string, index = position): XmlParseResult =>
+    ({ root: null, leadingComments: [], error: { message, ...locate(index) } });
+
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  const leadingComments: XmlComment[] = [];
+
+  const append = (node: XmlNode) => {
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(node);
+    } else if (!root && node.type === 'comment') {
+      leadingComments.push(node);
+    }
+  };
+
+  while (position < content.length) {
+    const next = content.indexOf('<', position);
+    const text = content.slice(position, next === -1 ? content.length : next);
+
+    if (text) {
+      if (stack.length === 0 && text.trim()) {
+        return fail(root ? 'Content is not allowed after the root element' : 'Content is not allowed before the root element');
+      }
+      const badReference = findBadReference(text);
+      if (badReference) {
+        return fail(referenceError(badReference.reference, 'text'), position + badReference.index);
+      }
+      if (stack.length > 0) append({ type: 'text', text });
+    }
+    if (next === -1) break;
+    position = next;
+
+    if (content.startsWith('<!--', position)) {
+      const end = content.indexOf('-->', position + 4);
+      if (end === -1) return fail('Unterminated comment');
+      append({ type: 'comment', text: content.slice(position + 4, end) });
+      position = end + 3;
+    } else if (content.startsWith('<![CDATA[', position)) {
+      const end = content.indexOf(']]>', position + 9);
+      if (end === -1) return fail('Unterminated CDATA section');
+      append({ type: 'cdata', text: content.slice(position + 9, end) });
+      position = end + 3;
+    } else if (content.startsWith('<?', position)) {
+      const end = content.indexOf('?>', position + 2);
+      if (end === -1) return fail('Unterminated processing instruction');
+      if (content.startsWith('<?xml', position) && /\s/.test(content[position + 5]) && position > 0 && content.slice(0, position).trim()) {
+        return fail('The XML declaration must be at the very start of the file');
+      }
+      position = end + 2;
+    } else if (content.startsWith('<!DOCTYPE', position)) {
+      const end = content.indexOf('>', position);
+      if (end === -1) return fail('Unterminated DOCTYPE');
+      position = end + 1;
+    } else if (content.startsWith('</', position)) {
+      const nameMatch = content.slice(position + 2).match(NAME_PATTERN);
+      const name = nameMatch ? nameMatch[0] : '';
+      const end = content.indexOf('>', position);
+      if (!name || end === -1 || content.slice(position + 2 + name.length, end).trim()) {
+        return fail('Malformed end tag');
+      }
+      const open = stack.pop();
+      if (!open) return fail(`Unexpected end tag </${name}>`);
+      if (open.name !== name) {
+        return fail(`The element type "${open.name}" (line ${open.line}) must be terminated by the matching end tag "</${open.name}>", found "</${name}>"`);
+      }
+      position = end + 1;
+    } else {
+      const start = position;
+      const nameMatch = content.slice(position + 1).match(NAME_PATTERN);
+      if (!nameMatch) return fail('Malformed start tag: expected an element name after "<"');
+      if (stack.length === 0 && root) return fail('Only one root element is allowed');
+
+      const element: XmlElement = { type: 'element', name: nameMatch[0], attributes: [], children: [], ...locate(start) };
+      position += 1 + nameMatch[0].length;
+
+      // Attributes until > or />
+      let selfClosing = false;
+      for (;;) {
+        const whitespace = content.slice(position).match(/^\s*/)![0];
+        position += whitespace.length;
+        if (content.startsWith('/>', position)) {
+          selfClosing = true;
+          position += 2;
+          break;
+        }
+        if (content[position] === '>') {
+          position++;
+          break;
+        }
+        if (position >= content.length) return fail(`Unterminated start tag <${element.name}>`, start);
+        if (!whitespace) return fail(`Expected whitespace, > or /> in <${element.name}>`);
+
+        const attributeMatch = content.slice(position).match(/^([A-Za-z_:][\w:.-]*)\s*=\s*("([^"<]*)"|'([^'<]*)')/);
+        if (!attributeMatch) return fail(`Malformed attribute in <${element.name}>`);
+        const name = attributeMatch[1];
+        const value = attributeMatch[3] ?? attributeMatch[4];
+        if (element.attributes.some(([existing]) => existing === name)) {
+          return fail(`Attribute "${name}" appears twice in <${element.name}>`);
+        }
+        const badReference = findBadReference(value);
+        if (badReference) return fail(referenceError(badReference.reference, 'attribute value'));
+        element.attributes.push([name, value]);
+        position += attributeMatch[0].length;
+      }
+
+      append(element);
+      if (!root) root = element;
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    return fail(`The element type "${open.name}" (line ${open.line}) is never closed`, content.length);
+  }
+  if (!root) return fail('The file has no root element', 0);
+  return { root, leadingComments, error: null };
+};
+
+export const childElements = (element: XmlElement, name?: string): XmlElement[] =>
+  element.children.filter((node): node is XmlElement => node.type === 'element' && (!name || node.name === name));
+
+export const childElement = (element: XmlElement, name: string): XmlElement | null =>
+  childElements(element, name)[0] || null;
+
+// Text content of an element, with whitespace trimmed and references decoded; CDATA is taken as it is
+export const elementText = (element: XmlElement | null): string | null => {
+  if (!element) return null;
+  return element.children
+    .map(node => node.type === 'text' ? decodeReferences(node.text) : node.type === 'cdata' ? node.text : '')
+    .join('')
+    .trim();
+};
+
+const escapeText = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const createElement = (name: string, children: XmlNode[] = []): XmlElement =>
+  ({ type: 'element', name, attributes: [], children, line: 0, column: 0 });
+
+const textElement = (name: string, text: string): XmlElement => createElement(name, [{ type: 'text', text: escapeText(text) }]);
+
+const setText = (element: XmlElement, text: string): void => {
+  element.children = [{ type: 'text', text: escapeText(text) }];
+};
+
+/**
+ * Returns the named child, creating it when missing. With `order`, a new child goes before
+ * the first existing sibling that comes later in that order; otherwise it is appended.
+ */
+const ensureChild = (parent: XmlElement, name: string, order: string[] = []): XmlElement => {
+  const existing = childElement(parent, name);
+  if (existing) return existing;
+
+  const created = createElement(name);
+  const rank = order.indexOf(name);
+  const before = rank === -1 ? -1 : parent.children.findIndex(node =>
+    node.type === 'element' && order.indexOf(node.name) > rank);
+  if (before === -1) {
+    parent.children.push(created);
+  } else {
+    parent.children.splice(before, 0, created);
+  }
+  return created;
+};
+
+const setChildText = (parent: XmlElement, name: string, text: string, order: string[] = []): void => {
+  setText(ensureChild(parent, name, order), text);
+};
+
+const removeChild = (parent: XmlElement, child: XmlElement): void => {
+  parent.children = parent.children.filter(node => node !== child);
+};
+
+const serializeElement = (element: XmlElement, indent: string): string => {
+  // A value written in single quotes may contain double quotes
+  const attributes = element.attributes.map(([name, value]) => ` ${name}="${value.replace(/"/g, '&quot;')}"`).join('');
+  const content = element.children.filter(node => node.type !== 'text' || node.text.trim());
+
+  if (content.length === 0) return `${indent}<${element.name}${attributes}/>`;
+  if (content.every(node => node.type === 'text' || node.type === 'cdata')) {
+    const text = content.map(node => node.type === 'cdata' ? `<![CDATA[${node.text}]]>` : node.text).join('').trim();
+    return `${indent}<${element.name}${attributes}>${text}</${element.name}>`;
+  }
+
+  const inner = `${indent}    `;
+  const lines = content.map(node => {
+    switch (node.type) {
+      case 'element': return serializeElement(node, inner);
+      case 'comment': return `${inner}<!--${node.text}-->`;
+      case 'cdata': return `${inner}<![CDATA[${node.text}]]>`;
+      default: return `${inner}${node.text.trim()}`;
+    }
+  });
+  return `${indent}<${element.name}${attributes}>\n${lines.join('\n')}\n${indent}</${element.name}>`;
+};
+
+/**
+ * Writes an element tree back out with an XML declaration and four-space indentation
+ */
+export const serializeXml = (root: XmlElement, leadingComments: XmlComment[] = []): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n${leadingComments.map(({ text }) => `<!--${text}-->\n`).join('')}${serializeElement(root, '')}\n`;
+
+const pomDiagnostic = (message: string, element: XmlElement | null, symbol: string | null = null): DiagnosticDraft => ({
+  kind: 'pom',
+  severity: 'error',
+  file: POM_FILE,
+  line: element && element.line > 0 ? element.line : null,
+  column: element && element.line > 0 ? element.column : null,
+  message,
+  symbol
+});
+
+// Checks Maven would fail on in the project model; the XML itself has already parsed
+const checkProjectModel = (project: XmlElement): DiagnosticDraft[] => {
+  if (project.name !== 'project') {
+    return [pomDiagnostic(`The root element must be <project>, found <${project.name}>`, project)];
+  }
+
+  const drafts: DiagnosticDraft[] = [];
+  const managed = !!childElement(project, 'dependencyManagement') || !!childElement(project, 'parent');
+
+  childElements(childElement(project, 'dependencies') || createElement('dependencies'), 'dependency').forEach(dependency => {
+    const coordinates = `${elementText(childElement(dependency, 'groupId')) || '?'}:${elementText(childElement(dependency, 'artifactId')) || '?'}`;
+    ['groupId', 'artifactId', ...(managed ? [] : ['version'])]
+      .filter(name => !elementText(childElement(dependency, name)))
+      .forEach(name => drafts.push(pomDiagnostic(`'dependencies.dependency.${name}' for ${coordinates} is missing`, dependency, coordinates)));
+  });
+
+  const build = childElement(project, 'build');
+  childElements(childElement(build || createElement('build'), 'plugins') || createElement('plugins'), 'plugin').forEach(plugin => {
+    if (!elementText(childElement(plugin, 'artifactId'))) {
+      drafts.push(pomDiagnostic("'build.plugins.plugin.artifactId' is missing", plugin));
+    }
+  });
+
+  return drafts;
+};
+
+const withIds = (drafts: DiagnosticDraft[]): Diagnostic[] =>
+  drafts.map((draft, index) => ({ id: `P${index + 1}`, ...draft }));
+
+// Drops chat text or markdown around the XML that the model sometimes adds
+const trimToXml = (content: string): string => {
+  const start = content.search(/<\?xml|<!--|<project[\s>]/);
+  const end = content.lastIndexOf('</project>');
+  return content.slice(start === -1 ? 0 : start, end === -1 ? content.length : end + '</project>'.length).trim();
+};
+
+// Malformed XML, a root other than <project>, and dependencies or plugins missing coordinates
+const diagnosePom = (content: string): Diagnostic[] => {
+  const { root, error } = parseXml(trimToXml(content));
+  if (error) {
+    return withIds([{ ...pomDiagnostic(`Non-parseable POM: ${error.message}`, null), line: error.line, column: error.column }]);
+  }
+  return withIds(checkProjectModel(root!));
+};
+
+const dependencyElement = (groupId: string, artifactId: string, version: string, scope?: string): XmlElement =>
+  createElement('dependency', [
+    textElement('groupId', groupId),
+    textElement('artifactId', artifactId),
+    textElement('version', version),
+    ...(scope ? [textElement('scope', scope)] : [])
+  ]);
+
+const pluginByArtifact = (plugins: XmlElement, artifactId: string): XmlElement | null =>
+  childElements(plugins, 'plugin').find(plugin => elementText(childElement(plugin, 'artifactId')) === artifactId) || null;
+
+// A compiler plugin that understands release, pinned so the Maven version doesn't pick one that doesn't
+const applyCompilerPlugin = (plugins: XmlElement, release: string): void => {
+  let compiler = pluginByArtifact(plugins, 'maven-compiler-plugin');
+  if (!compiler) {
+    compiler = createElement('plugin');
+    plugins.children.unshift(compiler);
+  }
+
+  setChildText(compiler, 'groupId', 'org.apache.maven.plugins', ['groupId', 'artifactId', 'version']);
+  setChildText(compiler, 'artifactId', 'maven-compiler-plugin', ['groupId', 'artifactId', 'version']);
+  setChildText(compiler, 'version', COMPILER_PLUGIN_VERSION, ['groupId', 'artifactId', 'version']);
+
+  // release alone sets the language level and checks the JDK API against it
+  const configuration = ensureChild(compiler, 'configuration');
+  childElements(configuration)
+    .filter(setting => setting.name === 'source' || setting.name === 'target')
+    .forEach(setting => removeChild(configuration, setting));
+  setChildText(configuration, 'release', release);
+};
+
+// The shade plugin bundles compile-scope libraries into the plugin JAR at package time
+const applyShadePlugin = (plugins: XmlElement): void => {
+  let shade = pluginByArtifact(plugins, 'maven-shade-plugin');
+  if (!shade) {
+    shade = createElement('plugin');
+    plugins.children.push(shade);
+  }
+
+  setChildText(shade, 'groupId', 'org.apache.maven.plugins', ['groupId', 'artifactId', 'version']);
+  setChildText(shade, 'artifactId', 'maven-shade-plugin', ['groupId', 'artifactId', 'version']);
+  setChildText(shade, 'version', SHADE_PLUGIN_VERSION, ['groupId', 'artifactId', 'version']);
+
+  const executions = ensureChild(shade, 'executions');
+  const shadeExecution = childElements(executions, 'execution').find(execution =>
+    childElements(childElement(execution, 'goals') || createElement('goals'), 'goal').some(goal => elementText(goal) === 'shade'));
+  const execution = shadeExecution || createElement('execution');
+  if (!shadeExecution) {
+    executions.children.push(execution);
+    ensureChild(execution, 'goals').children.push(textElement('goal', 'shade'));
+  }
+  setChildText(execution, 'phase', 'package', ['id', 'phase', 'goals']);
+
+  // Otherwise shade writes dependency-reduced-pom.xml into the project directory
+  const configuration = ensureChild(shade, 'configuration');
+  setChildText(configuration, 'createDependencyReducedPom', 'false');
+};
+
+/**
+ * Brings a generated pom.xml to the house standard: coordinates derived from the plugin name,
+ * the target's Java release with a compiler plugin that honours it, repository and server API
+ * (provided scope), and a shade plugin that runs at package time. A pom that isn't valid XML is only trimmed, and reported.
+ */
+export const normalizePom = (content: string, pluginName: string, target: ResolvedTarget): PomResult => {
+  const trimmed = trimToXml(content);
+  const { root: project, leadingComments, error } = parseXml(trimmed);
+  if (error) return { content: trimmed, diagnostics: diagnosePom(trimmed) };
+  if (project!.name !== 'project') return { content: trimmed, diagnostics: withIds(checkProjectModel(project!)) };
+
+  const pluginLower = pluginName.toLowerCase();
+  const release = String(target.javaRelease);
+  const root = project!;
+
+  // Namespace declarations let editors and Maven validate against the schema
+  const attributes = new Map(root.attributes);
+  attributes.set('xmlns', POM_NAMESPACE);
+  attributes.set('xmlns:xsi', XSI_NAMESPACE);
+  if (!attributes.has('xsi:schemaLocation')) attributes.set('xsi:schemaLocation', POM_SCHEMA_LOCATION);
+  root.attributes = [...attributes.entries()];
+
+  setChildText(root, 'modelVersion', '4.0.0', PROJECT_ORDER);
+  setChildText(root, 'groupId', `com.pegasus.${pluginLower}`, PROJECT_ORDER);
+  setChildText(root, 'artifactId', pluginLower, PROJECT_ORDER);
+  if (!elementText(childElement(root, 'version'))) setChildText(root, 'version', '1.0-SNAPSHOT', PROJECT_ORDER);
+  setChildText(root, 'packaging', 'jar', PROJECT_ORDER);
+
+  // Java release as a property; source/target are dropped as release supersedes them
+  const properties = ensureChild(root, 'properties', PROJECT_ORDER);
+  childElements(properties)
+    .filter(property => property.name === 'maven.compiler.source' || property.name === 'maven.compiler.target')
+    .forEach(property => removeChild(properties, property));
+  setChildText(properties, 'maven.compiler.release', release);
+  setChildText(properties, 'project.build.sourceEncoding', 'UTF-8');
+
+  const repositories = ensureChild(root, 'repositories', PROJECT_ORDER);
+  const hasRepository = childElements(repositories, 'repository')
+    .some(repository => elementText(childElement(repository, 'url'))?.replace(/\/?$/, '/') === target.repository.url);
+  if (!hasRepository) {
+    repositories.children.push(createElement('repository', [
+      textElement('id', target.repository.id),
+      textElement('url', target.repository.url)
+    ]));
+  }
+
+  // Whatever server API the model picked is replaced by the target's, provided by the server at runtime
+  const dependencies = ensureChild(root, 'dependencies', PROJECT_ORDER);
+  childElements(dependencies, 'dependency')
+    .filter(dependency => SERVER_API_ARTIFACTS.includes(elementText(childElement(dependency, 'artifactId')) || ''))
+    .forEach(dependency => removeChild(dependencies, dependency));
+  const { groupId, artifactId, version } = target.dependency;
+  dependencies.children.unshift(dependencyElement(groupId, artifactId, version, 'provided'));
+
+  const build = ensureChild(root, 'build', PROJECT_ORDER);
+  const plugins = ensureChild(build, 'plugins');
+
+  applyCompilerPlugin(plugins, release);
+  applyShadePlugin(plugins);
+
+  return { content: serializeXml(root, leadingComments), diagnostics: withIds(checkProjectModel(root)) };
+};
+
+/**
+ * Checks a project's pom.xml the way Maven reads it, before Maven runs. Gradle projects have none to check.
+ */
+export const checkPom = (files: Record<string, string>): Diagnostic[] =>
+  files[POM_FILE] === undefined ? [] : diagnosePom(files[POM_FILE]);
+
+/**
+ * A house-standard pom.xml for a new project
+ */
+export const createPom = (pluginName: string, target: ResolvedTarget): string =>
+  normalizePom('<project/>', pluginName, target).content;
@@ -0,0 +1,108 @@
+import { BuildSystem, detectBuildSystem, OUTPUT_DIRS } from "./buildSystems";
+import { readZipEntries } from "./classFiles";
+import { parsePluginYml } from "./pluginYml";
+import { childElement, elementText, parseXml } from "./pom";
+import { filterProjectFiles, MAX_PROJECT_BYTES, RejectedFile } from "./workspace";
+
+// Existing plugin projects brought in from outside, as a ZIP archive or a map of files
+
+export interface ImportedProject {
+  pluginName: string;
+  buildSystem: BuildSystem;
+  files: Record<string, string>;
+  rejectedFiles: RejectedFile[];
+}
+
+// Metadata archivers add next to the project; dropped without being reported
+const isArchiveNoise = (filePath: string): boolean =>
+  filePath.split('/').some(segment => segment === '__MACOSX' || segment === '.DS_Store');
+
+// Output, IDE and VCS folders that an exported project commonly contains. The workspace refuses
+// everything in them, so archives don't spend the size limit on their contents.
+const isUnreadPath = (filePath: string): boolean => {
+  const segments = filePath.split('/');
+  return OUTPUT_DIRS.includes(segments[0]) || segments[0] === 'node_modules' ||
+    segments.some(segment => segment.startsWith('.'));
+};
+
+// Archives made by zipping a project folder put everything under that folder
+const stripCommonRoot = (filePaths: string[]): string => {
+  const roots = new Set(filePaths.map(filePath => filePath.includes('/') ? filePath.split('/')[0] : ''));
+  const [root] = [...roots];
+  return roots.size === 1 && root ? `${root}/` : '';
+};
+
+/**
+ * Reads the text files of a project from a ZIP archive, relative to the project root.
+ * Files in output, IDE and VCS folders are listed with empty content, so they are reported as refused.
+ * Throws when the archive is unreadable or expands beyond the project size limit.
+ */
+export const readZipProject = (archive: Buffer): Record<string, string> => {
+  const options = { label: 'The upload', maxEntryBytes: MAX_PROJECT_BYTES };
+
+  // Names first: the project root decides which entries are worth reading
+  const names: string[] = [];
+  readZipEntries(archive, name => {
+    if (!isArchiveNoise(name)) names.push(name);
+    return false;
+  }, () => undefined, options);
+
+  const root = stripCommonRoot(names);
+  const files: Record<string, string> = {};
+  const toRead = new Set<string>();
+  names.forEach(name => {
+    if (isUnreadPath(name.slice(root.length))) {
+      files[name.slice(root.length)] = '';
+    } else {
+      toRead.add(name);
+    }
+  });
+
+  let totalBytes = 0;
+  readZipEntries(archive, name => toRead.has(name), (name, content) => {
+    totalBytes += content.length;
+    if (totalBytes > MAX_PROJECT_BYTES) {
+      throw new Error(`The archive expands to more than ${MAX_PROJECT_BYTES} bytes`);
+    }
+    files[name.slice(root.length)] = content.toString('utf8');
+  }, options);
+  return files;
+};
+
+// plugin.yml name, else the pom's artifactId
+const findPluginName = (files: Record<string, string>): string | null => {
+  const ymlPath = Object.keys(files).find(filePath => filePath.endsWith('plugin.yml'));
+  const fromYml = ymlPath ? parsePluginYml(files[ymlPath]).plugin?.name : null;
+  if (fromYml) return fromYml;
+
+  const { root } = files['pom.xml'] !== undefined ? parseXml(files['pom.xml']) : { root: null };
+  const artifactId = root ? elementText(childElement(root, 'artifactId')) : null;
+  return artifactId ? artifactId.replace(/[^A-Za-z0-9_]/g, '') || null : null;
+};
+
+/**
+ * Keeps the files a project may contain and works out its build system and plugin name.
+ * Returns an error message instead when there is no build file at the project root.
+ */
+export const prepareImport = (files: Record<string, string>): ImportedProject | { error: string } => {
+  // Everything else goes through the workspace filter, which reports each path it refuses
+  const candidates: Record<string, string> = {};
+  Object.entries(files)
+    .filter(([filePath]) => !isArchiveNoise(filePath))
+    .forEach(([filePath, content]) => {
+      candidates[filePath] = content;
+    });
+
+  const { files: accepted, rejected } = filterProjectFiles(candidates);
+  const buildSystem = detectBuildSystem(Object.keys(accepted));
+  if (!buildSystem) {
+    return { error: "The project needs a pom.xml or Gradle build script at its root" };
+  }
+
+  return {
+    pluginName: findPluginName(accepted) || "ImportedPlugin",
+    buildSystem,
+    files: accepted,
+    rejectedFiles: rejected
+  };
+};
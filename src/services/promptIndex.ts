@@ -0,0 +1,172 @@
+import fs from "fs";
+import { loadManifest } from "./buildStore";
+import { BuildSystem } from "./buildSystems";
+import { PluginTarget } from "./targets";
+import { listBuildIds, MANIFEST_FILE, readInternalFile, resolveBuildPath } from "./workspace";
+
+// Offline similarity index over the prompts of earlier builds, so a request that only words an
+// earlier one differently can reuse its result instead of paying for a new generation.
+// Prompts are compared as TF-IDF vectors of normalized words by cosine similarity.
+
+export type ReuseMode = 'never' | 'suggest' | 'auto';
+
+export interface SimilarBuild {
+  buildId: string;
+  similarity: number; // Cosine similarity, 0 to 1
+  prompt: string;
+  pluginName: string | null;
+  scaffold: string | null;
+}
+
+export interface SimilarityFilter {
+  target: PluginTarget;
+  buildSystem: BuildSystem;
+  scaffold?: string | null;  // Only builds on this scaffold (null for none) when set
+  excludeBuildId?: string;
+}
+
+interface IndexedBuild extends SimilarBuild {
+  signature: string;                // Changes when prompt.txt or build.json does
+  terms: Map<string, number> | null; // null for builds that can't be reused
+  target: PluginTarget | null;
+  buildSystem: BuildSystem;
+}
+
+export const REUSE_MODES: ReuseMode[] = ['never', 'suggest', 'auto'];
+export const DEFAULT_REUSE_MODE: ReuseMode = (process.env.PROMPT_REUSE as ReuseMode) || 'never';
+export const REUSE_THRESHOLD = parseFloat(process.env.PROMPT_REUSE_THRESHOLD || "0.85");
+
+export const isReuseMode = (mode: unknown): mode is ReuseMode => REUSE_MODES.includes(mode as ReuseMode);
+
+// Words that say nothing about what a plugin does
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'could', 'do', 'for', 'from', 'have', 'i', 'in',
+  'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'please', 'so', 'some', 'that', 'the', 'their', 'them',
+  'then', 'there', 'this', 'to', 'us', 'we', 'what', 'which', 'who', 'will', 'with', 'would', 'you', 'your',
+  'build', 'create', 'generate', 'make', 'need', 'want', 'write', 'simple', 'basic',
+  'plugin', 'plugins', 'minecraft', 'spigot', 'paper', 'bukkit', 'server'
+]);
+
+// Crude suffix stripping, enough to match "heals", "healing" and "healed" to "heal"
+const stem = (word: string): string => {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+/**
+ * The normalized words of a prompt: lower case, without punctuation and stop words, stemmed
+ */
+export const tokenizePrompt = (prompt: string): string[] =>
+  prompt
+    .toLowerCase()
+    .replace(/'s\b/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(stem);
+
+const countTerms = (tokens: string[]): Map<string, number> => {
+  const terms = new Map<string, number>();
+  tokens.forEach(token => terms.set(token, (terms.get(token) || 0) + 1));
+  return terms;
+};
+
+const index = new Map<string, IndexedBuild>();
+
+const fileSignature = (buildId: string, fileName: string): string => {
+  try {
+    return String(fs.statSync(resolveBuildPath(buildId, fileName)).mtimeMs);
+  } catch {
+    return '-';
+  }
+};
+
+// Only generated builds that compiled can be reused; imported projects have no real prompt
+const indexBuild = (buildId: string, signature: string): IndexedBuild => {
+  const manifest = loadManifest(buildId);
+  const prompt = readInternalFile(buildId, 'prompt.txt') || manifest?.prompt || "";
+  const reusable = !!manifest && manifest.status === 'completed' && !!manifest.jarPath &&
+    (manifest.source || 'generated') === 'generated' && prompt.trim() !== '';
+
+  return {
+    buildId,
+    signature,
+    similarity: 0,
+    prompt,
+    pluginName: manifest?.pluginName || null,
+    scaffold: manifest?.scaffold || null,
+    target: manifest?.target || null,
+    buildSystem: manifest?.buildSystem || 'maven',
+    terms: reusable ? countTerms(tokenizePrompt(prompt)) : null
+  };
+};
+
+// Brings the index up to date with the build directories; unchanged builds aren't read again
+const refreshIndex = (): IndexedBuild[] => {
+  const buildIds = new Set(listBuildIds());
+  Array.from(index.keys()).filter(buildId => !buildIds.has(buildId)).forEach(buildId => index.delete(buildId));
+
+  buildIds.forEach(buildId => {
+    const signature = `${fileSignature(buildId, 'prompt.txt')}:${fileSignature(buildId, MANIFEST_FILE)}`;
+    if (index.get(buildId)?.signature !== signature) {
+      index.set(buildId, indexBuild(buildId, signature));
+    }
+  });
+
+  return Array.from(index.values()).filter(build => build.terms !== null);
+};
+
+const cosine = (a: Map<string, number>, b: Map<string, number>): number => {
+  let dot = 0;
+  a.forEach((weight, term) => {
+    dot += weight * (b.get(term) || 0);
+  });
+  const norm = (vector: Map<string, number>) => Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+};
+
+/**
+ * Earlier successful builds for the same target and build system whose prompts are at least
+ * `threshold` similar to this one, most similar first
+ */
+export const findSimilarBuilds = (
+  prompt: string,
+  filter: SimilarityFilter,
+  threshold: number = REUSE_THRESHOLD,
+  limit = 5
+): SimilarBuild[] => {
+  const queryTerms = countTerms(tokenizePrompt(prompt));
+  if (queryTerms.size === 0) return [];
+
+  // IDF over every reusable prompt plus the query, smoothed so shared words still count
+  const documents = refreshIndex();
+  const documentFrequency = new Map<string, number>();
+  [queryTerms, ...documents.map(build => build.terms!)].forEach(terms => {
+    terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+  });
+  const documentCount = documents.length + 1;
+  const weigh = (terms: Map<string, number>): Map<string, number> => new Map(Array.from(terms, ([term, count]) =>
+    [term, count * (Math.log((documentCount + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1)] as [string, number]));
+
+  const queryVector = weigh(queryTerms);
+  return documents
+    .filter(build =>
+      build.buildId !== filter.excludeBuildId &&
+      build.target?.platform === filter.target.platform &&
+      build.target?.mcVersion === filter.target.mcVersion &&
+      build.buildSystem === filter.buildSystem &&
+      (filter.scaffold === undefined || build.scaffold === filter.scaffold))
+    .map(({ buildId, prompt: buildPrompt, pluginName, scaffold, terms }): SimilarBuild => ({
+      buildId,
+      similarity: Math.round(cosine(queryVector, weigh(terms!)) * 1000) / 1000,
+      prompt: buildPrompt,
+      pluginName,
+      scaffold
+    }))
+    .filter(build => build.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+};
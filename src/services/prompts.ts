@@ -0,0 +1,431 @@
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Named, versioned prompt templates. Placeholders are written as {{variable}}.
+// Bump a template's version whenever its text changes so builds can be traced back to it.
+
+interface PromptTemplate<V extends string> {
+  version: string;
+  description: string;
+  variables: readonly V[];
+  text: string;
+}
+
+export interface PromptTemplateInfo {
+  name: PromptName;
+  version: string;
+  description: string;
+  variables: readonly string[];
+  source: 'builtin' | 'override';
+}
+
+interface LoadedOverride {
+  version: string;
+  text: string;
+}
+
+const defineTemplate = <V extends string>(template: PromptTemplate<V>): PromptTemplate<V> => template;
+
+const TEMPLATES = {
+  name: defineTemplate({
+    version: "1",
+    description: "Picks a PascalCase plugin name for a request",
+    variables: ['request'],
+    text: `Based on this Minecraft plugin request, determine the BEST, MOST SPECIFIC name for the plugin.
+The name should be a single word or compound words in PascalCase format (like "WorldGuard" or "EssentialsX").
+It must contain only letters and numbers, and be descriptive of the plugin's main functionality.
+
+USER REQUEST:
+"{{request}}"
+
+Return ONLY the plugin name without any explanation, quotes, or additional text.
+Example responses: "TeleportPlus", "ChestProtector", "ServerEssentials"`
+  }),
+
+  refine: defineTemplate({
+    version: "1",
+    description: "Expands the request into a detailed specification",
+    variables: ['request', 'pluginName', 'target'],
+    text: `You are a Minecraft plugin requirements analyst. The user has provided this plugin request:
+
+"{{request}}"
+
+We've determined the plugin name will be: {{pluginName}}
+TARGET SERVER: {{target}}
+
+Your task is to refine and expand this request into a clear, detailed specification.
+
+Cover:
+1. Features: every behaviour the plugin needs, including the ones the request only implies
+2. Commands: name, arguments, usage message, permission and who may run them (players, console or both)
+3. Permissions: node names under {{pluginName}}.*, their defaults and what each one grants
+4. Events: which server events are handled and what happens in each
+5. Configuration: the options worth putting in config.yml, with sensible defaults
+6. Data: anything that must be stored and whether it has to survive a restart
+7. Edge cases: offline players, invalid arguments, missing permissions and reloads
+
+Keep the specification within what the request asks for and do not invent unrelated features.
+Return plain text without markdown formatting.`
+  }),
+
+  blueprint: defineTemplate({
+    version: "3",
+    description: "Picks a project skeleton and designs the classes and files of the plugin",
+    variables: ['request', 'specification', 'pluginName', 'pluginLower', 'target', 'buildSystem', 'platform', 'mcVersion', 'scaffold'],
+    text: `You are a Minecraft plugin architect tasked with creating a complete, cohesive plugin blueprint.
+
+PLUGIN REQUIREMENTS:
+{{request}}
+
+DETAILED SPECIFICATION:
+{{specification}}
+
+PLUGIN NAME: {{pluginName}}
+TARGET SERVER: {{target}}
+BUILD SYSTEM: {{buildSystem}}
+
+PROJECT SKELETON:
+{{scaffold}}
+
+Your task is to create a COMPLETE PLUGIN BLUEPRINT that ensures all files work together consistently.
+
+PART 1: ARCHITECTURE
+- Use "{{pluginName}}" as the plugin name and main class name
+- Only use APIs available in {{platform}} {{mcVersion}}
+- Package structure (always use com.pegasus.{{pluginLower}} format)
+- Main class {{pluginName}} in package com.pegasus.{{pluginLower}}, extending JavaPlugin
+- Every other class with its package, its responsibility and the classes it depends on
+
+PART 2: FILES
+- The full path of every file to create, one per line
+- Java sources under src/main/java, plugin.yml and config.yml under src/main/resources
+
+PART 3: CLASS CONTRACTS
+- For each class: constructor parameters, public methods with their exact signatures and the events it listens to
+- How the main class creates the other classes and registers listeners and command executors
+
+PART 4: PLUGIN.YML
+- Commands with description, usage and permission
+- Permissions with their defaults
+
+Keep names identical across all parts so every file can be generated separately and still compile together.`
+  }),
+
+  fileList: defineTemplate({
+    version: "1",
+    description: "Extracts the list of files to create from the blueprint",
+    variables: ['blueprint', 'exampleFiles', 'requiredFiles'],
+    text: `Based on this plugin blueprint, extract all files that need to be created.
+
+BLUEPRINT EXCERPT:
+{{blueprint}}
+
+I need your response in a valid JSON array format ONLY, like this exact format:
+[{{exampleFiles}}]
+
+Include all necessary files: {{requiredFiles}}, config.yml (if needed), and ALL Java class files.
+Return ONLY the JSON array with no additional text, explanations, or formatting.`
+  }),
+
+  generate: defineTemplate({
+    version: "1",
+    description: "Generates every file of the plugin in one response",
+    variables: ['blueprint', 'pluginName', 'pluginLower', 'files', 'buildGuidelines', 'apiVersion', 'platform', 'mcVersion'],
+    text: `Implement a complete Minecraft plugin based on:
+
+BLUEPRINT:
+{{blueprint}}
+
+PLUGIN NAME: {{pluginName}}
+
+FILES TO CREATE:
+{{files}}
+
+GUIDELINES:
+- Always use "com.pegasus.{{pluginLower}}" as root package
+- Follow blueprint class relationships exactly
+- No JetBrains annotations
+{{buildGuidelines}}
+- In plugin.yml: api-version: '{{apiVersion}}'
+- Only use APIs available in {{platform}} {{mcVersion}}
+- Ensure consistent package names across imports
+- Make sure all classes compile without errors
+
+For EACH file use format:
+---FILE_START:filepath---
+[content]
+---FILE_END---`
+  }),
+
+  generateFeatures: defineTemplate({
+    version: "1",
+    description: "Generates the feature classes of a plugin built on a scaffold",
+    variables: ['blueprint', 'pluginName', 'pluginLower', 'skeleton', 'features', 'files', 'platform', 'mcVersion'],
+    text: `Implement the feature classes of a Minecraft plugin whose skeleton already exists.
+
+BLUEPRINT:
+{{blueprint}}
+
+PLUGIN NAME: {{pluginName}}
+
+EXISTING SKELETON (do NOT return these files, they are fixed):
+{{skeleton}}
+
+FEATURE FILES THE SKELETON DEPENDS ON (implement each contract exactly):
+{{features}}
+
+FILES TO CREATE:
+{{files}}
+
+GUIDELINES:
+- Always use "com.pegasus.{{pluginLower}}" as root package
+- The main class only calls the constructors and members named in the contracts; keep those signatures
+- Put everything else the plugin needs into the feature classes or new helper classes
+- No JetBrains annotations
+- Only use APIs available in {{platform}} {{mcVersion}}
+- Make sure all classes compile without errors
+
+For EACH file use format:
+---FILE_START:filepath---
+[content]
+---FILE_END---`
+  }),
+
+  singleFile: defineTemplate({
+    version: "1",
+    description: "Generates one file when the multi-file response had none",
+    variables: ['blueprint', 'pluginName', 'pluginLower', 'filePath', 'target'],
+    text: `Create a single Minecraft plugin file based on this blueprint:
+
+BLUEPRINT EXCERPT:
+{{blueprint}}...
+
+PLUGIN NAME: {{pluginName}}
+Generate ONLY this file: {{filePath}}
+Use package: com.pegasus.{{pluginLower}}
+Target server: {{target}}
+
+Return the complete implementation without explanations or markdown formatting.`
+  }),
+
+  consistency: defineTemplate({
+    version: "2",
+    description: "Fixes cross-file problems the symbol table check could not fix itself",
+    variables: ['issues', 'snippets', 'declarations', 'files'],
+    text: `You are fixing consistency issues between the files of a generated Minecraft plugin.
+A static check of the project found these problems:
+
+{{issues}}
+
+ISSUE LOCATIONS (lines marked with >> are the reported lines):
+{{snippets}}
+
+DECLARATIONS OF THE REFERENCED CLASSES:
+{{declarations}}
+
+FILES WITH ISSUES:
+{{files}}
+
+Fix every issue above. Prefer changing the calling code to match the existing declarations;
+only add or change a declaration when the caller clearly needs it. Keep package names and
+class names as they are, and register missing command executors in the main class.
+
+Return ONLY the files you change, each with its COMPLETE content, in this format:
+---FILE_START:filepath---
+[content]
+---FILE_END---
+
+Do NOT wrap code in markdown blocks.`
+  }),
+
+  validation: defineTemplate({
+    version: "1",
+    description: "Checks the main class, plugin.yml and build file before compiling",
+    variables: ['files', 'target'],
+    text: `You are a Minecraft plugin validator. Check these critical plugin files for errors that would prevent compilation or loading:
+
+{{files}}
+
+Focus ONLY on critical errors:
+1. Ensure the main class in plugin.yml exists and extends JavaPlugin
+2. Check for syntax errors in Java files
+3. Verify package names match file paths
+4. Confirm all required imports exist
+5. Make sure pom.xml has valid dependencies for the {{target}}
+
+If you find any errors, return ONLY:
+---FILE_START:filepath---
+[corrected content]
+---FILE_END---
+
+If no errors, respond with "NO_ERRORS_FOUND".`
+  }),
+
+  fix: defineTemplate({
+    version: "2",
+    description: "Fixes the files named in build errors",
+    variables: ['diagnostics', 'rawOutput', 'snippets', 'apiFindings', 'files', 'referencedFiles'],
+    text: `You are a Minecraft plugin build error expert. A plugin build has failed with the following errors:
+
+BUILD ERRORS:
+{{diagnostics}}
+{{rawOutput}}{{snippets}}{{apiFindings}}
+The files with errors are provided below. Analyze the build errors and fix ALL problematic files.
+Pay special attention to XML/POM parsing errors, which often indicate malformed XML.
+
+{{files}}
+{{referencedFiles}}
+Return ONLY the files that need fixing in this format:
+---FILE_START:filepath---
+[corrected content here]
+---FILE_END---
+
+IMPORTANT: Do NOT include backticks or markdown formatting in your response.
+DO NOT wrap code in \`\`\` blocks - the content should be raw code only.
+
+Return MULTIPLE file fixes if needed, with each file's content between its own start/end markers.
+Focus on fixing the ROOT CAUSE of the build failure first (like XML syntax errors in pom.xml or errors in build.gradle.kts).`
+  }),
+
+  revision: defineTemplate({
+    version: "1",
+    description: "Applies a revision request to an existing plugin",
+    variables: ['pluginName', 'target', 'originalRequest', 'instruction', 'files', 'platform', 'mcVersion'],
+    text: `You are revising an existing Minecraft plugin named {{pluginName}}.
+TARGET SERVER: {{target}}
+
+ORIGINAL REQUEST:
+{{originalRequest}}
+
+REVISION REQUEST:
+{{instruction}}
+
+CURRENT PROJECT FILES:
+{{files}}
+
+Apply the revision request while keeping everything else working exactly as before.
+- Keep the existing package structure and main class
+- Register any new commands or permissions in plugin.yml
+- Only use APIs available in {{platform}} {{mcVersion}}
+- No JetBrains annotations
+
+Return ONLY the files you add or change, each with its COMPLETE content, in this format:
+---FILE_START:filepath---
+[content]
+---FILE_END---
+
+Do NOT return unchanged files. Do NOT wrap code in markdown blocks.`
+  })
+};
+
+export type PromptName = keyof typeof TEMPLATES;
+
+// The variables a template is rendered with
+export type PromptVariables<N extends PromptName> = Record<(typeof TEMPLATES)[N]['variables'][number], string | number>;
+
+// Overrides are read from <PROMPT_TEMPLATES_DIR>/<name>.txt. A first line of "version: <label>"
+// sets the recorded version; without it the version is derived from the file content.
+const PROMPT_TEMPLATES_DIR = process.env.PROMPT_TEMPLATES_DIR || "";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+const VERSION_HEADER_PATTERN = /^version:\s*(\S+)[ \t]*\r?\n/;
+
+const overrides = new Map<PromptName, { mtimeMs: number; override: LoadedOverride | null }>();
+
+// Template versions used by the build whose work is running, carried through async work
+const versionContext = new AsyncLocalStorage<Record<string, string>>();
+
+/**
+ * Reads the override for a template, reloading it when the file changes.
+ * Overrides that use unknown variables are ignored so a typo can't send a broken prompt.
+ */
+const loadOverride = (name: PromptName): LoadedOverride | null => {
+  if (!PROMPT_TEMPLATES_DIR) return null;
+
+  const filePath = path.join(PROMPT_TEMPLATES_DIR, `${name}.txt`);
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(filePath).mtimeMs;
+  } catch {
+    overrides.delete(name);
+    return null;
+  }
+
+  // Unchanged files aren't read again; rejected ones stay rejected until they change
+  const cached = overrides.get(name);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.override;
+
+  let override: LoadedOverride | null = null;
+  try {
+    const content = fs.readFileSync(filePath, 'utf8');
+    const header = content.match(VERSION_HEADER_PATTERN);
+    const text = header ? content.slice(header[0].length) : content;
+
+    const allowed: readonly string[] = TEMPLATES[name].variables;
+    const unknown = Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1])
+      .filter(variable => !allowed.includes(variable));
+    if (unknown.length > 0) {
+      throw new Error(`unknown variables ${[...new Set(unknown)].join(', ')} (allowed: ${allowed.join(', ')})`);
+    }
+
+    override = {
+      version: header ? header[1] : `override-${crypto.createHash('sha256').update(text).digest('hex').slice(0, 8)}`,
+      text
+    };
+    console.log(`[PROMPTS] Loaded override for ${name} (version ${override.version}) from ${filePath}`);
+  } catch (error) {
+    console.warn(`[PROMPTS] Ignoring override ${filePath}: ${(error as Error).message}`);
+  }
+
+  overrides.set(name, { mtimeMs, override });
+  return override;
+};
+
+const resolveTemplate = (name: PromptName): { version: string; text: string; source: PromptTemplateInfo['source'] } => {
+  const override = loadOverride(name);
+  return override
+    ? { version: override.version, text: override.text, source: 'override' }
+    : { version: TEMPLATES[name].version, text: TEMPLATES[name].text, source: 'builtin' };
+};
+
+/**
+ * Renders a template with its variables and records the version used for the current build
+ */
+export const renderPrompt = <N extends PromptName>(name: N, variables: PromptVariables<N>): string => {
+  const template = resolveTemplate(name);
+  const values = variables as Record<string, string | number>;
+
+  const usedVersions = versionContext.getStore();
+  if (usedVersions) {
+    usedVersions[name] = template.version;
+  }
+
+  return template.text.replace(PLACEHOLDER_PATTERN, (_, variable: string) =>
+    values[variable] === undefined ? "" : String(values[variable]));
+};
+
+/**
+ * Runs a build's work so the template versions it renders can be read with usedPromptVersions
+ */
+export const trackPromptVersions = <T>(task: () => T): T => versionContext.run({}, task);
+
+// Template name -> version rendered so far by the current build
+export const usedPromptVersions = (): Record<string, string> => ({ ...versionContext.getStore() });
+
+// Template name -> version that would be rendered now, for all templates or the given ones
+export const currentPromptVersions = (names: PromptName[] = Object.keys(TEMPLATES) as PromptName[]): Record<string, string> =>
+  Object.fromEntries(names.map(name => [name, resolveTemplate(name).version]));
+
+export const listPromptTemplates = (): PromptTemplateInfo[] =>
+  (Object.keys(TEMPLATES) as PromptName[]).map(name => {
+    const { version, source } = resolveTemplate(name);
+    return {
+      name,
+      version,
+      description: TEMPLATES[name].description,
+      variables: TEMPLATES[name].variables,
+      source
+    };
+  });
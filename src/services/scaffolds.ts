@@ -0,0 +1,280 @@
+import { BuildSystem } from "./buildSystems";
+import { emptyPluginYml, PluginCommand, serializePluginYml } from "./pluginYml";
+import { createPom } from "./pom";
+import { ResolvedTarget } from "./targets";
+
+// Known-good project skeletons. A scaffold owns the Maven build file, plugin.yml and the main class;
+// the model only writes the feature classes the main class wires up.
+
+export type ScaffoldId = 'command' | 'listener' | 'gui' | 'config' | 'scheduled';
+
+export interface FeatureFile {
+  path: string;
+  contract: string; // What the class must declare for the main class to compile against it
+}
+
+export interface ScaffoldInfo {
+  id: ScaffoldId;
+  name: string;
+  description: string;
+  features: FeatureFile[]; // With placeholder names, for listings
+}
+
+export interface ScaffoldProject {
+  id: ScaffoldId;
+  files: Record<string, string>; // Files the scaffold owns; they replace anything the model writes at these paths
+  features: FeatureFile[];
+}
+
+interface ScaffoldContext {
+  pluginName: string;
+  pluginLower: string;
+  commandName: string;
+}
+
+// Pieces of the main class each scaffold fills in
+interface MainClassParts {
+  imports: string[];
+  enable: string[];
+  disable?: string[];
+}
+
+interface Scaffold {
+  name: string;
+  description: string;
+  commands: (context: ScaffoldContext) => Record<string, PluginCommand>;
+  features: (context: ScaffoldContext) => FeatureFile[];
+  mainClass: (context: ScaffoldContext) => MainClassParts;
+}
+
+const javaPath = ({ pluginName, pluginLower }: ScaffoldContext, suffix: string): string =>
+  `src/main/java/com/pegasus/${pluginLower}/${pluginName}${suffix}.java`;
+
+const mainCommand = ({ pluginName, commandName }: ScaffoldContext, description: string): Record<string, PluginCommand> => ({
+  [commandName]: { description: description.replace('{plugin}', pluginName), usage: `/${commandName}`, aliases: [] }
+});
+
+// Looks the command up in plugin.yml, which the scaffold writes, and hands it to an executor
+const registerCommand = ({ commandName }: ScaffoldContext, executor: string, tabCompleter: boolean): string[] => [
+  `PluginCommand command = Objects.requireNonNull(getCommand("${commandName}"), "/${commandName} is missing from plugin.yml");`,
+  `command.setExecutor(${executor});`,
+  ...(tabCompleter ? [`command.setTabCompleter(${executor});`] : [])
+];
+
+const COMMAND_IMPORTS = ['java.util.Objects', 'org.bukkit.command.PluginCommand'];
+
+const SCAFFOLDS: Record<ScaffoldId, Scaffold> = {
+  command: {
+    name: "Command plugin",
+    description: "One main command with subcommands and tab completion",
+    commands: context => mainCommand(context, "Main command of {plugin}"),
+    features: context => [{
+      path: javaPath(context, 'Command'),
+      contract: `public class ${context.pluginName}Command implements CommandExecutor, TabCompleter; ` +
+        `constructor ${context.pluginName}Command(${context.pluginName} plugin); handles /${context.commandName} with all its subcommands and arguments`
+    }],
+    mainClass: context => ({
+      imports: COMMAND_IMPORTS,
+      enable: [
+        `${context.pluginName}Command executor = new ${context.pluginName}Command(this);`,
+        ...registerCommand(context, 'executor', true)
+      ]
+    })
+  },
+
+  listener: {
+    name: "Event listener plugin",
+    description: "Reacts to server events without commands",
+    commands: () => ({}),
+    features: context => [{
+      path: javaPath(context, 'Listener'),
+      contract: `public class ${context.pluginName}Listener implements Listener; ` +
+        `constructor ${context.pluginName}Listener(${context.pluginName} plugin); an @EventHandler method for every event the plugin reacts to`
+    }],
+    mainClass: context => ({
+      imports: [],
+      enable: [`getServer().getPluginManager().registerEvents(new ${context.pluginName}Listener(this), this);`]
+    })
+  },
+
+  gui: {
+    name: "Inventory GUI plugin",
+    description: "A command that opens a chest menu and handles clicks in it",
+    commands: context => mainCommand(context, "Opens the {plugin} menu"),
+    features: context => [
+      {
+        path: javaPath(context, 'Menu'),
+        contract: `public class ${context.pluginName}Menu implements Listener; constructor ${context.pluginName}Menu(${context.pluginName} plugin); ` +
+          `public void open(Player player) builds and opens the inventory; handles InventoryClickEvent (cancelling clicks in the menu) and InventoryCloseEvent`
+      },
+      {
+        path: javaPath(context, 'Command'),
+        contract: `public class ${context.pluginName}Command implements CommandExecutor; ` +
+          `constructor ${context.pluginName}Command(${context.pluginName} plugin, ${context.pluginName}Menu menu); /${context.commandName} opens the menu for the player running it`
+      }
+    ],
+    mainClass: context => ({
+      imports: COMMAND_IMPORTS,
+      enable: [
+        `${context.pluginName}Menu menu = new ${context.pluginName}Menu(this);`,
+        `getServer().getPluginManager().registerEvents(menu, this);`,
+        ...registerCommand(context, `new ${context.pluginName}Command(this, menu)`, false)
+      ]
+    })
+  },
+
+  config: {
+    name: "Config-driven plugin",
+    description: "Behaviour driven by config.yml, with a reload command",
+    commands: context => mainCommand(context, "Reloads and manages {plugin}"),
+    features: context => [
+      {
+        path: 'src/main/resources/config.yml',
+        contract: `default configuration: every key ${context.pluginName}Settings reads, with its default value and a comment`
+      },
+      {
+        path: javaPath(context, 'Settings'),
+        contract: `public class ${context.pluginName}Settings; constructor ${context.pluginName}Settings(${context.pluginName} plugin); ` +
+          `public void load() reads every value from plugin.getConfig() into fields, exposed through getters`
+      },
+      {
+        path: javaPath(context, 'Listener'),
+        contract: `public class ${context.pluginName}Listener implements Listener; ` +
+          `constructor ${context.pluginName}Listener(${context.pluginName} plugin, ${context.pluginName}Settings settings); reads settings through the getters on every event`
+      },
+      {
+        path: javaPath(context, 'Command'),
+        contract: `public class ${context.pluginName}Command implements CommandExecutor, TabCompleter; ` +
+          `constructor ${context.pluginName}Command(${context.pluginName} plugin, ${context.pluginName}Settings settings); ` +
+          `/${context.commandName} reload calls plugin.reloadConfig() and then settings.load()`
+      }
+    ],
+    mainClass: context => ({
+      imports: COMMAND_IMPORTS,
+      enable: [
+        `saveDefaultConfig();`,
+        `${context.pluginName}Settings settings = new ${context.pluginName}Settings(this);`,
+        `settings.load();`,
+        `getServer().getPluginManager().registerEvents(new ${context.pluginName}Listener(this, settings), this);`,
+        `${context.pluginName}Command executor = new ${context.pluginName}Command(this, settings);`,
+        ...registerCommand(context, 'executor', true)
+      ]
+    })
+  },
+
+  scheduled: {
+    name: "Scheduled task plugin",
+    description: "Work that repeats on a timer on the main server thread",
+    commands: () => ({}),
+    features: context => [{
+      path: javaPath(context, 'Task'),
+      contract: `public class ${context.pluginName}Task extends BukkitRunnable; constructor ${context.pluginName}Task(${context.pluginName} plugin); ` +
+        `public static final long DELAY_TICKS and PERIOD_TICKS (20 ticks = 1 second); run() does the repeated work`
+    }],
+    mainClass: context => ({
+      imports: [],
+      enable: [`new ${context.pluginName}Task(this).runTaskTimer(this, ${context.pluginName}Task.DELAY_TICKS, ${context.pluginName}Task.PERIOD_TICKS);`],
+      disable: [`getServer().getScheduler().cancelTasks(this);`]
+    })
+  }
+};
+
+export const SCAFFOLD_IDS = Object.keys(SCAFFOLDS) as ScaffoldId[];
+
+export const isScaffoldId = (id: unknown): id is ScaffoldId =>
+  typeof id === 'string' && SCAFFOLD_IDS.includes(id as ScaffoldId);
+
+// "HealPlugin" -> "heal"; names that are only "Plugin" keep it
+const commandNameFor = (pluginName: string): string =>
+  pluginName.toLowerCase().replace(/plugin$/, '') || pluginName.toLowerCase();
+
+const createContext = (pluginName: string): ScaffoldContext => ({
+  pluginName,
+  pluginLower: pluginName.toLowerCase(),
+  commandName: commandNameFor(pluginName)
+});
+
+const buildMainClass = (context: ScaffoldContext, parts: MainClassParts): string => {
+  const imports = [...parts.imports, 'org.bukkit.plugin.java.JavaPlugin'].sort().map(name => `import ${name};`);
+  const body = (lines: string[]) => lines.map(line => `        ${line}\n`).join('');
+
+  return `package com.pegasus.${context.pluginLower};
+
+${imports.join('\n')}
+
+public class ${context.pluginName} extends JavaPlugin {
+    @Override
+    public void onEnable() {
+${body(parts.enable)}        getLogger().info("${context.pluginName} has been enabled!");
+    }
+
+    @Override
+    public void onDisable() {
+${body(parts.disable || [])}        getLogger().info("${context.pluginName} has been disabled!");
+    }
+}
+`;
+};
+
+/**
+ * The skeleton files of a scaffold for a plugin, and the feature files the model has to write.
+ * Gradle projects get their build files from the Gradle template instead of the scaffold.
+ */
+export const createScaffold = (
+  id: ScaffoldId,
+  pluginName: string,
+  target: ResolvedTarget,
+  buildSystem: BuildSystem
+): ScaffoldProject => {
+  const scaffold = SCAFFOLDS[id];
+  const context = createContext(pluginName);
+
+  const pluginYml = serializePluginYml({
+    ...emptyPluginYml(),
+    name: pluginName,
+    version: "1.0",
+    main: `com.pegasus.${context.pluginLower}.${pluginName}`,
+    apiVersion: target.apiVersion,
+    commands: scaffold.commands(context)
+  });
+
+  return {
+    id,
+    files: {
+      ...(buildSystem === 'maven' && { "pom.xml": createPom(pluginName, target) }),
+      "src/main/resources/plugin.yml": pluginYml,
+      [javaPath(context, '')]: buildMainClass(context, scaffold.mainClass(context))
+    },
+    features: scaffold.features(context)
+  };
+};
+
+/**
+ * All scaffolds with their feature files, using <PluginName> and <command> as placeholders
+ */
+export const listScaffolds = (): ScaffoldInfo[] => {
+  const context: ScaffoldContext = { pluginName: '<PluginName>', pluginLower: '<pluginname>', commandName: '<command>' };
+  return SCAFFOLD_IDS.map(id => ({
+    id,
+    name: SCAFFOLDS[id].name,
+    description: SCAFFOLDS[id].description,
+    features: SCAFFOLDS[id].features(context)
+  }));
+};
+
+// One line per scaffold, for the blueprint stage to choose from
+export const describeScaffoldChoices = (): string =>
+  SCAFFOLD_IDS
+    .map(id => `- ${id}: ${SCAFFOLDS[id].name}. ${SCAFFOLDS[id].description}`)
+    .join('\n');
+
+export const formatFeatureFile = (feature: FeatureFile): string => `- ${feature.path}: ${feature.contract}`;
+
+/**
+ * Reads the scaffold the blueprint chose from its "SCAFFOLD: <id>" line; null for none or an unknown id
+ */
+export const parseScaffoldChoice = (blueprint: string): ScaffoldId | null => {
+  const match = blueprint.match(/^\W*SCAFFOLD:?\W*([a-z]+)/im);
+  const id = match ? match[1].toLowerCase() : null;
+  return isScaffoldId(id) ? id : null;
+};
@@ -0,0 +1,115 @@
+import fs from "fs";
+import { Readable } from "stream";
+import { BuildManifest } from "./buildStore";
+import { expectedJarPath } from "./buildSystems";
+import { parsePluginYml } from "./pluginYml";
+import { describeTarget, resolveTarget } from "./targets";
+import { readProjectFiles, resolveBuildPath } from "./workspace";
+import { createZipStream, ZipEntry } from "./zipWriter";
+
+// The source of a generated plugin as a ZIP archive developers can drop into their own repository
+
+export interface SourceArchive {
+  fileName: string;
+  stream: Readable;
+}
+
+const README_FILE = 'README.md';
+
+// Table cells can't contain pipes or line breaks
+const cell = (text: string | undefined): string => (text || '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+/**
+ * Markdown README for a generated project: the request it came from, the target and how to build it,
+ * and the commands and permissions declared in plugin.yml
+ */
+export const createSourceReadme = (manifest: BuildManifest, files: Record<string, string>): string => {
+  const pluginName = manifest.pluginName || manifest.buildId;
+  const target = resolveTarget(manifest.target || {});
+  const ymlPath = Object.keys(files).find(filePath => filePath.endsWith('plugin.yml'));
+  const plugin = ymlPath ? parsePluginYml(files[ymlPath]).plugin : null;
+  const gradle = manifest.buildSystem === 'gradle';
+
+  const lines = [`# ${pluginName}`, ''];
+  if (plugin?.description) {
+    lines.push(plugin.description, '');
+  }
+  lines.push(
+    'Generated from this request:',
+    '',
+    ...manifest.prompt.split('\n').map(line => `> ${line}`),
+    '',
+    '## Target',
+    '',
+    `- Server: ${manifest.target ? describeTarget(target) : 'not recorded'}`,
+    `- plugin.yml api-version: ${plugin?.apiVersion || 'not set'}`,
+    `- Build system: ${gradle ? 'Gradle (Kotlin DSL)' : 'Maven'}`,
+    '',
+    '## Building',
+    '',
+    `Requires JDK ${target.javaRelease} or newer.`,
+    '',
+    '```sh',
+    gradle ? 'gradle build' : 'mvn package',
+    '```',
+    '',
+    `The plugin JAR is written to \`${expectedJarPath(manifest.buildSystem, pluginName.toLowerCase())}\`. ` +
+      "Copy it into the server's `plugins` folder and restart the server.",
+    ''
+  );
+
+  const commands = Object.entries(plugin?.commands || {});
+  if (commands.length > 0) {
+    lines.push('## Commands', '', '| Command | Description | Usage | Permission |', '| --- | --- | --- | --- |');
+    commands.forEach(([name, command]) => {
+      const aliases = command.aliases.length > 0 ? ` (${command.aliases.map(alias => `/${alias}`).join(', ')})` : '';
+      lines.push(`| /${name}${cell(aliases)} | ${cell(command.description)} | ${cell(command.usage)} | ${cell(command.permission)} |`);
+    });
+    lines.push('');
+  }
+
+  const permissions = Object.entries(plugin?.permissions || {});
+  if (permissions.length > 0) {
+    lines.push('## Permissions', '', '| Permission | Description | Default |', '| --- | --- | --- |');
+    permissions.forEach(([name, permission]) => {
+      lines.push(`| ${cell(name)} | ${cell(permission.description)} | ${cell(permission.default)} |`);
+    });
+    lines.push('');
+  }
+
+  lines.push('## Files', '', ...Object.keys(files).sort().map(filePath => `- \`${filePath}\``), '');
+  lines.push(`Build \`${manifest.buildId}\`, created ${manifest.createdAt}, status ${manifest.status}.`, '');
+  return lines.join('\n');
+};
+
+/**
+ * Streams the project files of a build as <pluginname>-source.zip, with a generated README unless the
+ * project has its own. Build output and internal files are left out; `includeJar` adds the built JAR
+ * under dist/, which the caller has to check exists.
+ */
+export const createSourceArchive = (manifest: BuildManifest, options: { includeJar?: boolean } = {}): SourceArchive => {
+  const files = readProjectFiles(manifest.buildId);
+  const root = (manifest.pluginName || manifest.buildId).toLowerCase();
+  const modifiedAt = new Date(manifest.updatedAt);
+
+  const entries: ZipEntry[] = Object.keys(files).sort().map(filePath => ({
+    name: `${root}/${filePath}`,
+    content: () => Buffer.from(files[filePath], 'utf8'),
+    modifiedAt
+  }));
+
+  if (files[README_FILE] === undefined) {
+    entries.unshift({ name: `${root}/${README_FILE}`, content: () => Buffer.from(createSourceReadme(manifest, files), 'utf8'), modifiedAt });
+  }
+
+  if (options.includeJar && manifest.jarPath) {
+    const jarPath = resolveBuildPath(manifest.buildId, manifest.jarPath);
+    entries.push({
+      name: `${root}/dist/${root}.jar`,
+      content: () => fs.readFileSync(jarPath),
+      modifiedAt: fs.statSync(jarPath).mtime
+    });
+  }
+
+  return { fileName: `${root}-source.zip`, stream: createZipStream(entries) };
+};
@@ -0,0 +1,35 @@
+import { createLocalStorage } from "./localStorage";
+import { createS3Storage } from "./s3Storage";
+import { StorageBackend, StorageBackendFactory } from "./types";
+
+export * from "./types";
+
+// Available backends - register new ones here or via registerStorage()
+const storageFactories: Record<string, StorageBackendFactory> = {
+  local: createLocalStorage,
+  s3: createS3Storage
+};
+
+let activeStorage: StorageBackend | null = null;
+
+export const registerStorage = (name: string, factory: StorageBackendFactory): void => {
+  storageFactories[name] = factory;
+};
+
+/**
+ * Returns the backend selected by STORAGE_BACKEND (default: local).
+ * The backend is created lazily so no client is built at import time.
+ */
+export const getStorage = (): StorageBackend => {
+  if (activeStorage) return activeStorage;
+
+  const storageName = (process.env.STORAGE_BACKEND || "local").toLowerCase();
+  const factory = storageFactories[storageName];
+  if (!factory) {
+    throw new Error(`Unknown storage backend "${storageName}". Available: ${Object.keys(storageFactories).join(", ")}`);
+  }
+
+  activeStorage = factory();
+  console.log(`Using storage backend: ${activeStorage.name} (${activeStorage.location})`);
+  return activeStorage;
+};
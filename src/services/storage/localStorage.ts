@@ -0,0 +1,101 @@
+import fs from "fs";
+import path from "path";
+import { PLUGINS_BASE_DIR } from "../workspace";
+import { StorageBackend, StoredObject } from "./types";
+
+/**
+ * Stores objects as files under STORAGE_DIR (default: the generated-plugins directory itself, in which
+ * case builds aren't copied anywhere). Pointing STORAGE_DIR at a shared volume lets replicas share builds.
+ */
+export const createLocalStorage = (): StorageBackend => {
+  const rootDir = path.resolve(process.env.STORAGE_DIR || PLUGINS_BASE_DIR);
+
+  // Keys come from build IDs and project paths, which are checked already; this is the last line of defence
+  const resolveKey = (key: string): string => {
+    const fullPath = path.resolve(rootDir, key);
+    if (!fullPath.startsWith(rootDir + path.sep)) {
+      throw new Error(`Storage key "${key}" is outside ${rootDir}`);
+    }
+    return fullPath;
+  };
+
+  const isMissing = (error: unknown): boolean => (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+  return {
+    name: "local",
+    location: rootDir,
+
+    async putObject(key, body) {
+      const filePath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const tempPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tempPath, body);
+      await fs.promises.rename(tempPath, filePath);
+    },
+
+    async getObject(key) {
+      try {
+        return await fs.promises.readFile(resolveKey(key));
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+
+    async openObject(key) {
+      const filePath = resolveKey(key);
+      try {
+        const { size } = await fs.promises.stat(filePath);
+        return { stream: fs.createReadStream(filePath), size };
+      } catch (error) {
+        if (isMissing(error)) return null;
+        throw error;
+      }
+    },
+
+    async deleteObject(key) {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    },
+
+    async listObjects(prefix) {
+      const objects: StoredObject[] = [];
+      const walk = async (dir: string): Promise<void> => {
+        let dirents: fs.Dirent[];
+        try {
+          dirents = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch (error) {
+          if (isMissing(error)) return;
+          throw error;
+        }
+        for (const dirent of dirents) {
+          const fullPath = path.join(dir, dirent.name);
+          if (dirent.isDirectory()) {
+            await walk(fullPath);
+          } else if (dirent.isFile() && !dirent.name.endsWith('.tmp')) {
+            const key = path.relative(rootDir, fullPath).split(path.sep).join('/');
+            if (!key.startsWith(prefix)) continue;
+            const { size, mtime } = await fs.promises.stat(fullPath);
+            objects.push({ key, size, modifiedAt: mtime });
+          }
+        }
+      };
+
+      // Only walk the folder the prefix points into
+      const folder = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+      await walk(folder ? resolveKey(folder) : rootDir);
+      return objects;
+    },
+
+    async listFolders(prefix) {
+      try {
+        const dir = prefix ? resolveKey(prefix) : rootDir;
+        return (await fs.promises.readdir(dir, { withFileTypes: true }))
+          .filter(dirent => dirent.isDirectory())
+          .map(dirent => dirent.name);
+      } catch (error) {
+        if (isMissing(error)) return [];
+        throw error;
+      }
+    }
+  };
+};
@@ -0,0 +1,255 @@
+import crypto from "crypto";
+import http, { IncomingMessage } from "http";
+import https from "https";
+import { childElement, childElements, elementText, parseXml, XmlElement } from "../pom";
+import { StorageBackend, StoredObject } from "./types";
+
+// S3-compatible object storage (AWS S3, MinIO, ...) over the REST API with Signature Version 4,
+// so no SDK is needed. Buckets are addressed path-style unless S3_PATH_STYLE is "false".
+
+export interface SigningCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  path: string;                    // URI-encoded
+  query: Record<string, string>;
+  headers: Record<string, string>; // Lower-case names; every header here is signed
+  payloadHash: string;             // Hex SHA-256 of the body
+}
+
+interface S3Config extends SigningCredentials {
+  endpoint: URL;
+  bucket: string;
+  prefix: string;     // Prepended to every key, to share a bucket
+  pathStyle: boolean;
+}
+
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').digest('hex');
+
+const readConfig = (): S3Config => {
+  const { S3_ENDPOINT, S3_BUCKET } = process.env;
+  if (!S3_ENDPOINT || !S3_BUCKET) {
+    throw new Error("S3 storage needs S3_ENDPOINT and S3_BUCKET");
+  }
+
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || "";
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || "";
+  if (!accessKeyId || !secretAccessKey) {
+    console.warn("S3_ACCESS_KEY_ID or S3_SECRET_ACCESS_KEY is not set - S3 requests will fail");
+  }
+
+  const prefix = (process.env.S3_PREFIX || "").replace(/^\/+|\/+$/g, '');
+  return {
+    endpoint: new URL(S3_ENDPOINT),
+    bucket: S3_BUCKET,
+    region: process.env.S3_REGION || "us-east-1",
+    accessKeyId,
+    secretAccessKey,
+    prefix: prefix ? `${prefix}/` : '',
+    pathStyle: process.env.S3_PATH_STYLE !== "false"
+  };
+};
+
+// RFC 3986 encoding, which is what SigV4 expects (encodeURIComponent leaves !'()* alone)
+export const encode = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const sha256 = (data: string | Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string): Buffer => crypto.createHmac('sha256', key).update(data).digest();
+
+const formatQuery = (query: Record<string, string>): string =>
+  Object.keys(query).sort()
+    .map(name => `${encode(name)}=${encode(query[name])}`)
+    .join('&');
+
+/**
+ * The Authorization header for an S3 request, signed with Signature Version 4.
+ * `amzDate` is the request's x-amz-date, like 20130524T000000Z.
+ */
+export const signRequest = (request: SignableRequest, credentials: SigningCredentials, amzDate: string): string => {
+  const headerNames = Object.keys(request.headers).sort();
+  const signedHeaders = headerNames.join(';');
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    formatQuery(request.query),
+    headerNames.map(name => `${name}:${request.headers[name].trim()}\n`).join(''),
+    signedHeaders,
+    request.payloadHash
+  ].join('\n');
+
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${credentials.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), credentials.region), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+};
+
+const childText = (element: XmlElement, name: string): string => elementText(childElement(element, name)) || "";
+
+const readBody = async (response: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of response) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
+
+export const createS3Storage = (): StorageBackend => {
+  const config = readConfig();
+  const client = config.endpoint.protocol === 'https:' ? https : http;
+  const host = config.pathStyle ? config.endpoint.host : `${config.bucket}.${config.endpoint.host}`;
+  const basePath = `${config.endpoint.pathname.replace(/\/+$/, '')}${config.pathStyle ? `/${encode(config.bucket)}` : ''}`;
+
+  /**
+   * Sends a signed request. Resolves with the response for 2xx and 404 statuses; other statuses
+   * are read and thrown with the S3 error code.
+   */
+  const request = (
+    method: string,
+    key: string,
+    query: Record<string, string> = {},
+    body?: Buffer
+  ): Promise<IncomingMessage> => {
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const payloadHash = body ? sha256(body) : EMPTY_PAYLOAD_HASH;
+
+    const canonicalPath = `${basePath}/${key.split('/').map(encode).join('/')}`;
+    const canonicalQuery = formatQuery(query);
+    const headers: Record<string, string> = {
+      host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    const authorization = signRequest({ method, path: canonicalPath, query, headers, payloadHash }, config, amzDate);
+
+    return new Promise((resolve, reject) => {
+      const req = client.request({
+        protocol: config.endpoint.protocol,
+        hostname: config.pathStyle ? config.endpoint.hostname : `${config.bucket}.${config.endpoint.hostname}`,
+        port: config.endpoint.port || undefined,
+        method,
+        path: canonicalQuery ? `${canonicalPath}?${canonicalQuery}` : canonicalPath,
+        headers: {
+          ...headers,
+          authorization,
+          ...(body && { 'content-length': String(body.length) })
+        },
+        timeout: REQUEST_TIMEOUT_MS
+      }, response => {
+        const status = response.statusCode || 0;
+        if ((status >= 200 && status < 300) || status === 404) {
+          resolve(response);
+          return;
+        }
+        readBody(response).then(errorBody => {
+          const code = errorBody.toString('utf8').match(/<Code>([^<]*)<\/Code>/)?.[1] || `HTTP ${status}`;
+          reject(new Error(`S3 ${method} ${key || '/'} failed: ${code}`));
+        }, reject);
+      });
+
+      req.on('timeout', () => req.destroy(new Error(`S3 ${method} ${key || '/'} timed out`)));
+      req.on('error', reject);
+      req.end(body);
+    });
+  };
+
+  /**
+   * ListObjectsV2, following continuation tokens. With a delimiter, returns the common prefixes instead
+   * of the objects under them.
+   */
+  const list = async (prefix: string, delimiter?: string): Promise<{ objects: StoredObject[]; prefixes: string[] }> => {
+    const objects: StoredObject[] = [];
+    const prefixes: string[] = [];
+    let continuationToken: string | null = null;
+
+    do {
+      const query: Record<string, string> = {
+        'list-type': '2',
+        prefix: `${config.prefix}${prefix}`,
+        ...(delimiter && { delimiter }),
+        ...(continuationToken && { 'continuation-token': continuationToken })
+      };
+      const response = await request('GET', '', query);
+      const xml = (await readBody(response)).toString('utf8');
+      if (response.statusCode === 404) {
+        throw new Error(`S3 bucket ${config.bucket} not found`);
+      }
+
+      const { root, error } = parseXml(xml);
+      if (!root) {
+        throw new Error(`Unreadable S3 listing: ${error?.message}`);
+      }
+
+      childElements(root, 'Contents').forEach(contents => {
+        objects.push({
+          key: childText(contents, 'Key').slice(config.prefix.length),
+          size: parseInt(childText(contents, 'Size') || "0"),
+          modifiedAt: new Date(childText(contents, 'LastModified'))
+        });
+      });
+      childElements(root, 'CommonPrefixes').forEach(common => {
+        prefixes.push(childText(common, 'Prefix').slice(config.prefix.length));
+      });
+
+      continuationToken = childText(root, 'IsTruncated') === 'true'
+        ? childText(root, 'NextContinuationToken') || null
+        : null;
+    } while (continuationToken);
+
+    return { objects, prefixes };
+  };
+
+  const objectKey = (key: string): string => `${config.prefix}${key}`;
+
+  return {
+    name: "s3",
+    location: `s3://${config.bucket}/${config.prefix}`,
+
+    async putObject(key, body) {
+      const response = await request('PUT', objectKey(key), {}, body);
+      response.resume();
+      if (response.statusCode === 404) {
+        throw new Error(`S3 bucket ${config.bucket} not found`);
+      }
+    },
+
+    async getObject(key) {
+      const response = await request('GET', objectKey(key));
+      if (response.statusCode === 404) {
+        response.resume();
+        return null;
+      }
+      return readBody(response);
+    },
+
+    async openObject(key) {
+      const response = await request('GET', objectKey(key));
+      if (response.statusCode === 404) {
+        response.resume();
+        return null;
+      }
+      const length = response.headers['content-length'];
+      return { stream: response, size: length ? parseInt(length) : null };
+    },
+
+    async deleteObject(key) {
+      (await request('DELETE', objectKey(key))).resume();
+    },
+
+    async listObjects(prefix) {
+      return (await list(prefix)).objects;
+    },
+
+    async listFolders(prefix) {
+      return (await list(prefix, '/')).prefixes.map(folder => folder.slice(prefix.length).replace(/\/$/, ''));
+    }
+  };
+};
@@ -0,0 +1,27 @@
+import { Readable } from "stream";
+
+// Shared types for storage backends. Keys are "<buildId>/<path inside the build directory>".
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+export interface ObjectStream {
+  stream: Readable;
+  size: number | null; // null when the backend doesn't report it
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  readonly location: string; // Directory or bucket URL, for logs
+  putObject(key: string, body: Buffer): Promise<void>;
+  getObject(key: string): Promise<Buffer | null>;
+  openObject(key: string): Promise<ObjectStream | null>;
+  deleteObject(key: string): Promise<void>;
+  listObjects(prefix: string): Promise<StoredObject[]>;
+  listFolders(prefix: string): Promise<string[]>; // Names directly below the prefix that have objects under them
+}
+
+export type StorageBackendFactory = () => StorageBackend;
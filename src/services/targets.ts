@@ -0,0 +1,173 @@
+import { updatePluginYml } from "./pluginYml";
+
+// Server platforms and Minecraft versions that generated plugins can target
+
+export type Platform = 'paper' | 'spigot' | 'bukkit';
+
+export interface PluginTarget {
+  platform: Platform;
+  mcVersion: string;
+}
+
+export interface MavenRepository {
+  id: string;
+  url: string;
+}
+
+export interface MavenDependency {
+  groupId: string;
+  artifactId: string;
+  version: string;
+}
+
+export interface ResolvedTarget extends PluginTarget {
+  apiVersion: string;       // plugin.yml api-version
+  javaRelease: number;      // maven.compiler.release
+  repository: MavenRepository;
+  dependency: MavenDependency;
+}
+
+interface SupportedVersion {
+  mcVersion: string;
+  javaRelease: number;
+  platforms: Platform[];
+}
+
+export const PLATFORMS: Platform[] = ['paper', 'spigot', 'bukkit'];
+
+// Supported versions, newest first. Paper needs Java 21 from 1.20.5 on.
+export const SUPPORTED_VERSIONS: SupportedVersion[] = [
+  { mcVersion: '1.21.4', javaRelease: 21, platforms: ['paper', 'spigot', 'bukkit'] },
+  { mcVersion: '1.21.1', javaRelease: 21, platforms: ['paper', 'spigot', 'bukkit'] },
+  { mcVersion: '1.20.6', javaRelease: 21, platforms: ['paper', 'spigot', 'bukkit'] },
+  { mcVersion: '1.20.4', javaRelease: 17, platforms: ['paper', 'spigot', 'bukkit'] },
+  { mcVersion: '1.20.1', javaRelease: 17, platforms: ['paper', 'spigot', 'bukkit'] },
+  { mcVersion: '1.19.4', javaRelease: 17, platforms: ['paper', 'spigot', 'bukkit'] },
+  { mcVersion: '1.19.3', javaRelease: 17, platforms: ['paper', 'spigot', 'bukkit'] },
+  { mcVersion: '1.18.2', javaRelease: 17, platforms: ['paper', 'spigot', 'bukkit'] },
+  { mcVersion: '1.17.1', javaRelease: 16, platforms: ['paper', 'spigot', 'bukkit'] }
+];
+
+const REPOSITORIES: Record<Platform, MavenRepository> = {
+  paper: { id: 'papermc', url: 'https://repo.papermc.io/repository/maven-public/' },
+  spigot: { id: 'spigot-repo', url: 'https://hub.spigotmc.org/nexus/content/repositories/snapshots/' },
+  bukkit: { id: 'spigot-repo', url: 'https://hub.spigotmc.org/nexus/content/repositories/snapshots/' }
+};
+
+const API_ARTIFACTS: Record<Platform, Omit<MavenDependency, 'version'>> = {
+  paper: { groupId: 'io.papermc.paper', artifactId: 'paper-api' },
+  spigot: { groupId: 'org.spigotmc', artifactId: 'spigot-api' },
+  bukkit: { groupId: 'org.bukkit', artifactId: 'bukkit' }
+};
+
+const BUILT_IN_DEFAULT_TARGET: PluginTarget = { platform: 'spigot', mcVersion: '1.19.3' };
+
+// Find a supported version; "1.20" picks the newest supported 1.20.x
+const findVersion = (mcVersion: string): SupportedVersion | undefined =>
+  SUPPORTED_VERSIONS.find(version => version.mcVersion === mcVersion) ||
+  SUPPORTED_VERSIONS.find(version => version.mcVersion.startsWith(`${mcVersion}.`));
+
+/**
+ * Returns why a requested target can't be built, or null when it is supported
+ */
+export const getTargetError = (target: Partial<PluginTarget> = {}): string | null => {
+  const platform = target.platform || DEFAULT_TARGET.platform;
+  const mcVersion = target.mcVersion || DEFAULT_TARGET.mcVersion;
+
+  if (!PLATFORMS.includes(platform)) {
+    return `Unsupported platform "${platform}". Supported platforms: ${PLATFORMS.join(', ')}`;
+  }
+
+  const version = findVersion(String(mcVersion));
+  if (!version) {
+    return `Unsupported Minecraft version "${mcVersion}". See GET /api/targets for supported versions`;
+  }
+  if (!version.platforms.includes(platform)) {
+    return `Minecraft ${version.mcVersion} is not available for ${platform}`;
+  }
+  return null;
+};
+
+// Target used when a request doesn't specify one. An unsupported DEFAULT_PLATFORM or DEFAULT_MC_VERSION
+// falls back to the built-in default, since every unresolvable request would otherwise fail.
+const configuredDefaultTarget = (): PluginTarget => {
+  const configured: PluginTarget = {
+    platform: (process.env.DEFAULT_PLATFORM as Platform) || BUILT_IN_DEFAULT_TARGET.platform,
+    mcVersion: process.env.DEFAULT_MC_VERSION || BUILT_IN_DEFAULT_TARGET.mcVersion
+  };
+  const error = getTargetError(configured);
+  if (error) {
+    console.warn(`Ignoring the configured default target: ${error}. Using ${BUILT_IN_DEFAULT_TARGET.platform} ${BUILT_IN_DEFAULT_TARGET.mcVersion}`);
+    return BUILT_IN_DEFAULT_TARGET;
+  }
+  return configured;
+};
+
+export const DEFAULT_TARGET: PluginTarget = configuredDefaultTarget();
+
+/**
+ * Fills in defaults and derives the build settings for a target.
+ * Unsupported values fall back to the default target.
+ */
+export const resolveTarget = (target: Partial<PluginTarget> = {}): ResolvedTarget => {
+  const requested = {
+    platform: target.platform || DEFAULT_TARGET.platform,
+    mcVersion: target.mcVersion || DEFAULT_TARGET.mcVersion
+  };
+  const { platform, mcVersion } = getTargetError(requested) ? DEFAULT_TARGET : requested;
+  const version = findVersion(mcVersion)!;
+
+  return {
+    platform,
+    mcVersion: version.mcVersion,
+    apiVersion: version.mcVersion.split('.').slice(0, 2).join('.'),
+    javaRelease: version.javaRelease,
+    repository: REPOSITORIES[platform],
+    dependency: { ...API_ARTIFACTS[platform], version: `${version.mcVersion}-R0.1-SNAPSHOT` }
+  };
+};
+
+export const describeTarget = (target: ResolvedTarget): string =>
+  `${target.platform.charAt(0).toUpperCase()}${target.platform.slice(1)} ${target.mcVersion} API ` +
+  `(${target.dependency.groupId}:${target.dependency.artifactId}:${target.dependency.version}), Java ${target.javaRelease}`;
+
+/**
+ * Sets the plugin.yml api-version to the target's. A plugin.yml that isn't valid YAML is left as it is.
+ */
+export const applyTargetToPluginYml = (pluginYml: string, target: ResolvedTarget): string =>
+  updatePluginYml(pluginYml, plugin => ({ ...plugin, apiVersion: target.apiVersion })).content;
+
+// compileOnly/implementation of any server API in a Gradle build script
+const GRADLE_API_DEPENDENCY_PATTERN = /^(\s*)(?:compileOnly|implementation|api)\s*\(?\s*["'](?:io\.papermc\.paper|com\.destroystokyo\.paper|org\.spigotmc|org\.bukkit):[\w.\-]+:[^"']*["']\s*\)?\s*$/m;
+
+/**
+ * Points a Gradle build script (Kotlin DSL) at the target's API dependency, repository and Java release
+ */
+export const applyTargetToGradleBuild = (script: string, target: ResolvedTarget): string => {
+  const { groupId, artifactId, version } = target.dependency;
+  const dependencyLine = `compileOnly("${groupId}:${artifactId}:${version}")`;
+  let updated = script;
+
+  updated = GRADLE_API_DEPENDENCY_PATTERN.test(updated)
+    ? updated.replace(GRADLE_API_DEPENDENCY_PATTERN, `$1${dependencyLine}`)
+    : /^dependencies\s*\{/m.test(updated)
+      ? updated.replace(/^dependencies\s*\{/m, `dependencies {\n    ${dependencyLine}`)
+      : `${updated}\ndependencies {\n    ${dependencyLine}\n}\n`;
+
+  if (!updated.includes(target.repository.url)) {
+    updated = /^repositories\s*\{/m.test(updated)
+      ? updated.replace(/^repositories\s*\{/m, `repositories {\n    maven("${target.repository.url}")`)
+      : `${updated}\nrepositories {\n    mavenCentral()\n    maven("${target.repository.url}")\n}\n`;
+  }
+
+  const release = String(target.javaRelease);
+  updated = updated
+    .replace(/options\.release\.set\(\s*\d+\s*\)/g, `options.release.set(${release})`)
+    .replace(/JavaLanguageVersion\.of\(\s*\d+\s*\)/g, `JavaLanguageVersion.of(${release})`);
+
+  if (!/options\.release\.set|JavaLanguageVersion\.of/.test(updated)) {
+    updated += `\ntasks.withType<JavaCompile>().configureEach {\n    options.release.set(${release})\n}\n`;
+  }
+
+  return updated;
+};
@@ -0,0 +1,229 @@
+import { AsyncLocalStorage } from "async_hooks";
+import fs from "fs";
+import path from "path";
+import { LLMModel, LLMUsage } from "./llm";
+
+// Per-key request rate, concurrent build and LLM token accounting
+
+export interface UsageLimits {
+  requestsPerMinute: number;  // 0 means unlimited for every limit
+  concurrentBuilds: number;
+  dailyTokens: number;
+  monthlyTokens: number;
+}
+
+export interface TokenUsage extends LLMUsage {
+  requests: number; // LLM calls, not HTTP requests
+}
+
+interface KeyUsage {
+  days: Record<string, TokenUsage>;   // YYYY-MM-DD (UTC)
+  months: Record<string, TokenUsage>; // YYYY-MM (UTC)
+}
+
+// Result of a limit check; retryAfter is in seconds
+export type LimitCheck = { allowed: true } | { allowed: false; message: string; retryAfter: number };
+
+export const DEFAULT_LIMITS: UsageLimits = {
+  requestsPerMinute: parseInt(process.env.RATE_LIMIT_PER_MINUTE || "60"),
+  concurrentBuilds: parseInt(process.env.MAX_BUILDS_PER_KEY || "2"),
+  dailyTokens: parseInt(process.env.DAILY_TOKEN_BUDGET || "0"),
+  monthlyTokens: parseInt(process.env.MONTHLY_TOKEN_BUDGET || "0")
+};
+
+const USAGE_FILE = process.env.USAGE_FILE || path.join(__dirname, '../../data/usage.json');
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+// How much history is kept in the usage file
+const KEEP_DAYS = 62;
+const KEEP_MONTHS = 13;
+
+// The key whose LLM calls are being counted, carried through async work
+const usageContext = new AsyncLocalStorage<{ keyId: string }>();
+
+const requestTimes = new Map<string, number[]>();
+const activeBuilds = new Map<string, number>();
+let usage: Record<string, KeyUsage> | null = null;
+
+export const resolveLimits = (overrides: Partial<UsageLimits> = {}): UsageLimits => ({ ...DEFAULT_LIMITS, ...overrides });
+
+const dayKey = (date: Date): string => date.toISOString().slice(0, 10);
+const monthKey = (date: Date): string => date.toISOString().slice(0, 7);
+
+const emptyUsage = (): TokenUsage => ({ promptTokens: 0, completionTokens: 0, totalTokens: 0, requests: 0 });
+
+const secondsUntil = (time: number): number => Math.max(1, Math.ceil((time - Date.now()) / 1000));
+
+const loadUsage = (): Record<string, KeyUsage> => {
+  if (usage) return usage;
+
+  try {
+    usage = fs.existsSync(USAGE_FILE) ? JSON.parse(fs.readFileSync(USAGE_FILE, 'utf8')) : {};
+  } catch (error) {
+    console.error(`Could not read usage from ${USAGE_FILE}:`, error);
+    usage = {};
+  }
+  return usage!;
+};
+
+// Drop old periods so the file doesn't grow forever
+const pruneUsage = (keyUsage: KeyUsage): void => {
+  const now = new Date();
+  const oldestDay = dayKey(new Date(now.getTime() - KEEP_DAYS * 24 * 60 * 60 * 1000));
+  const oldestMonth = monthKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - KEEP_MONTHS, 1)));
+
+  Object.keys(keyUsage.days).filter(day => day < oldestDay).forEach(day => delete keyUsage.days[day]);
+  Object.keys(keyUsage.months).filter(month => month < oldestMonth).forEach(month => delete keyUsage.months[month]);
+};
+
+const saveUsage = (): void => {
+  try {
+    fs.mkdirSync(path.dirname(USAGE_FILE), { recursive: true });
+    const tempPath = `${USAGE_FILE}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(loadUsage(), null, 2));
+    fs.renameSync(tempPath, USAGE_FILE);
+  } catch (error) {
+    console.warn("Could not save usage:", error);
+  }
+};
+
+const addUsage = (total: TokenUsage, tokens: LLMUsage): void => {
+  total.promptTokens += tokens.promptTokens;
+  total.completionTokens += tokens.completionTokens;
+  total.totalTokens += tokens.totalTokens;
+  total.requests += 1;
+};
+
+export const recordTokenUsage = (keyId: string, tokens: LLMUsage): void => {
+  const allUsage = loadUsage();
+  const keyUsage = allUsage[keyId] || (allUsage[keyId] = { days: {}, months: {} });
+  const now = new Date();
+
+  addUsage(keyUsage.days[dayKey(now)] || (keyUsage.days[dayKey(now)] = emptyUsage()), tokens);
+  addUsage(keyUsage.months[monthKey(now)] || (keyUsage.months[monthKey(now)] = emptyUsage()), tokens);
+  pruneUsage(keyUsage);
+  saveUsage();
+};
+
+/**
+ * Runs a task with its LLM calls counted against an API key
+ */
+export const runWithUsageKey = <T>(keyId: string, task: () => T): T => usageContext.run({ keyId }, task);
+
+export const currentUsageKey = (): string | undefined => usageContext.getStore()?.keyId;
+
+/**
+ * Wraps a model so the tokens of every response count against the current API key
+ */
+export const withUsageTracking = (model: LLMModel): LLMModel => ({
+  name: model.name,
+  async generateContent(prompt, options) {
+    const keyId = currentUsageKey();
+    const result = await model.generateContent(prompt, options);
+
+    if (keyId && result.usage) {
+      recordTokenUsage(keyId, result.usage);
+    } else if (keyId) {
+      console.warn(`[USAGE] ${model.name} returned no token usage for key ${keyId}`);
+    }
+    return result;
+  }
+});
+
+/**
+ * Counts a request against the per-minute limit, refusing it when the limit is reached
+ */
+export const checkRequestRate = (keyId: string, limits: UsageLimits): LimitCheck & { remaining: number } => {
+  const now = Date.now();
+  const times = (requestTimes.get(keyId) || []).filter(time => time > now - RATE_WINDOW_MS);
+  requestTimes.set(keyId, times);
+
+  if (limits.requestsPerMinute > 0 && times.length >= limits.requestsPerMinute) {
+    return {
+      allowed: false,
+      message: `Rate limit of ${limits.requestsPerMinute} requests per minute exceeded`,
+      retryAfter: secondsUntil(times[0] + RATE_WINDOW_MS),
+      remaining: 0
+    };
+  }
+
+  times.push(now);
+  return {
+    allowed: true,
+    remaining: limits.requestsPerMinute > 0 ? limits.requestsPerMinute - times.length : -1
+  };
+};
+
+export const getTokenUsage = (keyId: string, date = new Date()): { day: TokenUsage; month: TokenUsage } => {
+  const keyUsage = loadUsage()[keyId];
+  return {
+    day: keyUsage?.days[dayKey(date)] || emptyUsage(),
+    month: keyUsage?.months[monthKey(date)] || emptyUsage()
+  };
+};
+
+/**
+ * Refuses new LLM work once the daily or monthly token budget is used up
+ */
+export const checkTokenBudget = (keyId: string, limits: UsageLimits): LimitCheck => {
+  const now = new Date();
+  const { day, month } = getTokenUsage(keyId, now);
+
+  if (limits.monthlyTokens > 0 && month.totalTokens >= limits.monthlyTokens) {
+    return {
+      allowed: false,
+      message: `Monthly token budget of ${limits.monthlyTokens} tokens used up`,
+      retryAfter: secondsUntil(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+    };
+  }
+
+  if (limits.dailyTokens > 0 && day.totalTokens >= limits.dailyTokens) {
+    return {
+      allowed: false,
+      message: `Daily token budget of ${limits.dailyTokens} tokens used up`,
+      retryAfter: secondsUntil(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    };
+  }
+
+  return { allowed: true };
+};
+
+/**
+ * Takes one of the key's concurrent build slots.
+ * Returns the function that gives it back, or null when all slots are taken.
+ */
+export const acquireBuildSlot = (keyId: string, limits: UsageLimits): (() => void) | null => {
+  const active = activeBuilds.get(keyId) || 0;
+  if (limits.concurrentBuilds > 0 && active >= limits.concurrentBuilds) {
+    return null;
+  }
+
+  activeBuilds.set(keyId, active + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    activeBuilds.set(keyId, Math.max((activeBuilds.get(keyId) || 1) - 1, 0));
+  };
+};
+
+export const getUsageSummary = (keyId: string, limits: UsageLimits) => {
+  const now = Date.now();
+  const { day, month } = getTokenUsage(keyId);
+
+  return {
+    keyId,
+    limits,
+    requestsLastMinute: (requestTimes.get(keyId) || []).filter(time => time > now - RATE_WINDOW_MS).length,
+    activeBuilds: activeBuilds.get(keyId) || 0,
+    tokens: {
+      today: day,
+      thisMonth: month,
+      dailyRemaining: limits.dailyTokens > 0 ? Math.max(limits.dailyTokens - day.totalTokens, 0) : null,
+      monthlyRemaining: limits.monthlyTokens > 0 ? Math.max(limits.monthlyTokens - month.totalTokens, 0) : null
+    }
+  };
+};
+
+export const listUsageKeyIds = (): string[] => Object.keys(loadUsage());
@@ -0,0 +1,251 @@
+import fs from "fs";
+import path from "path";
+import { BUILD_FILES, OUTPUT_DIRS } from "./buildSystems";
+
+// Every read and write under generated-plugins goes through here. Build IDs and
+// project paths come from requests and model output, so both are checked before use.
+
+export interface RejectedFile {
+  path: string;
+  reason: string;
+}
+
+export interface FilteredFiles {
+  files: Record<string, string>; // Accepted files, keyed by their normalized path
+  rejected: RejectedFile[];
+}
+
+// Base directory for plugins
+export const PLUGINS_BASE_DIR = path.join(__dirname, '../../generated-plugins');
+if (!fs.existsSync(PLUGINS_BASE_DIR)) {
+  fs.mkdirSync(PLUGINS_BASE_DIR, { recursive: true });
+}
+
+export const MANIFEST_FILE = 'build.json';
+
+// Files written by the build process rather than the plugin project itself
+export const INTERNAL_FILES = ['prompt.txt', 'build_result.json', 'revisions.json', 'build.log', MANIFEST_FILE];
+
+const PROJECT_TEXT_EXTENSIONS = ['.java', '.yml', '.yaml', '.xml', '.properties', '.json', '.md', '.txt', '.kts', '.gradle'];
+
+// Letters, digits, dashes and underscores, like the generated plugin-<timestamp> IDs
+const BUILD_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,99}$/;
+
+// Where project files may be written: Java sources, text resources and the build file
+const ALLOWED_LOCATIONS: RegExp[] = [
+  /^src\/main\/java\/(?:[A-Za-z_$][\w$]*\/)*[A-Za-z_$][\w$]*\.java$/,
+  /^src\/main\/resources\/(?:[\w-][\w.-]*\/)*[\w-][\w.-]*\.(?:yml|yaml|properties|json|txt|md|xml)$/
+];
+
+// Limits on what one project may contain
+export const MAX_PROJECT_FILES = parseInt(process.env.MAX_PROJECT_FILES || "100");
+export const MAX_PROJECT_BYTES = parseInt(process.env.MAX_PROJECT_BYTES || String(2 * 1024 * 1024));
+const MAX_FILE_BYTES = parseInt(process.env.MAX_FILE_BYTES || String(512 * 1024));
+
+// Told about every file written into a build directory, so it can be copied to shared storage
+type BuildFileListener = (buildId: string, relativePath: string) => void;
+const fileListeners: BuildFileListener[] = [];
+
+export const onBuildFileWritten = (listener: BuildFileListener): void => {
+  fileListeners.push(listener);
+};
+
+const notifyFileWritten = (buildId: string, relativePath: string): void => {
+  fileListeners.forEach(listener => listener(buildId, relativePath));
+};
+
+export const isValidBuildId = (buildId: string): boolean => BUILD_ID_PATTERN.test(buildId);
+
+/**
+ * Returns the directory of a build. Throws for IDs that could point outside generated-plugins.
+ */
+export const getBuildDir = (buildId: string): string => {
+  if (!isValidBuildId(buildId)) {
+    throw new Error(`Invalid build ID "${buildId}"`);
+  }
+  return path.join(PLUGINS_BASE_DIR, buildId);
+};
+
+export const buildExists = (buildId: string): boolean => fs.existsSync(getBuildDir(buildId));
+
+export const listBuildIds = (): string[] =>
+  fs.readdirSync(PLUGINS_BASE_DIR, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory() && isValidBuildId(dirent.name))
+    .map(dirent => dirent.name);
+
+/**
+ * Normalizes a project-relative path to forward slashes, or returns null when it
+ * is absolute or climbs out of the project
+ */
+export const normalizeProjectPath = (filePath: string): string | null => {
+  if (typeof filePath !== 'string' || !filePath.trim() || filePath.includes('\0')) return null;
+
+  const normalized = path.posix.normalize(filePath.trim().replace(/\\/g, '/')).replace(/^(\.\/)+/, '');
+  if (path.posix.isAbsolute(normalized) || /^[A-Za-z]:/.test(normalized)) return null;
+  if (normalized === '..' || normalized.startsWith('../') || normalized === '.') return null;
+
+  return normalized;
+};
+
+/**
+ * Resolves a path inside a build directory. Throws when it would end up outside it.
+ */
+export const resolveBuildPath = (buildId: string, relativePath: string): string => {
+  const buildDir = getBuildDir(buildId);
+  const normalized = normalizeProjectPath(relativePath);
+  const fullPath = normalized ? path.resolve(buildDir, normalized) : null;
+
+  if (!fullPath || !fullPath.startsWith(buildDir + path.sep)) {
+    throw new Error(`Path "${relativePath}" is outside build ${buildId}`);
+  }
+  return fullPath;
+};
+
+// Why a normalized path may not be written, or null when it may
+const getLocationError = (filePath: string): string | null => {
+  if (filePath.split('/').some(segment => segment.startsWith('.'))) {
+    return "Hidden files and directories are not allowed";
+  }
+  if (BUILD_FILES.maven.includes(filePath) || BUILD_FILES.gradle.includes(filePath)) {
+    return null;
+  }
+  if (!ALLOWED_LOCATIONS.some(pattern => pattern.test(filePath))) {
+    return "Only Java sources in src/main/java, text resources in src/main/resources and the build file are allowed";
+  }
+  return null;
+};
+
+/**
+ * Splits model- or user-supplied files into the ones that may be written to a project and the
+ * rejected ones. `existing` holds the files already in the project, which count toward the limits.
+ */
+export const filterProjectFiles = (
+  files: Record<string, string>,
+  existing: Record<string, string> = {}
+): FilteredFiles => {
+  const accepted: Record<string, string> = {};
+  const rejected: RejectedFile[] = [];
+
+  // Start from the existing files that aren't being replaced
+  const finalSizes = new Map(Object.entries(existing).map(([filePath, content]) => [filePath, Buffer.byteLength(content)]));
+  const projectBytes = () => Array.from(finalSizes.values()).reduce((sum, size) => sum + size, 0);
+
+  for (const [filePath, content] of Object.entries(files)) {
+    const normalized = normalizeProjectPath(filePath);
+    const reject = (reason: string) => {
+      rejected.push({ path: filePath, reason });
+      console.warn(`[WORKSPACE] Rejected ${JSON.stringify(filePath)}: ${reason}`);
+    };
+
+    if (!normalized) {
+      reject("Path is absolute or outside the project");
+      continue;
+    }
+
+    const locationError = getLocationError(normalized);
+    if (locationError) {
+      reject(locationError);
+      continue;
+    }
+
+    if (typeof content !== 'string') {
+      reject("File content must be text");
+      continue;
+    }
+
+    const size = Buffer.byteLength(content);
+    if (size > MAX_FILE_BYTES) {
+      reject(`File is larger than ${MAX_FILE_BYTES} bytes`);
+      continue;
+    }
+
+    if (!finalSizes.has(normalized) && finalSizes.size >= MAX_PROJECT_FILES) {
+      reject(`Project would have more than ${MAX_PROJECT_FILES} files`);
+      continue;
+    }
+
+    if (projectBytes() - (finalSizes.get(normalized) || 0) + size > MAX_PROJECT_BYTES) {
+      reject(`Project would be larger than ${MAX_PROJECT_BYTES} bytes`);
+      continue;
+    }
+
+    finalSizes.set(normalized, size);
+    accepted[normalized] = content;
+  }
+
+  return { files: accepted, rejected };
+};
+
+/**
+ * Writes project files into a build directory, creating folders as needed.
+ * Files outside the allowed locations or over the limits are skipped and returned.
+ */
+export const writeProjectFiles = (buildId: string, files: Record<string, string>): RejectedFile[] => {
+  const { files: accepted, rejected } = filterProjectFiles(files, readProjectFiles(buildId));
+
+  for (const [filePath, content] of Object.entries(accepted)) {
+    const fullPath = resolveBuildPath(buildId, filePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+    console.log(`Created file: ${fullPath}`);
+    notifyFileWritten(buildId, filePath);
+  }
+
+  return rejected;
+};
+
+/**
+ * Reads the project sources stored in a build directory (skips build output, history and internal files).
+ * Symbolic links are not followed.
+ */
+export const readProjectFiles = (buildId: string): Record<string, string> => {
+  const buildDir = getBuildDir(buildId);
+  const projectFiles: Record<string, string> = {};
+  if (!fs.existsSync(buildDir)) return projectFiles;
+
+  const walkDir = (dir: string): void => {
+    for (const dirent of fs.readdirSync(dir, { withFileTypes: true })) {
+      // .git holds the build's revision history (see buildHistory)
+      if (dir === buildDir && (OUTPUT_DIRS.includes(dirent.name) || dirent.name === '.git')) continue;
+
+      const filePath = path.join(dir, dirent.name);
+      const relativePath = path.relative(buildDir, filePath).split(path.sep).join('/');
+      if (dirent.isDirectory()) {
+        walkDir(filePath);
+      } else if (dirent.isFile() &&
+                 !INTERNAL_FILES.includes(relativePath) &&
+                 PROJECT_TEXT_EXTENSIONS.includes(path.extname(dirent.name).toLowerCase())) {
+        projectFiles[relativePath] = fs.readFileSync(filePath, 'utf8');
+      }
+    }
+  };
+
+  walkDir(buildDir);
+  return projectFiles;
+};
+
+/**
+ * Reads a file the build process keeps next to the project (see INTERNAL_FILES), or null when missing
+ */
+export const readInternalFile = (buildId: string, fileName: string): string | null => {
+  const filePath = resolveBuildPath(buildId, fileName);
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null;
+};
+
+/**
+ * Writes a file the build process keeps next to the project, atomically
+ */
+export const writeInternalFile = (buildId: string, fileName: string, content: string): void => {
+  if (!INTERNAL_FILES.includes(fileName)) {
+    throw new Error(`${fileName} is not a build process file`);
+  }
+
+  const filePath = resolveBuildPath(buildId, fileName);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  // Write to a temporary file first so readers never see a half-written file
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, content);
+  fs.renameSync(tempPath, filePath);
+  notifyFileWritten(buildId, fileName);
+};
@@ -0,0 +1,106 @@
+import { Readable } from "stream";
+import zlib from "zlib";
+
+// Minimal ZIP writer for downloads: entries are compressed one at a time and streamed,
+// so only a single file is held in memory at once
+
+export interface ZipEntry {
+  name: string;                  // Path inside the archive, with forward slashes
+  content: () => Buffer;         // Read lazily, when the entry is written
+  modifiedAt?: Date;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const EOCD_SIGNATURE = 0x06054b50;
+const UTF8_NAMES_FLAG = 0x0800;
+const VERSION = 20; // 2.0: deflate
+const UNIX_HOST = 3; // Makes the external attributes Unix file modes
+
+// CRC-32 (IEEE) lookup table; zlib.crc32 only exists from Node 20.15 and 22.2
+const CRC_TABLE = Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+export const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index++) {
+    crc = CRC_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time fields; ZIP can't store dates before 1980
+const dosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+/**
+ * Streams a ZIP archive of the given entries. Files are deflated unless that doesn't make them smaller.
+ */
+export const createZipStream = (entries: Iterable<ZipEntry>): Readable => {
+  function* generate(): Generator<Buffer> {
+    const centralDirectory: Buffer[] = [];
+    let offset = 0;
+    let count = 0;
+
+    for (const entry of entries) {
+      const name = Buffer.from(entry.name, 'utf8');
+      const content = entry.content();
+      const deflated = zlib.deflateRawSync(content);
+      const stored = deflated.length >= content.length;
+      const data = stored ? content : deflated;
+      const crc = crc32(content);
+      const { time, date } = dosDateTime(entry.modifiedAt || new Date());
+
+      const header = Buffer.alloc(30);
+      header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+      header.writeUInt16LE(VERSION, 4);
+      header.writeUInt16LE(UTF8_NAMES_FLAG, 6);
+      header.writeUInt16LE(stored ? 0 : 8, 8);
+      header.writeUInt16LE(time, 10);
+      header.writeUInt16LE(date, 12);
+      header.writeUInt32LE(crc, 14);
+      header.writeUInt32LE(data.length, 18);
+      header.writeUInt32LE(content.length, 22);
+      header.writeUInt16LE(name.length, 26);
+      header.writeUInt16LE(0, 28);
+
+      const directoryEntry = Buffer.alloc(46);
+      directoryEntry.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+      directoryEntry.writeUInt16LE((UNIX_HOST << 8) | VERSION, 4);
+      directoryEntry.writeUInt16LE(VERSION, 6);
+      header.copy(directoryEntry, 8, 6, 26); // Flags through sizes are the same as in the local header
+      directoryEntry.writeUInt16LE(name.length, 28);
+      directoryEntry.writeUInt32LE(0o100644 * 0x10000, 38); // Regular file, rw-r--r--
+      directoryEntry.writeUInt32LE(offset, 42);
+      centralDirectory.push(directoryEntry, name);
+
+      yield Buffer.concat([header, name]);
+      yield data;
+      offset += header.length + name.length + data.length;
+      count++;
+    }
+
+    const directory = Buffer.concat(centralDirectory);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(EOCD_SIGNATURE, 0);
+    end.writeUInt16LE(count, 8);
+    end.writeUInt16LE(count, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    yield directory;
+    yield end;
+  }
+
+  return Readable.from(generate(), { objectMode: false });
+};
@@ -0,0 +1,60 @@
+import { NextFunction, Request, Response } from "express";
+import { describe, expect, it, vi } from "vitest";
+import { requireScope, verifyToken } from "../../src/middlewares/authMiddleware";
+import { ApiKeyIdentity } from "../../src/services/apiKeys";
+
+vi.mock("../../src/services/apiKeys", async importOriginal => ({
+  ...await importOriginal<typeof import("../../src/services/apiKeys")>(),
+  authenticateKey: (token: string): ApiKeyIdentity | null =>
+    token === 'reader' ? { id: 'r', name: 'reader', scopes: ['build:read'], limits: {} } : null
+}));
+
+const run = (middleware: (req: Request, res: Response, next: NextFunction) => void, req: Partial<Request>) => {
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  const next = vi.fn();
+  middleware(req as Request, res as unknown as Response, next);
+  return { res, next };
+};
+
+describe('verifyToken', () => {
+  it('attaches the identity of a valid bearer token', () => {
+    const req: Partial<Request> = { headers: { authorization: 'Bearer reader' } };
+    const { next } = run(verifyToken, req);
+    expect(next).toHaveBeenCalled();
+    expect(req.apiKey?.scopes).toEqual(['build:read']);
+  });
+
+  it.each([undefined, 'reader', 'Basic reader', 'Bearer ', 'Bearer unknown'])('rejects the header %j with 401', authorization => {
+    const { res, next } = run(verifyToken, { headers: { authorization } });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
+
+describe('requireScope', () => {
+  const reader: ApiKeyIdentity = { id: 'r', name: 'reader', scopes: ['build:read'], limits: {} };
+  const admin: ApiKeyIdentity = { id: 'a', name: 'admin', scopes: ['admin'], limits: {} };
+
+  it('lets a key with the scope through', () => {
+    const { next } = run(requireScope('build:read'), { apiKey: reader });
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('lets admin keys through for any scope', () => {
+    const { next } = run(requireScope('build:download'), { apiKey: admin });
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('answers 403 naming the missing scope', () => {
+    const { res, next } = run(requireScope('create'), { apiKey: reader });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ message: 'API key is missing the "create" scope' }));
+  });
+
+  it('answers 403 when verifyToken did not run', () => {
+    const { res } = run(requireScope('build:read'), {});
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
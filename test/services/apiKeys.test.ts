@@ -0,0 +1,90 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+// The key file location is read when the module loads, so it is imported after setting it
+let apiKeys: typeof import("../../src/services/apiKeys");
+let keyDir: string;
+
+beforeAll(async () => {
+  keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-'));
+  process.env.API_KEYS_FILE = path.join(keyDir, 'api-keys.json');
+  apiKeys = await import("../../src/services/apiKeys");
+});
+
+afterAll(() => {
+  fs.rmSync(keyDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  delete process.env.API_TOKEN;
+});
+
+describe('hasScope', () => {
+  const identity = (scopes: import("../../src/services/apiKeys").ApiKeyScope[]) =>
+    ({ id: 'k', name: 'k', scopes, limits: {} });
+
+  it('grants only the scopes a key has', () => {
+    expect(apiKeys.hasScope(identity(['build:read']), 'build:read')).toBe(true);
+    expect(apiKeys.hasScope(identity(['build:read']), 'build:download')).toBe(false);
+    expect(apiKeys.hasScope(identity(['create', 'fix']), 'admin')).toBe(false);
+  });
+
+  it('grants every scope to admin keys', () => {
+    for (const scope of apiKeys.API_KEY_SCOPES) {
+      expect(apiKeys.hasScope(identity(['admin']), scope)).toBe(true);
+    }
+  });
+});
+
+describe('authenticateKey', () => {
+  it('returns the scopes of an issued key', () => {
+    const { key, record } = apiKeys.issueKey('ci', ['build:read', 'build:read', 'build:download']);
+
+    expect(key).toMatch(/^pk_[a-f0-9]{12}_[A-Za-z0-9_-]{43}$/);
+    expect(record).not.toHaveProperty('secretHash');
+    expect(record.status).toBe('active');
+    expect(apiKeys.authenticateKey(key)).toEqual({
+      id: record.id,
+      name: 'ci',
+      scopes: ['build:read', 'build:download'],
+      limits: {}
+    });
+  });
+
+  it('never stores the secret', () => {
+    const { key } = apiKeys.issueKey('stored', ['create']);
+    const secret = key.split('_').slice(2).join('_');
+    expect(fs.readFileSync(process.env.API_KEYS_FILE!, 'utf8')).not.toContain(secret);
+  });
+
+  it('rejects unknown, tampered and malformed keys', () => {
+    const { key } = apiKeys.issueKey('tampered', ['create']);
+    const last = key[key.length - 1];
+
+    expect(apiKeys.authenticateKey(`${key.slice(0, -1)}${last === 'A' ? 'B' : 'A'}`)).toBeNull();
+    expect(apiKeys.authenticateKey(key.replace(/^pk_[a-f0-9]{12}/, 'pk_000000000000'))).toBeNull();
+    expect(apiKeys.authenticateKey('pk_short')).toBeNull();
+    expect(apiKeys.authenticateKey('')).toBeNull();
+  });
+
+  it('rejects revoked keys', () => {
+    const { key, record } = apiKeys.issueKey('revoked', ['fix']);
+    expect(apiKeys.revokeKey(record.id)?.status).toBe('revoked');
+    expect(apiKeys.authenticateKey(key)).toBeNull();
+    expect(apiKeys.revokeKey('000000000000')).toBeNull();
+  });
+
+  it('rejects expired keys', () => {
+    const { key, record } = apiKeys.issueKey('expired', ['fix'], new Date(Date.now() - 1000).toISOString());
+    expect(record.status).toBe('expired');
+    expect(apiKeys.authenticateKey(key)).toBeNull();
+  });
+
+  it('accepts API_TOKEN as an admin key', () => {
+    process.env.API_TOKEN = 'legacy-token';
+    expect(apiKeys.authenticateKey('legacy-token')?.scopes).toEqual(['admin']);
+    expect(apiKeys.authenticateKey('legacy-tokem')).toBeNull();
+  });
+});
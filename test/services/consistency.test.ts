@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkConsistency,
+  describeReferencedTypes,
+  formatConsistencyIssue,
+  resolveConsistency
+} from "../../src/services/consistency";
+
+const JAVA = 'src/main/java/com/example/heal';
+const PLUGIN_YML = 'src/main/resources/plugin.yml';
+
+const MAIN = `package com.example.heal;
+
+import org.bukkit.plugin.java.JavaPlugin;
+
+public class HealPlugin extends JavaPlugin {
+  @Override
+  public void onEnable() {
+    getCommand("heal").setExecutor(new HealCommand(this));
+  }
+}
+`;
+
+const COMMAND = `package com.example.heal;
+
+public class HealCommand {
+  private final HealPlugin plugin;
+  private final Cooldowns cooldowns = new Cooldowns(30);
+
+  public HealCommand(HealPlugin plugin) { this.plugin = plugin; }
+
+  public void run(String player) {
+    if (cooldowns.isReady(player)) cooldowns.start(player);
+  }
+}
+`;
+
+const COOLDOWNS = `package com.example.heal;
+
+public class Cooldowns {
+  public Cooldowns(int seconds) {}
+  public boolean isReady(String player) { return true; }
+  public void start(String player, long... extra) {}
+}
+`;
+
+const project = (overrides: Record<string, string> = {}): Record<string, string> => ({
+  [`${JAVA}/HealPlugin.java`]: MAIN,
+  [`${JAVA}/HealCommand.java`]: COMMAND,
+  [`${JAVA}/Cooldowns.java`]: COOLDOWNS,
+  [PLUGIN_YML]: 'name: Heal\nversion: 1.0\nmain: com.example.heal.HealPlugin\ncommands:\n  heal:\n    description: Heals you',
+  ...overrides
+});
+
+describe('checkConsistency', () => {
+  it('finds nothing in a consistent project', () => {
+    expect(checkConsistency(project())).toEqual([]);
+  });
+
+  it('reports a package that does not match the directory', () => {
+    const issues = checkConsistency(project({ [`${JAVA}/Cooldowns.java`]: COOLDOWNS.replace('com.example.heal', 'com.example.util') }));
+    expect(issues).toEqual([{
+      id: 'C1',
+      kind: 'package',
+      file: `${JAVA}/Cooldowns.java`,
+      line: 1,
+      message: 'Package com.example.util does not match the directory (expected com.example.heal)',
+      symbol: 'com.example.heal'
+    }]);
+  });
+
+  it('reports imports of project classes and packages that do not exist', () => {
+    const issues = checkConsistency(project({
+      [`${JAVA}/HealPlugin.java`]: MAIN.replace('import org', 'import com.example.heal.util.Cooldowns;\nimport com.example.heal.missing.*;\nimport org')
+    }));
+    expect(issues.map(issue => [issue.kind, issue.line, issue.symbol])).toEqual([
+      ['import', 3, 'com.example.heal.util.Cooldowns'],
+      ['import', 4, 'com.example.heal.missing']
+    ]);
+  });
+
+  it('reports constructor calls with the wrong number of arguments', () => {
+    const issues = checkConsistency(project({ [`${JAVA}/HealCommand.java`]: COMMAND.replace('new Cooldowns(30)', 'new Cooldowns()') }));
+    expect(issues).toMatchObject([{
+      kind: 'constructor',
+      line: 5,
+      message: 'new Cooldowns(...) passes 0 arguments, but Cooldowns takes (int)',
+      symbol: 'com.example.heal.Cooldowns'
+    }]);
+  });
+
+  it('reports calls to methods a project class does not declare, or with the wrong arity', () => {
+    const issues = checkConsistency(project({
+      [`${JAVA}/HealCommand.java`]: COMMAND.replace('cooldowns.start(player)', 'cooldowns.begin(player); cooldowns.isReady()')
+    }));
+    expect(issues.map(issue => issue.message)).toEqual([
+      'cooldowns.begin(...) calls a method Cooldowns does not declare',
+      'cooldowns.isReady(...) passes 0 arguments, but Cooldowns.isReady takes (String)'
+    ]);
+  });
+
+  it('accepts varargs and leaves types with library supertypes alone', () => {
+    const issues = checkConsistency(project({
+      [`${JAVA}/HealCommand.java`]: COMMAND.replace('cooldowns.start(player)', 'cooldowns.start(player, 1L, 2L); plugin.getLogger()')
+    }));
+    expect(issues).toEqual([]);
+  });
+
+  it('reports commands missing from plugin.yml and commands without an executor', () => {
+    const issues = checkConsistency(project({
+      [`${JAVA}/HealPlugin.java`]: MAIN.replace('getCommand("heal")', 'getCommand("feed")')
+    }));
+    expect(issues.map(issue => [issue.kind, issue.file, issue.symbol])).toEqual([
+      ['command', `${JAVA}/HealPlugin.java`, 'feed'],
+      ['command', PLUGIN_YML, 'heal']
+    ]);
+  });
+
+  it('does not require executors when the main class handles onCommand', () => {
+    const main = MAIN.replace('getCommand("heal").setExecutor(new HealCommand(this));', '')
+      .replace(/}\n$/, '  public boolean onCommand(CommandSender sender, Command command, String label, String[] args) { return true; }\n}\n');
+    expect(checkConsistency(project({ [`${JAVA}/HealPlugin.java`]: main }))).toEqual([]);
+  });
+});
+
+describe('resolveConsistency', () => {
+  it('fixes packages, follows them in imports and declares missing commands', () => {
+    const files = project({
+      'src/main/java/com/example/heal/util/Texts.java': 'package com.example.heal;\npublic class Texts { public static String color(String text) { return text; } }',
+      [`${JAVA}/HealCommand.java`]: `package com.example.heal;\nimport com.example.heal.Texts;\n${COMMAND.split('\n').slice(1).join('\n')}`,
+      [`${JAVA}/HealPlugin.java`]: MAIN.replace('getCommand("heal").setExecutor(new HealCommand(this));', '$&\n    getCommand("feed").setExecutor(new HealCommand(this));')
+    });
+
+    const { files: fixed, fixed: fixedIssues, remaining } = resolveConsistency(files);
+
+    expect(remaining).toEqual([]);
+    expect(fixedIssues.map(issue => issue.kind)).toEqual(['package', 'command']);
+    expect(fixed['src/main/java/com/example/heal/util/Texts.java']).toMatch(/^package com\.example\.heal\.util;/);
+    expect(fixed[`${JAVA}/HealCommand.java`]).toContain('import com.example.heal.util.Texts;');
+    expect(fixed[PLUGIN_YML]).toContain('feed:');
+  });
+
+  it('adds a missing package declaration', () => {
+    const { files, remaining } = resolveConsistency(project({ [`${JAVA}/Cooldowns.java`]: COOLDOWNS.replace(/^package [^\n]+\n/, '') }));
+    expect(remaining).toEqual([]);
+    expect(files[`${JAVA}/Cooldowns.java`]).toMatch(/^package com\.example\.heal;\n\n/);
+  });
+
+  it('points imports at the one project class with that name', () => {
+    const { files, remaining } = resolveConsistency(project({
+      [`${JAVA}/HealPlugin.java`]: MAIN.replace('import org', 'import com.example.heal.util.Cooldowns;\nimport org')
+    }));
+    expect(remaining).toEqual([]);
+    expect(files[`${JAVA}/HealPlugin.java`]).toContain('import com.example.heal.Cooldowns;');
+  });
+
+  it('leaves what it cannot fix for the model', () => {
+    const files = project({ [`${JAVA}/HealCommand.java`]: COMMAND.replace('new Cooldowns(30)', 'new Cooldowns(30, 60)') });
+    const result = resolveConsistency(files);
+    expect(result.files).toEqual(files);
+    expect(result.fixed).toEqual([]);
+    expect(result.remaining.map(formatConsistencyIssue)).toEqual([
+      `[C1] constructor ${JAVA}/HealCommand.java:5: new Cooldowns(...) passes 2 arguments, but Cooldowns takes (int)`
+    ]);
+    expect(describeReferencedTypes(result.files, result.remaining).map(type => type.qualifiedName)).toEqual(['com.example.heal.Cooldowns']);
+  });
+});
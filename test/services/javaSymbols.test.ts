@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import {
+  acceptsArity,
+  buildSymbolTable,
+  countArguments,
+  findQualifiedCalls,
+  formatTypeDeclarations,
+  maskSource,
+  parseJavaSource,
+  resolveType,
+  splitTopLevel
+} from "../../src/services/javaSymbols";
+
+const SHOP = `package com.example.shop;
+
+import java.util.List;
+import java.util.*;
+import static java.lang.Math.max;
+
+/** A shop with a {@code new Fake()} in its docs */
+public class Shop extends Base implements Listener, Comparable<Shop> {
+  private static final String NAME = "Shop(\\"x\\")";
+  private final List<Item> items;
+  protected int size, capacity;
+
+  public Shop(List<Item> items) { this.items = items; }
+  public Shop() { this(List.of()); }
+
+  @Override
+  public <T extends Item> void add(T item, int... counts) {
+    char c = '{';
+  }
+
+  public static Map<String, List<Item>> index() { return null; }
+
+  enum Kind { SMALL, LARGE; Kind next() { return this; } }
+  interface Hook { void run(); }
+  record Price(int amount, String currency) {}
+}
+`;
+
+describe('maskSource', () => {
+  it('blanks comments and literals but keeps offsets, lines and quotes', () => {
+    const source = 'int a = 1; // note\n/* block\n */ String s = "a;b\\"c"; char c = \';\';\nString t = """\n  text\n  """;';
+    const masked = maskSource(source);
+
+    expect(masked).toHaveLength(source.length);
+    expect(masked.split('\n')).toHaveLength(source.split('\n').length);
+    expect(masked).not.toMatch(/note|block|a;b|text/);
+    expect(masked).toContain('String s = "      ";');
+    expect(masked).toContain("char c = ' ';");
+  });
+});
+
+describe('splitTopLevel and countArguments', () => {
+  it('splits outside brackets and type arguments', () => {
+    expect(splitTopLevel('a, Map<K, V> m, f(b, c), () -> x').map(part => part.trim()))
+      .toEqual(['a', 'Map<K, V> m', 'f(b, c)', '() -> x']);
+  });
+
+  it('counts the arguments of a call', () => {
+    const count = (call: string) => countArguments(call, call.indexOf('('));
+    expect(count('f()')).toBe(0);
+    expect(count('f(a)')).toBe(1);
+    expect(count('f(a, g(b, c), new int[] {1, 2})')).toBe(3);
+    expect(count('f(new HashMap<String, List<Integer>>(), x)')).toBe(2);
+    expect(count('f(a < b, c)')).toBe(2);
+  });
+
+  it('accepts varargs calls with any number of trailing arguments', () => {
+    const method = { parameters: ['String', 'Object...'] };
+    expect([0, 1, 2, 5].map(arity => acceptsArity(method, arity))).toEqual([false, true, true, true]);
+    expect(acceptsArity({ parameters: ['int'] }, 2)).toBe(false);
+  });
+});
+
+describe('parseJavaSource', () => {
+  const source = parseJavaSource('src/main/java/com/example/shop/Shop.java', SHOP);
+
+  it('reads the package and imports', () => {
+    expect(source.packageName).toBe('com.example.shop');
+    expect(source.packageLine).toBe(1);
+    expect(source.imports).toEqual([
+      { name: 'java.util.List', isStatic: false, isWildcard: false, line: 3 },
+      { name: 'java.util', isStatic: false, isWildcard: true, line: 4 },
+      { name: 'java.lang.Math.max', isStatic: true, isWildcard: false, line: 5 }
+    ]);
+  });
+
+  it('reads top-level and nested types', () => {
+    expect(source.types.map(type => [type.qualifiedName, type.kind])).toEqual([
+      ['com.example.shop.Shop', 'class'],
+      ['com.example.shop.Shop.Kind', 'enum'],
+      ['com.example.shop.Shop.Hook', 'interface'],
+      ['com.example.shop.Shop.Price', 'record']
+    ]);
+    const [shop] = source.types;
+    expect(shop).toMatchObject({ superclass: 'Base', interfaces: ['Listener', 'Comparable<Shop>'], line: 8 });
+  });
+
+  it('reads fields, constructors and methods', () => {
+    const [shop] = source.types;
+    expect(shop.fields.map(field => [field.name, field.type, field.isStatic])).toEqual([
+      ['NAME', 'String', true],
+      ['items', 'List<Item>', false],
+      ['size', 'int', false],
+      ['capacity', 'int', false]
+    ]);
+    expect(shop.constructors.map(constructor => constructor.parameters)).toEqual([['List<Item>'], []]);
+    expect(shop.methods.map(method => [method.name, method.returnType, method.parameters, method.isStatic])).toEqual([
+      ['add', 'void', ['T', 'int...'], false],
+      ['index', 'Map<String,List<Item>>', [], true]
+    ]);
+  });
+
+  it('ignores declarations inside comments and strings', () => {
+    const file = parseJavaSource('A.java', '// class Fake {}\nclass A { String s = "class Other {}"; }');
+    expect(file.types.map(type => type.name)).toEqual(['A']);
+    expect(file.packageName).toBeNull();
+  });
+});
+
+describe('symbol table', () => {
+  const table = buildSymbolTable({
+    'src/main/java/com/example/Main.java': [
+      'package com.example;',
+      'import com.example.shop.*;',
+      'import com.example.util.Texts;',
+      'public class Main {',
+      '  private Shop shop;',
+      '  void run(Player player) {',
+      '    Shop.Kind kind = Shop.Kind.SMALL;',
+      '    shop.add(item, 1, 2);',
+      '    Texts.color("a");',
+      '    player.getInventory().clear();',
+      '    this.shop.index();',
+      '  }',
+      '}'
+    ].join('\n'),
+    'src/main/java/com/example/shop/Shop.java': SHOP,
+    'src/main/java/com/example/util/Texts.java': 'package com.example.util;\npublic final class Texts { public static String color(String text) { return text; } }',
+    'README.md': 'class NotJava {}'
+  });
+  const main = 'src/main/java/com/example/Main.java';
+
+  it('indexes the types of Java files by qualified name', () => {
+    expect([...table.types.keys()]).toEqual([
+      'com.example.Main',
+      'com.example.shop.Shop',
+      'com.example.shop.Shop.Kind',
+      'com.example.shop.Shop.Hook',
+      'com.example.shop.Shop.Price',
+      'com.example.util.Texts'
+    ]);
+  });
+
+  it('resolves names through imports, wildcards, the package and nesting', () => {
+    expect(resolveType(table, main, 'Texts')?.qualifiedName).toBe('com.example.util.Texts');
+    expect(resolveType(table, main, 'Shop')?.qualifiedName).toBe('com.example.shop.Shop');
+    expect(resolveType(table, main, 'Shop.Kind')?.qualifiedName).toBe('com.example.shop.Shop.Kind');
+    expect(resolveType(table, main, 'Main[]')?.qualifiedName).toBe('com.example.Main');
+    expect(resolveType(table, main, 'com.example.util.Texts')?.qualifiedName).toBe('com.example.util.Texts');
+    expect(resolveType(table, 'src/main/java/com/example/shop/Shop.java', 'Kind')?.qualifiedName).toBe('com.example.shop.Shop.Kind');
+    expect(resolveType(table, main, 'Player')).toBeNull();
+  });
+
+  it('finds qualified calls with their receiver types and arity', () => {
+    expect(findQualifiedCalls(table, main).map(call => [call.receiver, call.receiverType, call.method, call.arity, call.line])).toEqual([
+      ['shop', 'Shop', 'add', 3, 8],
+      ['Texts', 'Texts', 'color', 1, 9],
+      ['player', 'Player', 'getInventory', 0, 10],
+      ['shop', 'Shop', 'index', 0, 11]
+    ]);
+  });
+
+  it('formats the declarations of a type', () => {
+    expect(formatTypeDeclarations(table.types.get('com.example.util.Texts')!)).toBe([
+      'class com.example.util.Texts (src/main/java/com/example/util/Texts.java)',
+      '  static String color(String)'
+    ].join('\n'));
+  });
+});
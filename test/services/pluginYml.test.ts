@@ -0,0 +1,259 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkPluginYml,
+  emptyPluginYml,
+  parsePluginYml,
+  parseYaml,
+  PluginYml,
+  serializePluginYml,
+  updatePluginYml
+} from "../../src/services/pluginYml";
+
+const roundTrip = (plugin: PluginYml): PluginYml | null => parsePluginYml(serializePluginYml(plugin)).plugin;
+
+describe('parseYaml', () => {
+  it('keeps scalars as strings', () => {
+    expect(parseYaml('api-version: 1.20\nversion: 1.0\nenabled: true\ncount: 3')).toEqual({
+      'api-version': '1.20', version: '1.0', enabled: 'true', count: '3'
+    });
+  });
+
+  it('reads empty values, ~ and null as null but keeps quoted ones', () => {
+    expect(parseYaml('a:\nb: ~\nc: null\nd: "null"\ne: \'\'')).toEqual({ a: null, b: null, c: null, d: 'null', e: '' });
+  });
+
+  it('ignores comments but not # inside values', () => {
+    expect(parseYaml([
+      '# Generated plugin',
+      'name: Demo # the name',
+      'prefix: "#demo"',
+      'website: https://example.com/#top',
+      '  # indented comment',
+      'main: com.example.Demo'
+    ].join('\n'))).toEqual({ name: 'Demo', prefix: '#demo', website: 'https://example.com/#top', main: 'com.example.Demo' });
+  });
+
+  it('resolves anchors, aliases and merge keys', () => {
+    const parsed = parseYaml([
+      'defaults: &defaults',
+      '  usage: /<command>',
+      '  permission: demo.use',
+      'commands:',
+      '  heal:',
+      '    <<: *defaults',
+      '    description: Heals you',
+      '  feed: *defaults'
+    ].join('\n'));
+    expect(parsed).toMatchObject({
+      commands: {
+        heal: { usage: '/<command>', permission: 'demo.use', description: 'Heals you' },
+        feed: { usage: '/<command>', permission: 'demo.use' }
+      }
+    });
+  });
+
+  it('reads literal, folded and multi-line plain scalars', () => {
+    expect(parseYaml([
+      'literal: |',
+      '  first',
+      '  second',
+      'stripped: |-',
+      '  only',
+      'folded: >',
+      '  one',
+      '  two',
+      'plain: a long',
+      '  description',
+      'quoted: "split',
+      '  over lines"'
+    ].join('\n'))).toEqual({
+      literal: 'first\nsecond\n',
+      stripped: 'only',
+      folded: 'one two\n',
+      plain: 'a long description',
+      quoted: 'split over lines'
+    });
+  });
+
+  it('reads flow collections and quoted strings', () => {
+    expect(parseYaml("depend: [Vault, 'World Edit', \"It's\"]\nmeta: {a: 1, b: [x]}\nescaped: \"tab\\there\"")).toEqual({
+      depend: ['Vault', 'World Edit', "It's"],
+      meta: { a: '1', b: ['x'] },
+      escaped: 'tab\there'
+    });
+  });
+
+  it('strips a byte order mark', () => {
+    expect(parseYaml('\uFEFFname: Demo')).toEqual({ name: 'Demo' });
+  });
+
+  it('returns null for an empty document', () => {
+    expect(parseYaml('# nothing here\n')).toBeNull();
+  });
+
+  it.each([
+    ['duplicate keys', 'name: A\nname: B', 2],
+    ['tab indentation', 'commands:\n\theal: {}', 2],
+    ['unterminated quotes', "name: A\nmain: 'com.example", 2],
+    ['undefined aliases', 'commands: *missing', 1]
+  ])('reports %s with the line', (_name, content, line) => {
+    expect(() => parseYaml(content)).toThrow(new RegExp(`^Line ${line}: `));
+  });
+});
+
+describe('parsePluginYml', () => {
+  const valid = [
+    'name: Demo',
+    "version: '1.0'",
+    'main: com.example.demo.Demo',
+    'api-version: 1.20',
+    'authors: [Ann, Bob]',
+    'depend: Vault',
+    'load: postworld',
+    'commands:',
+    '  heal:',
+    '    description: Heals you',
+    '    aliases: h',
+    'permissions:',
+    '  demo.*:',
+    '    default: isop',
+    '    children:',
+    '      demo.heal: true',
+    '      demo.feed: false',
+    '  demo.list:',
+    '    children: [demo.heal]',
+    'custom-key:',
+    '  nested: [1, 2]'
+  ].join('\n');
+
+  it('reads a plugin.yml into the model', () => {
+    const { plugin, errors } = parsePluginYml(valid);
+    expect(errors).toEqual([]);
+    expect(plugin).toMatchObject({
+      name: 'Demo',
+      version: '1.0',
+      apiVersion: '1.20',
+      authors: ['Ann', 'Bob'],
+      depend: ['Vault'],
+      load: 'POSTWORLD',
+      commands: { heal: { description: 'Heals you', aliases: ['h'] } },
+      permissions: {
+        'demo.*': { default: 'op', children: { 'demo.heal': true, 'demo.feed': false } },
+        'demo.list': { children: { 'demo.heal': true } }
+      },
+      extra: { 'custom-key': { nested: ['1', '2'] } }
+    });
+  });
+
+  it('reports invalid YAML without a model', () => {
+    const { plugin, errors } = parsePluginYml('name: [Demo');
+    expect(plugin).toBeNull();
+    expect(errors[0]).toMatch(/^plugin\.yml is not valid YAML\. Line 1: /);
+  });
+
+  it('reports schema errors', () => {
+    const { errors } = parsePluginYml([
+      'name: My Plugin!',
+      'main: Demo',
+      'api-version: 1.8',
+      'depend: [My Plugin!]',
+      'commands:',
+      '  heal: {aliases: [heal]}',
+      '  "bad name": {}',
+      'permissions:',
+      '  demo.use: {default: sometimes}'
+    ].join('\n'));
+    expect(errors).toEqual(expect.arrayContaining([
+      'permissions.demo.use.default must be true, false, op or not op (found "sometimes")',
+      'name "My Plugin!" may only contain letters, digits, spaces, underscores, dots and dashes',
+      'version is required',
+      'main "Demo" is not a fully qualified Java class name',
+      'api-version "1.8" must be a Minecraft version from 1.13 on, like 1.20',
+      'depend lists the plugin itself',
+      'commands.bad name: command names may not contain spaces or colons',
+      'commands.heal.aliases: "heal" is also the name of a command'
+    ]));
+  });
+});
+
+describe('serializePluginYml', () => {
+  it('round-trips the model of a parsed plugin.yml', () => {
+    const parsed = parsePluginYml([
+      '# comments are not kept, values are',
+      'defaults: &defaults',
+      '  permission: demo.use',
+      'name: Demo',
+      'version: 2.0',
+      'main: com.example.Demo',
+      'description: >',
+      '  Heals players',
+      '  on demand',
+      'commands:',
+      '  heal:',
+      '    <<: *defaults',
+      '    usage: |',
+      '      /heal [player]',
+      '      /heal all'
+    ].join('\n')).plugin!;
+
+    expect(parsed.commands.heal).toMatchObject({ permission: 'demo.use', usage: '/heal [player]\n/heal all\n' });
+    expect(roundTrip(parsed)).toEqual(parsed);
+  });
+
+  it('quotes values YAML would read as something else', () => {
+    const plugin: PluginYml = {
+      ...emptyPluginYml(),
+      name: 'Demo',
+      version: '1.0',
+      main: 'com.example.Demo',
+      apiVersion: '1.20',
+      description: 'yes',
+      prefix: '[Demo] #1: "best"',
+      author: "it's: me",
+      authors: ['null', '~', '12', 'a, b'],
+      website: ' padded ',
+      extra: { 'on': 'off', list: ['true', null], empty: {}, nested: { '- key': '*star' } }
+    };
+
+    const serialized = serializePluginYml(plugin);
+    expect(serialized).toContain("version: '1.0'");
+    expect(serialized).toContain("api-version: '1.20'");
+    expect(roundTrip(plugin)).toEqual(plugin);
+  });
+
+  it('round-trips multi-line strings, unicode and backslashes', () => {
+    const plugin: PluginYml = {
+      ...emptyPluginYml(),
+      name: 'Demo',
+      version: '1.0',
+      main: 'com.example.Demo',
+      description: 'Line one\nLine "two" with a \\ backslash\n\nÄpfel & 🍎',
+      commands: { heal: { aliases: [], usage: '/heal\t<player>' } },
+      permissions: { 'demo.heal': { description: 'Heal\nothers', default: 'not op', children: { 'demo.feed': false } } }
+    };
+    expect(roundTrip(plugin)).toEqual(plugin);
+  });
+});
+
+describe('updatePluginYml', () => {
+  it('applies the update and re-serializes', () => {
+    const { content, errors } = updatePluginYml('name: Demo\nversion: 1.0\nmain: com.example.Demo', plugin => ({ ...plugin, apiVersion: '1.21' }));
+    expect(errors).toEqual([]);
+    expect(content).toBe("name: Demo\nversion: '1.0'\nmain: com.example.Demo\napi-version: '1.21'\n");
+  });
+
+  it('leaves content it cannot parse unchanged', () => {
+    const content = 'name: "Demo';
+    expect(updatePluginYml(content, plugin => plugin).content).toBe(content);
+  });
+});
+
+describe('checkPluginYml', () => {
+  it('finds plugin.yml anywhere in the project', () => {
+    expect(checkPluginYml({ 'src/main/resources/plugin.yml': 'name: Demo\nversion: 1\nmain: com.example.Demo' })).toEqual([]);
+  });
+
+  it('reports a missing plugin.yml', () => {
+    expect(checkPluginYml({ 'pom.xml': '<project/>' })).toEqual(['plugin.yml is missing; the server will not load the plugin without it']);
+  });
+});
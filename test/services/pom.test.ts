@@ -0,0 +1,273 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkPom,
+  childElement,
+  childElements,
+  createPom,
+  elementText,
+  normalizePom,
+  parseXml,
+  serializeXml,
+  XmlElement
+} from "../../src/services/pom";
+import { resolveTarget } from "../../src/services/targets";
+
+const target = resolveTarget({ platform: 'paper', mcVersion: '1.20.4' });
+
+const parseRoot = (content: string): XmlElement => {
+  const { root, error } = parseXml(content);
+  expect(error).toBeNull();
+  return root!;
+};
+
+const reserialize = (content: string): string => {
+  const { root, leadingComments } = parseXml(content);
+  return serializeXml(root!, leadingComments);
+};
+
+const path = (element: XmlElement, ...names: string[]): XmlElement | null =>
+  names.reduce<XmlElement | null>((current, name) => current && childElement(current, name), element);
+
+// Serializing is stable: a second parse and serialize gives the same text
+const expectStableRoundTrip = (content: string): string => {
+  parseRoot(content);
+  const serialized = reserialize(content);
+  expect(reserialize(serialized)).toBe(serialized);
+  return serialized;
+};
+
+describe('parseXml', () => {
+  it('builds an element tree with positions', () => {
+    const root = parseRoot('<?xml version="1.0"?>\n<project>\n  <name a="1" b=\'2\'>Demo</name>\n  <empty/>\n</project>');
+    expect(root.name).toBe('project');
+    expect(root.line).toBe(2);
+
+    const name = childElement(root, 'name')!;
+    expect(name).toMatchObject({ line: 3, column: 3, attributes: [['a', '1'], ['b', '2']] });
+    expect(elementText(name)).toBe('Demo');
+    expect(childElements(root).map(element => element.name)).toEqual(['name', 'empty']);
+  });
+
+  it('keeps comments, CDATA and entities as written', () => {
+    const root = parseRoot('<project><!-- a <comment> & more --><a><![CDATA[<b> & </b>]]></a><c>x &amp; &lt;y&gt; &#169;</c></project>');
+    expect(root.children[0]).toEqual({ type: 'comment', text: ' a <comment> & more ' });
+    expect(childElement(root, 'a')!.children).toEqual([{ type: 'cdata', text: '<b> & </b>' }]);
+    expect(childElement(root, 'c')!.children).toEqual([{ type: 'text', text: 'x &amp; &lt;y&gt; &#169;' }]);
+  });
+
+  it('skips DOCTYPE and processing instructions', () => {
+    const root = parseRoot('<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE project>\n<?pi data?>\n<project/>');
+    expect(root.name).toBe('project');
+  });
+
+  it.each([
+    ['an unclosed element', '<project>\n  <name>Demo\n</project>', /"name" \(line 2\) must be terminated by the matching end tag/, 3, 1],
+    ['a never closed root', '<project>\n  <name/>', /"project" \(line 1\) is never closed/, 2, 10],
+    ['an unescaped ampersand', '<project>\n  <url>a?b&c</url>\n</project>', /Unescaped "&"/, 2, 11],
+    ['an unterminated comment', '<project>\n<!-- open\n</project>', /Unterminated comment/, 2, 1],
+    ['an unterminated CDATA section', '<project><![CDATA[x</project>', /Unterminated CDATA section/, 1, 10],
+    ['a duplicate attribute', '<project a="1" a="2"/>', /Attribute "a" appears twice/, 1, 16],
+    ['text before the root', 'pom:\n<project/>', /not allowed before the root element/, 1, 1],
+    ['a second root', '<project/>\n<project/>', /Only one root element/, 2, 1],
+    ['a late XML declaration', '<!-- x -->\n<?xml version="1.0"?><project/>', /XML declaration must be at the very start/, 2, 1],
+    ['an empty file', '', /no root element/, 1, 1]
+  ])('reports %s with its position', (_name, content, message, line, column) => {
+    const { root, error } = parseXml(content);
+    expect(root).toBeNull();
+    expect(error).toMatchObject({ line, column });
+    expect(error!.message).toMatch(message);
+  });
+});
+
+describe('elementText', () => {
+  it('trims and decodes predefined entities and CDATA', () => {
+    const root = parseRoot('<a>  &lt;tag&gt; &amp;&amp; &quot;q&quot; &apos;s&apos; <![CDATA[&amp;]]>  </a>');
+    expect(elementText(root)).toBe('<tag> && "q" \'s\' &amp;');
+  });
+
+  it('decodes character references', () => {
+    expect(elementText(parseRoot('<a>&#169; &#x41;&#x42; &#128512;</a>'))).toBe('© AB 😀');
+  });
+
+  it('does not decode twice', () => {
+    expect(elementText(parseRoot('<a>&amp;lt;</a>'))).toBe('&lt;');
+  });
+
+  it('is null for a missing element', () => {
+    expect(elementText(null)).toBeNull();
+  });
+});
+
+describe('serializeXml', () => {
+  it('indents with four spaces and keeps text elements on one line', () => {
+    expect(serializeXml(parseRoot('<project><name>  Demo </name><build><plugins/></build></project>'))).toBe([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<project>',
+      '    <name>Demo</name>',
+      '    <build>',
+      '        <plugins/>',
+      '    </build>',
+      '</project>',
+      ''
+    ].join('\n'));
+  });
+
+  it('round-trips comments, CDATA, entities and attributes', () => {
+    const serialized = expectStableRoundTrip([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!-- License header -->',
+      '<project xmlns="http://maven.apache.org/POM/4.0.0" data-x=\'a &amp; "b"\'>',
+      '  <!-- Coordinates -->',
+      '  <name>Tom &amp; Jerry &#169;</name>',
+      '  <description><![CDATA[Uses <b>bold</b> & more]]></description>',
+      '  <mixed>a<![CDATA[<b>]]>c</mixed>',
+      '  <build>',
+      '    <!-- multi',
+      '         line -->',
+      '    <plugins/>',
+      '  </build>',
+      '</project>'
+    ].join('\n'));
+
+    expect(serialized).toContain('<!-- License header -->\n<project');
+    expect(serialized).toContain('    <!-- Coordinates -->');
+    expect(serialized).toContain('<name>Tom &amp; Jerry &#169;</name>');
+    expect(serialized).toContain('<description><![CDATA[Uses <b>bold</b> & more]]></description>');
+    expect(serialized).toContain('<mixed>a<![CDATA[<b>]]>c</mixed>');
+    expect(serialized).toContain('<!-- multi\n         line -->');
+    expect(serialized).toContain('data-x="a &amp; &quot;b&quot;"');
+
+    const root = parseRoot(serialized);
+    expect(elementText(childElement(root, 'name'))).toBe('Tom & Jerry ©');
+    expect(elementText(childElement(root, 'description'))).toBe('Uses <b>bold</b> & more');
+  });
+});
+
+describe('normalizePom', () => {
+  const normalize = (content: string) => {
+    const result = normalizePom(content, 'HealPlugin', target);
+    return { ...result, root: parseRoot(result.content) };
+  };
+
+  it('creates a house-standard pom', () => {
+    const root = parseRoot(createPom('HealPlugin', target));
+
+    expect(elementText(childElement(root, 'groupId'))).toBe('com.pegasus.healplugin');
+    expect(elementText(childElement(root, 'artifactId'))).toBe('healplugin');
+    expect(elementText(childElement(root, 'version'))).toBe('1.0-SNAPSHOT');
+    expect(elementText(path(root, 'properties', 'maven.compiler.release'))).toBe(String(target.javaRelease));
+    expect(childElements(root).map(element => element.name))
+      .toEqual(['modelVersion', 'groupId', 'artifactId', 'version', 'packaging', 'properties', 'repositories', 'dependencies', 'build']);
+
+    const [dependency] = childElements(path(root, 'dependencies')!);
+    expect(elementText(childElement(dependency, 'artifactId'))).toBe(target.dependency.artifactId);
+    expect(elementText(childElement(dependency, 'scope'))).toBe('provided');
+
+    const plugins = childElements(path(root, 'build', 'plugins')!).map(plugin => elementText(childElement(plugin, 'artifactId')));
+    expect(plugins).toEqual(['maven-compiler-plugin', 'maven-shade-plugin']);
+  });
+
+  it('replaces the server API, source/target and an old compiler plugin', () => {
+    const { root, diagnostics } = normalize([
+      '<project>',
+      '  <version>2.1</version>',
+      '  <properties>',
+      '    <maven.compiler.source>1.8</maven.compiler.source>',
+      '    <maven.compiler.target>1.8</maven.compiler.target>',
+      '  </properties>',
+      '  <dependencies>',
+      '    <dependency><groupId>org.spigotmc</groupId><artifactId>spigot-api</artifactId><version>1.8</version></dependency>',
+      '    <dependency><groupId>com.google.code.gson</groupId><artifactId>gson</artifactId><version>2.10</version></dependency>',
+      '  </dependencies>',
+      '  <build><plugins><plugin>',
+      '    <artifactId>maven-compiler-plugin</artifactId><version>3.1</version>',
+      '    <configuration><source>8</source><target>8</target></configuration>',
+      '  </plugin></plugins></build>',
+      '</project>'
+    ].join('\n'));
+
+    expect(diagnostics).toEqual([]);
+    expect(elementText(childElement(root, 'version'))).toBe('2.1');
+    expect(childElements(path(root, 'properties')!).map(property => property.name))
+      .toEqual(['maven.compiler.release', 'project.build.sourceEncoding']);
+    expect(childElements(path(root, 'dependencies')!).map(dependency => elementText(childElement(dependency, 'artifactId'))))
+      .toEqual([target.dependency.artifactId, 'gson']);
+
+    const [compiler] = childElements(path(root, 'build', 'plugins')!);
+    expect(elementText(childElement(compiler, 'version'))).toBe('3.13.0');
+    expect(childElements(childElement(compiler, 'configuration')!).map(setting => setting.name)).toEqual(['release']);
+  });
+
+  it('keeps comments and an existing shade execution', () => {
+    const { content, root } = normalize([
+      'Here is your pom:',
+      '```xml',
+      '<!-- header -->',
+      '<project>',
+      '  <!-- keep me -->',
+      '  <build><plugins><plugin>',
+      '    <artifactId>maven-shade-plugin</artifactId>',
+      '    <executions><execution><id>bundle</id><goals><goal>shade</goal></goals></execution></executions>',
+      '  </plugin></plugins></build>',
+      '</project>',
+      '```'
+    ].join('\n'));
+
+    expect(content).toMatch(/^<\?xml [^\n]*\n<!-- header -->\n<project /);
+    expect(content).toContain('<!-- keep me -->');
+    const shade = childElements(path(root, 'build', 'plugins')!)[1];
+    const executions = childElements(childElement(shade, 'executions')!);
+    expect(executions).toHaveLength(1);
+    expect(elementText(childElement(executions[0], 'phase'))).toBe('package');
+  });
+
+  it('is idempotent', () => {
+    const once = normalizePom('<project><name>A &amp; B</name></project>', 'HealPlugin', target).content;
+    expect(normalizePom(once, 'HealPlugin', target).content).toBe(once);
+  });
+
+  it('reports malformed XML and leaves it unchanged apart from trimming', () => {
+    const { content, diagnostics } = normalizePom('```xml\n<project>\n  <name>Demo</nam>\n</project>\n```', 'HealPlugin', target);
+    expect(content).toBe('<project>\n  <name>Demo</nam>\n</project>');
+    expect(diagnostics).toMatchObject([{ id: 'P1', kind: 'pom', line: 2, message: expect.stringMatching(/^Non-parseable POM: /) }]);
+  });
+});
+
+describe('checkPom', () => {
+  it('reports missing coordinates where they are', () => {
+    const diagnostics = checkPom({
+      'pom.xml': [
+        '<project>',
+        '  <dependencies>',
+        '    <dependency><groupId>g</groupId><artifactId>a</artifactId></dependency>',
+        '  </dependencies>',
+        '  <build><plugins>',
+        '    <plugin><groupId>g</groupId></plugin>',
+        '  </plugins></build>',
+        '</project>'
+      ].join('\n')
+    });
+    expect(diagnostics).toMatchObject([
+      { id: 'P1', line: 3, message: "'dependencies.dependency.version' for g:a is missing", symbol: 'g:a' },
+      { id: 'P2', line: 6, message: "'build.plugins.plugin.artifactId' is missing" }
+    ]);
+  });
+
+  it('does not require versions managed by a parent', () => {
+    expect(checkPom({ 'pom.xml': '<project><parent/><dependencies><dependency><groupId>g</groupId><artifactId>a</artifactId></dependency></dependencies></project>' }))
+      .toEqual([]);
+  });
+
+  it('rejects a root other than project', () => {
+    expect(checkPom({ 'pom.xml': '<pom/>' })).toMatchObject([{ message: 'The root element must be <project>, found <pom>' }]);
+  });
+
+  it('reports references to entities XML does not define', () => {
+    expect(checkPom({ 'pom.xml': '<project>\n  <name>A&nbsp;B</name>\n</project>' }))
+      .toMatchObject([{ line: 2, column: 10, message: expect.stringContaining('&nbsp;') }]);
+  });
+
+  it('has nothing to check without a pom', () => {
+    expect(checkPom({ 'build.gradle.kts': '' })).toEqual([]);
+  });
+});
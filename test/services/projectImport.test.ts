@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { prepareImport, readZipProject } from "../../src/services/projectImport";
+import { MAX_PROJECT_BYTES } from "../../src/services/workspace";
+import { createZipStream } from "../../src/services/zipWriter";
+
+const zip = async (files: Record<string, string>): Promise<Buffer> =>
+  Buffer.concat(await createZipStream(Object.entries(files).map(([name, content]) => ({ name, content: () => Buffer.from(content) }))).toArray());
+
+const POM = '<project><artifactId>heal-plugin</artifactId></project>';
+
+describe('readZipProject', () => {
+  it('reads files relative to the folder the project was zipped from', async () => {
+    const files = readZipProject(await zip({
+      'heal/pom.xml': POM,
+      'heal/src/main/java/Heal.java': 'class Heal {}',
+      'heal/target/heal.jar': 'binary',
+      'heal/.idea/workspace.xml': '<project/>',
+      '__MACOSX/heal/._pom.xml': 'resource fork'
+    }));
+
+    expect(files).toEqual({
+      'pom.xml': POM,
+      'src/main/java/Heal.java': 'class Heal {}',
+      // Listed without content so the import reports them as refused
+      'target/heal.jar': '',
+      '.idea/workspace.xml': ''
+    });
+  });
+
+  it('keeps paths as they are when files sit at the archive root', async () => {
+    expect(Object.keys(readZipProject(await zip({ 'pom.xml': POM, 'src/A.java': '' })))).toEqual(['pom.xml', 'src/A.java']);
+  });
+
+  it('refuses archives that expand beyond the project size limit', async () => {
+    const half = 'x'.repeat(MAX_PROJECT_BYTES / 2 + 1);
+    await expect(zip({ 'a.txt': half, 'b.txt': half }).then(readZipProject)).rejects.toThrow(/expands to more than/);
+  });
+
+  it('refuses uploads that are not ZIP archives', () => {
+    expect(() => readZipProject(Buffer.from('pom.xml'))).toThrow('The upload is not a ZIP archive');
+  });
+});
+
+describe('prepareImport', () => {
+  it('detects the build system and takes the name from plugin.yml', () => {
+    const imported = prepareImport({
+      'build.gradle.kts': 'plugins { java }',
+      'src/main/resources/plugin.yml': 'name: HealPlugin\nversion: 1.0\nmain: com.example.Heal',
+      '.DS_Store': ''
+    });
+    expect(imported).toMatchObject({ pluginName: 'HealPlugin', buildSystem: 'gradle', rejectedFiles: [] });
+  });
+
+  it('falls back to the artifactId of the pom', () => {
+    expect(prepareImport({ 'pom.xml': POM })).toMatchObject({ pluginName: 'healplugin', buildSystem: 'maven' });
+  });
+
+  it('reports the files the workspace refuses', () => {
+    const imported = prepareImport({ 'pom.xml': POM, 'target/heal.jar': '', '../escape.txt': 'x' });
+    expect('rejectedFiles' in imported && imported.rejectedFiles.map(file => file.path)).toEqual(['target/heal.jar', '../escape.txt']);
+  });
+
+  it('needs a build file at the project root', () => {
+    expect(prepareImport({ 'heal/pom.xml': POM })).toEqual({ error: 'The project needs a pom.xml or Gradle build script at its root' });
+  });
+});
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { BuildManifest } from "../../src/services/buildStore";
+import { findSimilarBuilds, SimilarityFilter, tokenizePrompt } from "../../src/services/promptIndex";
+
+// Builds live in memory; the index only reads them through the workspace and build store
+const builds = vi.hoisted(() => new Map<string, Partial<BuildManifest>>());
+
+vi.mock("../../src/services/workspace", () => ({
+  MANIFEST_FILE: 'build.json',
+  listBuildIds: () => [...builds.keys()],
+  readInternalFile: () => null,
+  resolveBuildPath: (buildId: string, fileName: string) => `/nonexistent/${buildId}/${fileName}`
+}));
+
+vi.mock("../../src/services/buildStore", () => ({
+  loadManifest: (buildId: string) => builds.get(buildId) || null
+}));
+
+const filter: SimilarityFilter = { target: { platform: 'paper', mcVersion: '1.20.4' }, buildSystem: 'maven' };
+
+let nextId = 0;
+const addBuild = (prompt: string, overrides: Partial<BuildManifest> = {}): string => {
+  const buildId = `plugin-${++nextId}`;
+  builds.set(buildId, {
+    buildId,
+    prompt,
+    status: 'completed',
+    jarPath: `/builds/${buildId}.jar`,
+    pluginName: `Plugin${nextId}`,
+    scaffold: null,
+    target: filter.target,
+    buildSystem: 'maven',
+    ...overrides
+  });
+  return buildId;
+};
+
+beforeEach(() => {
+  builds.clear();
+});
+
+describe('tokenizePrompt', () => {
+  it('drops stop words and punctuation and stems', () => {
+    expect(tokenizePrompt("Please create a Spigot plugin that heals players when they're hurt!"))
+      .toEqual(['heal', 'player', 'when', 'they', 're', 'hurt']);
+  });
+
+  it('maps word forms to the same term', () => {
+    expect(tokenizePrompt('heals healing healed')).toEqual(['heal', 'heal', 'heal']);
+    expect(tokenizePrompt('abilities ability')).toEqual(['ability', 'ability']);
+    expect(tokenizePrompt('boss glass')).toEqual(['boss', 'glass']);
+  });
+});
+
+describe('findSimilarBuilds', () => {
+  it('finds an earlier build whose prompt says the same in other words', () => {
+    const heal = addBuild('A plugin with a /heal command that heals the player fully, with a 30 second cooldown');
+    addBuild('Teleport players to a random location with /rtp');
+    addBuild('Show a scoreboard with kills and deaths');
+
+    const [match, ...rest] = findSimilarBuilds('Create a /heal command to heal players fully with a cooldown of 30 seconds', filter, 0.5);
+    expect(match).toMatchObject({ buildId: heal, pluginName: 'Plugin1', scaffold: null });
+    expect(match.similarity).toBeGreaterThan(0.8);
+    expect(match.similarity).toBeLessThanOrEqual(1);
+    expect(rest).toEqual([]);
+  });
+
+  it('scores the same prompt as 1', () => {
+    addBuild('Give players a diamond sword when they join');
+    expect(findSimilarBuilds('give players a diamond sword when they join', filter, 0)[0].similarity).toBe(1);
+  });
+
+  it('weighs rare words above words every prompt shares', () => {
+    const sword = addBuild('players get a sword on join');
+    addBuild('players get a shield on join');
+    addBuild('players get food on death');
+
+    const [best, second] = findSimilarBuilds('players get a sword on respawn', filter, 0);
+    expect(best.buildId).toBe(sword);
+    expect(best.similarity).toBeGreaterThan(second.similarity);
+  });
+
+  it('sorts by similarity and applies the threshold and limit', () => {
+    ['a', 'b', 'c'].forEach(letter => addBuild(`heal command with cooldown ${letter}`));
+    addBuild('unrelated scoreboard of kills');
+
+    const matches = findSimilarBuilds('heal command with cooldown', filter, 0.5, 2);
+    expect(matches).toHaveLength(2);
+    expect(matches[0].similarity).toBeGreaterThanOrEqual(matches[1].similarity);
+  });
+
+  it('only offers successful generated builds for the same target and build system', () => {
+    const prompt = 'announce a message every five minutes';
+    const reusable = addBuild(prompt);
+    addBuild(prompt, { status: 'failed' });
+    addBuild(prompt, { jarPath: null });
+    addBuild(prompt, { source: 'imported' });
+    addBuild(prompt, { target: { platform: 'spigot', mcVersion: '1.20.4' } });
+    addBuild(prompt, { target: { platform: 'paper', mcVersion: '1.19.4' } });
+    addBuild(prompt, { buildSystem: 'gradle' });
+    addBuild('', {});
+
+    expect(findSimilarBuilds(prompt, filter, 0).map(build => build.buildId)).toEqual([reusable]);
+  });
+
+  it('filters by scaffold and leaves out the requesting build', () => {
+    const prompt = 'announce a message every five minutes';
+    const plain = addBuild(prompt);
+    const scaffolded = addBuild(prompt, { scaffold: 'command' });
+
+    expect(findSimilarBuilds(prompt, { ...filter, scaffold: 'command' }, 0).map(build => build.buildId)).toEqual([scaffolded]);
+    expect(findSimilarBuilds(prompt, { ...filter, scaffold: null }, 0).map(build => build.buildId)).toEqual([plain]);
+    expect(findSimilarBuilds(prompt, { ...filter, excludeBuildId: plain }, 0).map(build => build.buildId)).toEqual([scaffolded]);
+  });
+
+  it('finds nothing for prompts made only of stop words', () => {
+    addBuild('make a plugin');
+    expect(findSimilarBuilds('Please make me a plugin', filter, 0)).toEqual([]);
+  });
+});
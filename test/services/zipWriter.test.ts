@@ -0,0 +1,122 @@
+import zlib from "zlib";
+import { describe, expect, it } from "vitest";
+import { readZipEntries } from "../../src/services/classFiles";
+import { crc32, createZipStream, ZipEntry } from "../../src/services/zipWriter";
+
+const writeZip = async (entries: ZipEntry[]): Promise<Buffer> =>
+  Buffer.concat(await createZipStream(entries).toArray());
+
+const readZip = (archive: Buffer, options?: Parameters<typeof readZipEntries>[3]): Map<string, Buffer> => {
+  const files = new Map<string, Buffer>();
+  readZipEntries(archive, () => true, (name, content) => files.set(name, content), options);
+  return files;
+};
+
+const entry = (name: string, content: string | Buffer): ZipEntry =>
+  ({ name, content: () => Buffer.isBuffer(content) ? content : Buffer.from(content) });
+
+describe('crc32', () => {
+  it('matches the IEEE check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+
+  it('matches zlib where Node has it', () => {
+    const zlibCrc32 = (zlib as { crc32?: (data: Buffer) => number }).crc32;
+    if (!zlibCrc32) return;
+    const data = Buffer.from(Array.from({ length: 4096 }, (_, index) => (index * 31) & 0xff));
+    expect(crc32(data)).toBe(zlibCrc32(data));
+  });
+});
+
+describe('createZipStream', () => {
+  it('round-trips text, binary, empty and unicode-named files', async () => {
+    const binary = Buffer.from(Array.from({ length: 256 }, (_, index) => index));
+    const repetitive = 'public class Demo {}\n'.repeat(200);
+    const archive = await writeZip([
+      entry('README.md', '# Demo\n'),
+      entry('src/main/java/com/example/Demo.java', repetitive),
+      entry('assets/icon.bin', binary),
+      entry('empty.txt', ''),
+      entry('docs/Über ✓.txt', 'unicode')
+    ]);
+
+    const files = readZip(archive);
+    expect([...files.keys()]).toEqual(['README.md', 'src/main/java/com/example/Demo.java', 'assets/icon.bin', 'empty.txt', 'docs/Über ✓.txt']);
+    expect(files.get('README.md')!.toString()).toBe('# Demo\n');
+    expect(files.get('src/main/java/com/example/Demo.java')!.toString()).toBe(repetitive);
+    expect(files.get('assets/icon.bin')).toEqual(binary);
+    expect(files.get('empty.txt')).toHaveLength(0);
+    expect(files.get('docs/Über ✓.txt')!.toString()).toBe('unicode');
+  });
+
+  it('deflates only when that makes a file smaller', async () => {
+    const archive = await writeZip([entry('small.txt', 'x'), entry('large.txt', 'a'.repeat(10000))]);
+    const methods = [0, 30 + 'small.txt'.length + 1].map(offset => archive.readUInt16LE(offset + 8));
+    expect(methods).toEqual([0, 8]);
+    expect(archive.length).toBeLessThan(10000);
+  });
+
+  it('writes CRCs, sizes and Unix file modes into the central directory', async () => {
+    const content = Buffer.from('hello');
+    const archive = await writeZip([entry('a.txt', content)]);
+    const directory = archive.readUInt32LE(archive.length - 22 + 16);
+
+    expect(archive.readUInt32LE(directory)).toBe(0x02014b50);
+    expect(archive.readUInt32LE(directory + 16)).toBe(crc32(content));
+    expect(archive.readUInt32LE(directory + 24)).toBe(content.length);
+    expect(archive.readUInt32LE(directory + 38) >>> 16).toBe(0o100644);
+  });
+
+  it('stores modification times with two-second precision', async () => {
+    const archive = await writeZip([{ ...entry('a.txt', 'a'), modifiedAt: new Date(2024, 1, 29, 13, 45, 31) }]);
+    const time = archive.readUInt16LE(10);
+    const date = archive.readUInt16LE(12);
+    expect([(date >> 9) + 1980, (date >> 5) & 0xf, date & 0x1f]).toEqual([2024, 2, 29]);
+    expect([time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2]).toEqual([13, 45, 30]);
+  });
+
+  it('reads content lazily, one entry at a time', async () => {
+    const read: string[] = [];
+    const stream = createZipStream(['a', 'b'].map(name => ({ name, content: () => { read.push(name); return Buffer.from(name); } })));
+    expect(read).toEqual([]);
+    await stream.toArray();
+    expect(read).toEqual(['a', 'b']);
+  });
+
+  it('writes a valid empty archive', async () => {
+    expect(readZip(await writeZip([])).size).toBe(0);
+  });
+});
+
+describe('readZipEntries', () => {
+  it('visits only the entries that pass the filter', async () => {
+    const archive = await writeZip([entry('a.class', 'a'), entry('b.txt', 'b'), entry('dir/', '')]);
+    const visited: string[] = [];
+    readZipEntries(archive, name => name.endsWith('.class'), name => visited.push(name));
+    expect(visited).toEqual(['a.class']);
+  });
+
+  it('refuses entries that inflate beyond the limit', async () => {
+    const archive = await writeZip([entry('bomb.txt', '0'.repeat(100000))]);
+    expect(() => readZip(archive, { label: 'upload.zip', maxEntryBytes: 1000 }))
+      .toThrow('bomb.txt in upload.zip is larger than 1000 bytes');
+  });
+
+  it('enforces the limit even when the declared size lies', async () => {
+    const archive = await writeZip([entry('bomb.txt', '0'.repeat(100000))]);
+    const directory = archive.readUInt32LE(archive.length - 22 + 16);
+    archive.writeUInt32LE(10, directory + 24);
+    expect(() => readZip(archive, { maxEntryBytes: 1000 })).toThrow();
+  });
+
+  it('rejects data that is not a ZIP archive', () => {
+    expect(() => readZip(Buffer.from('not a zip at all, just text'), { label: 'upload.zip' })).toThrow('upload.zip is not a ZIP archive');
+  });
+
+  it('rejects a corrupt central directory', async () => {
+    const archive = await writeZip([entry('a.txt', 'a')]);
+    archive.writeUInt32LE(0, archive.readUInt32LE(archive.length - 22 + 16));
+    expect(() => readZip(archive)).toThrow(/Corrupt central directory/);
+  });
+});